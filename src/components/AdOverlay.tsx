@@ -0,0 +1,164 @@
+"use client";
+
+import { memo, useEffect, useRef, useState } from "react";
+import { formatTime, localizeDigits } from "../lib/format";
+import { formatMessage, type PlayerMessages } from "../lib/i18n";
+import type { ActiveAd } from "../hooks/useAds";
+
+interface AdOverlayProps {
+  activeAd: ActiveAd;
+  /** Content element; the ad starts with its volume and mute state */
+  contentVideoRef: React.RefObject<HTMLVideoElement | null>;
+  onTimeUpdate: (time: number, duration: number) => void;
+  onPlaying: () => void;
+  onEnded: (time: number) => void;
+  onError: (time: number) => void;
+  onPause: (time: number) => void;
+  onResume: (time: number) => void;
+  onMuteChange: (muted: boolean, time: number) => void;
+  onSkip: (time: number) => void;
+  onClickThrough: (time: number) => void;
+  messages: PlayerMessages;
+  locale?: string;
+}
+
+/**
+ * Linear ad layer: a second `<video>` above the content with the ad badge
+ * and countdown, a skip button once `skipOffset` has passed and the
+ * click-through. Clicking the ad opens the advertiser's page and pauses it.
+ * Time is tracked locally so the countdown doesn't re-render the player.
+ */
+export const AdOverlay = memo<AdOverlayProps>(({
+  activeAd,
+  contentVideoRef,
+  onTimeUpdate,
+  onPlaying,
+  onEnded,
+  onError,
+  onPause,
+  onResume,
+  onMuteChange,
+  onSkip,
+  onClickThrough,
+  messages,
+  locale,
+}) => {
+  const adVideoRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(activeAd.ad.duration);
+  const [paused, setPaused] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const { ad, src, index, podSize } = activeAd;
+
+  useEffect(() => {
+    const video = adVideoRef.current;
+    if (!video) return;
+    const content = contentVideoRef.current;
+    video.volume = content?.volume ?? 1;
+    video.muted = content?.muted ?? false;
+    setMuted(video.muted);
+    setTime(0);
+    setDuration(ad.duration);
+    video.play().catch(() => {
+      // Unmuted autoplay was blocked; retry muted, else wait for a click
+      video.muted = true;
+      setMuted(true);
+      video.play().catch(() => setPaused(true));
+    });
+  }, [src, ad, contentVideoRef]);
+
+  const now = () => adVideoRef.current?.currentTime ?? 0;
+  const remaining = Math.max(0, Math.ceil(duration - time));
+  const skipIn = ad.skipOffset !== null ? Math.ceil(ad.skipOffset - time) : null;
+
+  const togglePlay = () => {
+    const video = adVideoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(() => {});
+    else video.pause();
+  };
+
+  const openClickThrough = () => {
+    onClickThrough(now());
+    adVideoRef.current?.pause();
+  };
+
+  const toggleMute = () => {
+    const video = adVideoRef.current;
+    if (!video) return;
+    video.muted = !video.muted;
+    setMuted(video.muted);
+    onMuteChange(video.muted, video.currentTime);
+  };
+
+  return (
+    <div className="adOverlay" data-test="ad-overlay">
+      <video
+        ref={adVideoRef}
+        className="adVideo"
+        src={src}
+        playsInline
+        onClick={ad.clickThrough ? openClickThrough : togglePlay}
+        onTimeUpdate={(e) => {
+          const v = e.currentTarget;
+          setTime(v.currentTime);
+          onTimeUpdate(v.currentTime, Number.isFinite(v.duration) ? v.duration : duration);
+        }}
+        onDurationChange={(e) => {
+          const d = e.currentTarget.duration;
+          if (Number.isFinite(d) && d > 0) setDuration(d);
+        }}
+        onPlaying={onPlaying}
+        onPlay={(e) => {
+          setPaused(false);
+          if (e.currentTarget.currentTime > 0) onResume(e.currentTarget.currentTime);
+        }}
+        onPause={(e) => {
+          setPaused(true);
+          if (!e.currentTarget.ended) onPause(e.currentTarget.currentTime);
+        }}
+        onEnded={(e) => onEnded(e.currentTarget.currentTime)}
+        onError={() => onError(now())}
+      />
+
+      <div className="adBar">
+        <span className="adBadge" aria-live="polite">
+          {podSize > 1
+            ? formatMessage(messages.adOfPod, {
+                index: localizeDigits(String(index + 1), locale),
+                count: localizeDigits(String(podSize), locale),
+              })
+            : messages.ad}
+          {" · "}
+          {formatTime(remaining, locale)}
+        </span>
+        {ad.clickThrough && (
+          <button className="adButton" onClick={openClickThrough}>
+            {messages.learnMore}
+          </button>
+        )}
+        <button className="adButton" onClick={togglePlay} aria-label={paused ? messages.playAd : messages.pauseAd}>
+          {paused ? messages.play : messages.pause}
+        </button>
+        <button className="adButton" onClick={toggleMute} aria-label={muted ? messages.unmuteAd : messages.muteAd}>
+          {muted ? messages.unmute : messages.mute}
+        </button>
+      </div>
+
+      {skipIn !== null && (
+        <button
+          className="adSkip"
+          disabled={skipIn > 0}
+          onClick={() => onSkip(now())}
+          data-test="ad-skip"
+        >
+          {skipIn > 0
+            ? formatMessage(messages.skipIn, { seconds: localizeDigits(String(skipIn), locale) })
+            : `${messages.skipAd} ›`}
+        </button>
+      )}
+    </div>
+  );
+});
+
+AdOverlay.displayName = "AdOverlay";
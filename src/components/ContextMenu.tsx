@@ -2,21 +2,24 @@
 
 import React, { memo, useEffect, useRef, useState, useCallback } from "react";
 import type { ContextMenuItem, VideoPlayerRef } from "../lib/types";
+import type { PlayerMessages } from "../lib/i18n";
+import { usePlayerState } from "./PlayerContext";
 
 interface ContextMenuProps {
   x: number;
   y: number;
-  isPlaying: boolean;
   src: string;
   videoRef: React.RefObject<HTMLVideoElement | null>;
   playerRef: VideoPlayerRef;
   onClose: () => void;
   contextMenuItems?: ContextMenuItem[];
+  messages: PlayerMessages;
 }
 
 export const ContextMenu = memo<ContextMenuProps>(
-  ({ x, y, isPlaying, src, videoRef, playerRef, onClose, contextMenuItems }) => {
+  ({ x, y, src, videoRef, playerRef, onClose, contextMenuItems, messages }) => {
     const menuRef = useRef<HTMLDivElement>(null);
+    const isPlaying = usePlayerState((s) => s.isPlaying);
     const [isLooping, setIsLooping] = useState(
       () => videoRef.current?.loop ?? false,
     );
@@ -85,26 +88,26 @@ export const ContextMenu = memo<ContextMenuProps>(
         style={{ left: adjustedX, top: adjustedY }}
       >
         <button className="contextMenuItem" onClick={handlePlayPause}>
-          {isPlaying ? "Pause" : "Play"}
+          {isPlaying ? messages.pause : messages.play}
         </button>
         <button className="contextMenuItem" onClick={handleToggleLoop}>
-          <span>Loop</span>
+          <span>{messages.loop}</span>
           {isLooping && <span className="contextMenuCheck">✓</span>}
         </button>
 
         <div className="contextMenuDivider" />
 
         <button className="contextMenuItem" onClick={handleCopyUrl}>
-          Copy video URL
+          {messages.copyVideoUrl}
         </button>
         <button className="contextMenuItem" onClick={handleCopyTimestamp}>
-          Copy video URL at current time
+          {messages.copyVideoUrlAtTime}
         </button>
 
         <div className="contextMenuDivider" />
 
         <button className="contextMenuItem" onClick={handlePiP}>
-          Picture-in-Picture
+          {messages.pictureInPicture}
         </button>
 
         {contextMenuItems && contextMenuItems.length > 0 && (
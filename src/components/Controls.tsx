@@ -1,64 +1,93 @@
 "use client";
 
-import React, { memo, useEffect, useRef, useState, useCallback } from "react";
+import React, { memo, useEffect, useRef, useState, useCallback, useMemo } from "react";
 import type {
-  PlaybackRate,
-  VideoPlayerRef,
-  HLSQualityLevel,
   ControlBarItem,
+  KeyboardShortcutsOptions,
+  ShortcutAction,
+  BuiltInControl,
+  ControlsLayout,
+  ControlsLayoutItem,
 } from "../lib/types";
+import { resolveShortcuts, findShortcut, getSeekPercent, formatShortcutKey } from "../lib/shortcuts";
+import { resolveControlsLayout } from "../lib/controlsLayout";
+import type { PlayerMessages } from "../lib/i18n";
 import { ControlElements } from "./control-elements";
+import { usePlayerContext, usePlayerState } from "./PlayerContext";
+import { ShortcutsOverlay } from "./ShortcutsOverlay";
 
+/** Frame-step size; the stream's frame rate isn't exposed, so assume 30 fps */
+const FRAME_DURATION = 1 / 30;
+
+/** Outside the player, keys on these keep their own meaning in global mode */
+const INTERACTIVE_SELECTOR = "button, a[href], select, summary, [role='button'], [role='link']";
+
+/**
+ * Only what the player doesn't know itself: state, actions, messages and
+ * the caption style come from the enclosing VideoPlayer or PlayerProvider,
+ * each control subscribing to the slices it shows.
+ */
 interface ControlsProps {
-  videoRef: React.RefObject<HTMLVideoElement | null>;
-  playerRef: VideoPlayerRef;
   playerContainerRef: React.RefObject<HTMLElement | null>;
-  playbackRates: PlaybackRate[];
   enablePreview: boolean;
   thumbnailVtt?: string;
-  isPlaying: boolean;
-  volume: number;
-  isMuted: boolean;
-  playbackRate: number;
-  isFullscreen: boolean;
-  isPictureInPicture: boolean;
-  isTheaterMode: boolean;
-  isLive: boolean;
-  qualityLevels: HLSQualityLevel[];
-  currentQualityLevel: number;
   controlBarItems?: ControlBarItem[];
+  controlsLayout?: Partial<ControlsLayout>;
+  /** Playlist navigation — the buttons render only when the handlers are set */
+  onPrevious?: () => void;
+  onNext?: () => void;
+  hasPrevious?: boolean;
+  hasNext?: boolean;
+  /** Time display shows the stream's wall-clock time instead of the media time */
+  showWallClockTime?: boolean;
+  /** Mid-roll ad positions in seconds, marked on the progress bar */
+  adBreaks?: number[];
+  /** Fired when the control bar auto-hides or reappears */
+  onVisibilityChange?: (visible: boolean) => void;
+  keyboardShortcuts?: boolean | KeyboardShortcutsOptions;
 }
 
-export const Controls: React.FC<ControlsProps> = ({
-  videoRef,
-  playerRef,
+export const Controls = memo<ControlsProps>(({
   playerContainerRef,
-  playbackRates,
   enablePreview,
   thumbnailVtt,
-  isPlaying,
-  volume,
-  isMuted,
-  playbackRate,
-  isFullscreen,
-  isPictureInPicture,
-  isTheaterMode,
-  isLive,
-  qualityLevels,
-  currentQualityLevel,
   controlBarItems,
+  controlsLayout,
+  onPrevious,
+  onNext,
+  hasPrevious = true,
+  hasNext = true,
+  adBreaks,
+  showWallClockTime = false,
+  onVisibilityChange,
+  keyboardShortcuts = true,
 }) => {
+  const { store, player: playerRef, videoRef, playbackRates, messages } = usePlayerContext("Controls");
+  // The play button and the auto-hide timer; every other control subscribes itself
+  const isPlaying = usePlayerState((s) => s.isPlaying);
+  const isLive = usePlayerState((s) => s.isLive);
+
   const hideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showControls, setShowControls] = useState(true);
 
   /**
-   * Stable ref capturing the values the keyboard handler needs.
-   * isPlaying/volume/isMuted/isLive come from React state (rare changes).
-   * currentTime/duration are read directly from the video element so the
-   * keyboard shortcuts always see fresh values without subscribing to state.
+   * Playlist handlers for the keyboard handler, which subscribes once.
+   * Player state is read from the store per key press and currentTime /
+   * duration from the video element, so shortcuts always see fresh values.
    */
-  const liveRef = useRef({ isPlaying, volume, isMuted, isLive });
-  liveRef.current = { isPlaying, volume, isMuted, isLive };
+  const liveRef = useRef({ onPrevious, onNext, playbackRates });
+  liveRef.current = { onPrevious, onNext, playbackRates };
+
+  /** Captions toggled off with C come back on with the same track */
+  const lastSubtitleTrackRef = useRef(store.getState().activeSubtitleTrack);
+  useEffect(
+    () =>
+      store.subscribe(() => {
+        const id = store.getState().activeSubtitleTrack;
+        if (id) lastSubtitleTrackRef.current = id;
+      }),
+    [store],
+  );
 
   // ─── Auto-hide controls ──────────────────────────────────────────────────
   useEffect(() => {
@@ -96,191 +125,353 @@ export const Controls: React.FC<ControlsProps> = ({
     };
   }, [isPlaying, playerContainerRef]);
 
+  const onVisibilityChangeRef = useRef(onVisibilityChange);
+  onVisibilityChangeRef.current = onVisibilityChange;
+  useEffect(() => {
+    onVisibilityChangeRef.current?.(showControls);
+  }, [showControls]);
+
   // ─── Keyboard shortcuts ─────────────────────────────────────────────────
+  const shortcuts = useMemo(
+    () =>
+      keyboardShortcuts === false
+        ? []
+        : resolveShortcuts(
+            keyboardShortcuts === true ? undefined : keyboardShortcuts,
+            messages.shortcuts,
+          ),
+    [keyboardShortcuts, messages],
+  );
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+  // Shown in the live button's tooltip; none when the action is unbound
+  const seekToLiveKey = shortcuts.find((s) => s.action === "seekToLive")?.keys[0];
+  const globalShortcuts = typeof keyboardShortcuts === "object" && !!keyboardShortcuts.global;
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const showShortcutsRef = useRef(showShortcuts);
+  showShortcutsRef.current = showShortcuts;
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!playerContainerRef.current?.contains(document.activeElement)) return;
-
+      const container = playerContainerRef.current;
+      if (!container) return;
       const target = e.target as HTMLElement;
       if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return;
+      if (globalShortcuts) {
+        // Space / Enter on the page's own buttons and links keep working
+        if (!container.contains(target) && target.closest?.(INTERACTIVE_SELECTOR)) return;
+      } else if (!container.contains(document.activeElement)) {
+        return;
+      }
+
+      if (e.key === "Escape" && showShortcutsRef.current) {
+        e.preventDefault();
+        setShowShortcuts(false);
+        return;
+      }
+
+      const match = findShortcut(shortcutsRef.current, e);
+      if (!match) return;
+      e.preventDefault();
+      const { action } = match.shortcut;
+      if (typeof action === "object") action.action(playerRef, e);
+      else runShortcut(action, match.key);
+    };
 
-      const { isPlaying: playing, volume: vol, isLive: live } = liveRef.current;
+    const runShortcut = (action: ShortcutAction, key: string) => {
+      const {
+        isPlaying: playing,
+        volume: vol,
+        isLive: live,
+        playbackRate: rate,
+        subtitleTracks: tracks,
+        activeSubtitleTrack: active,
+      } = store.getState();
       // Read time/duration directly from the video element — always fresh
-      const ct = videoRef.current?.currentTime ?? 0;
-      const dur = videoRef.current?.duration ?? 0;
+      const video = videoRef.current;
+      const ct = video?.currentTime ?? 0;
+      const dur = video?.duration ?? 0;
 
-      switch (e.code) {
-        case "Space": case "KeyK":
-          e.preventDefault();
+      switch (action) {
+        case "togglePlay":
           playing ? playerRef.pause() : playerRef.play();
           break;
-        case "ArrowLeft":
-          e.preventDefault();
-          playerRef.seek(Math.max(0, ct - 5));
+        case "seekBackward":
+        case "rewind":
+          playerRef.seek(Math.max(0, ct - (action === "rewind" ? 10 : 5)));
           break;
-        case "ArrowRight":
-          e.preventDefault();
-          playerRef.seek(Math.min(dur || Infinity, ct + 5));
+        case "seekForward":
+        case "fastForward":
+          playerRef.seek(Math.min(dur || Infinity, ct + (action === "fastForward" ? 10 : 5)));
           break;
-        case "ArrowUp":
-          e.preventDefault();
+        case "volumeUp":
           playerRef.setVolume(Math.min(1, vol + 0.1));
           break;
-        case "ArrowDown":
-          e.preventDefault();
+        case "volumeDown":
           playerRef.setVolume(Math.max(0, vol - 0.1));
           break;
-        case "KeyM":
-          e.preventDefault();
+        case "toggleMute":
           playerRef.toggleMute();
           break;
-        case "KeyF":
-          e.preventDefault();
+        case "toggleFullscreen":
           playerRef.toggleFullscreen();
           break;
-        case "KeyP":
-          e.preventDefault();
+        case "togglePictureInPicture":
           playerRef.togglePictureInPicture();
           break;
-        case "KeyT":
-          e.preventDefault();
+        case "toggleTheaterMode":
           playerRef.toggleTheaterMode();
           break;
-        case "KeyL":
-          e.preventDefault();
+        case "toggleCaptions": {
+          if (active) {
+            playerRef.setSubtitleTrack(null);
+            break;
+          }
+          // Back to the track last shown, else the default one
+          const last = tracks.find((t) => t.id === lastSubtitleTrackRef.current);
+          const next = last ?? tracks.find((t) => t.default) ?? tracks[0];
+          if (next) playerRef.setSubtitleTrack(next.id);
+          break;
+        }
+        case "seekToLive":
           if (live) playerRef.seekToLive();
           break;
-        case "Digit0": case "Digit1": case "Digit2": case "Digit3": case "Digit4":
-        case "Digit5": case "Digit6": case "Digit7": case "Digit8": case "Digit9": {
-          e.preventDefault();
-          const pct = Number(e.code.replace("Digit", "")) * 10;
-          playerRef.seek((dur / 100) * pct);
+        case "previous":
+          liveRef.current.onPrevious?.();
+          break;
+        case "next":
+          liveRef.current.onNext?.();
+          break;
+        case "slowDown":
+        case "speedUp": {
+          const rates = [...liveRef.current.playbackRates].sort((x, y) => x - y);
+          const next = action === "speedUp"
+            ? rates.find((r) => r > rate)
+            : rates.reverse().find((r) => r < rate);
+          if (next !== undefined) playerRef.setPlaybackRate(next);
           break;
         }
+        case "previousFrame":
+        case "nextFrame":
+          // Frame stepping only makes sense on a still picture
+          if (playing) playerRef.pause();
+          playerRef.seek(ct + (action === "nextFrame" ? FRAME_DURATION : -FRAME_DURATION));
+          break;
+        case "seekToPercent": {
+          const pct = getSeekPercent(key);
+          if (pct === null) break;
+          // Live streams jump within the DVR window
+          const dvr = playerRef.getLiveWindow();
+          if (dvr) playerRef.seek(dvr.start + ((dvr.end - dvr.start) / 100) * pct);
+          else playerRef.seek((dur / 100) * pct);
+          break;
+        }
+        case "showShortcuts":
+          setShowShortcuts((open) => !open);
+          break;
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [playerRef, playerContainerRef, videoRef]);
-
-  // ─── Stable callbacks for child components ───────────────────────────────
-  const handlePlay = useCallback(() => playerRef.play(), [playerRef]);
-  const handlePause = useCallback(() => playerRef.pause(), [playerRef]);
-  const handleVolumeChange = useCallback((v: number) => playerRef.setVolume(v), [playerRef]);
-  const handleToggleMute = useCallback(() => playerRef.toggleMute(), [playerRef]);
-  const handleRateChange = useCallback((r: PlaybackRate) => playerRef.setPlaybackRate(r), [playerRef]);
-  const handleQualityChange = useCallback((l: number) => playerRef.setQualityLevel(l), [playerRef]);
-  const handlePiP = useCallback(() => playerRef.togglePictureInPicture(), [playerRef]);
-  const handleTheaterToggle = useCallback(() => playerRef.toggleTheaterMode(), [playerRef]);
-  const handleFullscreen = useCallback(() => playerRef.toggleFullscreen(), [playerRef]);
-  const handleSeekToLive = useCallback(() => playerRef.seekToLive(), [playerRef]);
-
-  return (
-    <div
-      style={{
-        position: "absolute",
-        inset: 0,
-        display: "flex",
-        flexDirection: "column",
-        justifyContent: "flex-end",
-        opacity: showControls ? 1 : 0,
-        transition: "opacity 0.3s",
-        pointerEvents: "none",
-      }}
-    >
-      <div
-        style={{
-          background: "linear-gradient(to top, rgba(0,0,0,0.75) 0%, rgba(0,0,0,0.2) 60%, transparent 100%)",
-          padding: "48px 12px 12px",
-          pointerEvents: showControls ? "auto" : "none",
-        }}
-        role="region"
-        aria-label="Video player controls"
-      >
-        {/* Progress bar — self-subscribes to timeupdate/progress on videoRef */}
-        <ControlElements.ProgressBar
-          videoRef={videoRef}
-          playerRef={playerRef}
-          enablePreview={enablePreview}
-          thumbnailVtt={thumbnailVtt}
-        />
+  }, [store, playerRef, playerContainerRef, videoRef, globalShortcuts]);
 
-        <div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 4 }}>
-          {isPlaying ? (
-            <ControlElements.PauseButton onClick={handlePause} />
-          ) : (
-            <ControlElements.PlayButton onClick={handlePlay} />
-          )}
+  const closeShortcuts = useCallback(() => setShowShortcuts(false), []);
 
-          <ControlElements.VolumeControl
-            volume={volume}
-            isMuted={isMuted}
-            onVolumeChange={handleVolumeChange}
-            onToggleMute={handleToggleMute}
-          />
+  const layout = resolveControlsLayout(controlsLayout);
 
-          {/* TimeDisplay — self-subscribes to timeupdate/durationchange on videoRef */}
+  const renderControl = (control: BuiltInControl): React.ReactNode => {
+    switch (control) {
+      case "previous":
+        return onPrevious ? (
+          <ControlElements.PreviousButton onClick={onPrevious} disabled={!hasPrevious} />
+        ) : null;
+      case "play":
+        return isPlaying ? <ControlElements.PauseButton /> : <ControlElements.PlayButton />;
+      case "next":
+        return onNext ? (
+          <ControlElements.NextButton onClick={onNext} disabled={!hasNext} />
+        ) : null;
+      case "volume":
+        return <ControlElements.VolumeControl />;
+      case "time":
+        // TimeDisplay — writes the store's throttled position straight to the DOM
+        return (
           <ControlElements.TimeDisplay
-            videoRef={videoRef}
-            isLive={isLive}
+            getProgramDateTime={showWallClockTime ? playerRef.getProgramDateTime : undefined}
           />
+        );
+      case "live":
+        return isLive ? (
+          <GoLiveButton
+            onClick={playerRef.seekToLive}
+            messages={messages}
+            shortcut={seekToLiveKey && formatShortcutKey(seekToLiveKey)}
+          />
+        ) : null;
+      case "settings":
+        // Speed always shown; quality / subtitles / audio tabs appear when available
+        return <ControlElements.SettingsMenu />;
+      case "controlBarItems":
+        // Custom control bar items injected by the consumer
+        return controlBarItems?.map((item) => (
+          <button
+            key={item.key}
+            className="controlButton"
+            aria-label={item.label}
+            title={item.title ?? item.label}
+            onClick={item.onClick}
+          >
+            {item.icon}
+          </button>
+        ));
+      case "pictureInPicture":
+        return <ControlElements.PiPButton />;
+      case "theaterMode":
+        return <ControlElements.TheaterButton />;
+      case "fullscreen":
+        return <ControlElements.FullscreenButton />;
+      default:
+        return null;
+    }
+  };
 
-          <div style={{ flex: 1 }} />
+  /** Built-in names, slot elements and nested groups, in layout order */
+  const renderItems = (items: ControlsLayoutItem[]): React.ReactNode =>
+    items.map((item, i) => {
+      if (Array.isArray(item)) {
+        return (
+          <div key={i} className="controlGroup" style={{ display: "flex", alignItems: "center" }}>
+            {renderItems(item)}
+          </div>
+        );
+      }
+      return <React.Fragment key={i}>{typeof item === "string" ? renderControl(item) : item}</React.Fragment>;
+    });
 
-          {isLive && (
-            <GoLiveButton onClick={handleSeekToLive} />
-          )}
+  return (
+    <>
+      {layout.top.length > 0 && (
+        <div
+          className="controlsTop"
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            display: "flex",
+            alignItems: "center",
+            gap: 4,
+            padding: "12px 12px 32px",
+            background:
+              "var(--helios-control-background-top, linear-gradient(to bottom, rgba(0,0,0,0.6) 0%, transparent 100%))",
+            opacity: showControls ? 1 : 0,
+            transition: "opacity 0.3s",
+            pointerEvents: showControls ? "auto" : "none",
+          }}
+        >
+          {renderItems(layout.top)}
+        </div>
+      )}
 
-          {/* Settings — speed always shown; quality tab appears for HLS streams */}
-          <ControlElements.SettingsMenu
-            currentRate={playbackRate}
-            playbackRates={playbackRates}
-            onRateChange={handleRateChange}
-            qualityLevels={qualityLevels}
-            currentQualityLevel={currentQualityLevel}
-            onQualityChange={handleQualityChange}
-          />
+      <div
+        style={{
+          position: "absolute",
+          inset: 0,
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "flex-end",
+          opacity: showControls ? 1 : 0,
+          transition: "opacity 0.3s",
+          pointerEvents: "none",
+        }}
+      >
+        <div
+          style={{
+            background:
+              "var(--helios-control-background, linear-gradient(to top, rgba(0,0,0,0.75) 0%, rgba(0,0,0,0.2) 60%, transparent 100%))",
+            padding: "48px 12px 12px",
+            pointerEvents: showControls ? "auto" : "none",
+          }}
+          role="region"
+          aria-label={messages.controls}
+        >
+          {/* Progress bar — subscribes to the store's throttled position */}
+          {layout.progressBar && (
+            <ControlElements.ProgressBar
+              enablePreview={enablePreview}
+              thumbnailVtt={thumbnailVtt}
+              adBreaks={adBreaks}
+            />
+          )}
 
-          {/* Custom control bar items injected by the consumer */}
-          {controlBarItems?.map((item) => (
-            <button
-              key={item.key}
-              className="controlButton"
-              aria-label={item.label}
-              title={item.title ?? item.label}
-              onClick={item.onClick}
+          <div style={{ display: "flex", alignItems: "center", gap: 4, marginTop: 4 }}>
+            {renderItems(layout.left)}
+            <div
+              className="controlsCenter"
+              style={{ flex: 1, display: "flex", alignItems: "center", justifyContent: "center", gap: 4 }}
             >
-              {item.icon}
-            </button>
-          ))}
-
-          <ControlElements.PiPButton onClick={handlePiP} isPiP={isPictureInPicture} />
-          <ControlElements.TheaterButton onClick={handleTheaterToggle} isTheater={isTheaterMode} />
-          <ControlElements.FullscreenButton onClick={handleFullscreen} isFullscreen={isFullscreen} />
+              {renderItems(layout.center)}
+            </div>
+            {renderItems(layout.right)}
+          </div>
         </div>
       </div>
-    </div>
+
+      {showShortcuts && (
+        <ShortcutsOverlay shortcuts={shortcuts} onClose={closeShortcuts} messages={messages} />
+      )}
+    </>
   );
-};
+});
+
+Controls.displayName = "Controls";
 
-const GoLiveButton = memo(({ onClick }: { onClick: () => void }) => (
-  <button
-    onClick={onClick}
-    style={{
-      background: "none",
-      border: "1px solid rgba(255,255,255,0.6)",
-      color: "#fff",
-      borderRadius: 3,
-      padding: "2px 8px",
-      fontSize: 11,
-      fontWeight: 700,
-      cursor: "pointer",
-      letterSpacing: "0.06em",
-    }}
-    title="Go to live (L)"
-  >
-    GO LIVE
-  </button>
-));
+/** A red dot while playing at the live edge, grey once behind it */
+const GoLiveButton = memo(({
+  onClick,
+  messages,
+  shortcut,
+}: {
+  onClick: () => void;
+  messages: PlayerMessages;
+  /** Formatted `seekToLive` key for the tooltip */
+  shortcut?: string;
+}) => {
+  const atLiveEdge = usePlayerState((s) => s.isAtLiveEdge);
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 6,
+        background: "none",
+        border: "1px solid color-mix(in srgb, var(--helios-control-color, #fff) 60%, transparent)",
+        color: "var(--helios-control-color, #fff)",
+        borderRadius: "var(--helios-radius, 3px)",
+        padding: "2px 8px",
+        fontSize: 11,
+        fontWeight: 700,
+        cursor: "pointer",
+        letterSpacing: "0.06em",
+      }}
+      title={shortcut ? `${messages.goToLive} (${shortcut})` : messages.goToLive}
+      aria-pressed={atLiveEdge}
+    >
+      <span
+        aria-hidden="true"
+        style={{
+          width: 6,
+          height: 6,
+          borderRadius: "50%",
+          backgroundColor: atLiveEdge
+            ? "var(--helios-live, #e53935)"
+            : "color-mix(in srgb, var(--helios-control-color, #fff) 50%, transparent)",
+        }}
+      />
+      {atLiveEdge ? messages.live : messages.goLive}
+    </button>
+  );
+});
 GoLiveButton.displayName = "GoLiveButton";
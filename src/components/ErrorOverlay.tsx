@@ -0,0 +1,34 @@
+"use client";
+
+import { memo } from "react";
+import type { VideoError } from "../lib/types";
+import { getErrorKind } from "../lib/errors";
+import type { PlayerMessages } from "../lib/i18n";
+
+interface ErrorOverlayProps {
+  error: VideoError;
+  onRetry: () => void;
+  messages: PlayerMessages;
+}
+
+/**
+ * Fatal error screen. Recoverable errors get a "Retry" button that reloads
+ * the source at the last position; network errors also retry on their own
+ * once the browser is back online. `renderError` replaces this entirely.
+ */
+export const ErrorOverlay = memo<ErrorOverlayProps>(({ error, onRetry, messages }) => (
+  <div className="errorOverlay" role="alert" data-test="error-overlay">
+    <div className="errorContent">
+      <div className="errorIcon" aria-hidden="true">⚠</div>
+      <h3 className="errorTitle">{messages.errorTitles[getErrorKind(error)]}</h3>
+      <p className="errorMessage">{error.message}</p>
+      {error.recoverable && (
+        <button className="errorRetry" onClick={onRetry} data-test="error-retry">
+          {messages.retry}
+        </button>
+      )}
+    </div>
+  </div>
+));
+
+ErrorOverlay.displayName = "ErrorOverlay";
@@ -0,0 +1,119 @@
+"use client";
+
+import { createContext, useContext, useMemo } from "react";
+import type { CaptionStyle, PlaybackRate, PlayerState, VideoPlayerRef } from "../lib/types";
+import type { PlayerMessages } from "../lib/i18n";
+import { createPlayerStore, DEFAULT_PLAYER_STATE, type PlayerStore } from "../lib/store";
+import { useStoreState } from "../hooks/useStoreState";
+
+/**
+ * Stable for the life of the player: state is read from `store` by
+ * selector, so a state change doesn't re-render every consumer.
+ */
+export interface PlayerContextValue {
+  store: PlayerStore;
+  player: VideoPlayerRef;
+  /** The element the engine drives; ControlElements subscribe to its events */
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  playbackRates: PlaybackRate[];
+  captionStyle: CaptionStyle;
+  setCaptionStyle: (patch: Partial<CaptionStyle>) => void;
+  resetCaptionStyle: () => void;
+  messages: PlayerMessages;
+  locale?: string;
+}
+
+export const DEFAULT_PLAYBACK_RATES: PlaybackRate[] = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/** Provided by VideoPlayer and PlayerProvider */
+export const PlayerContext = createContext<PlayerContextValue | null>(null);
+
+/** What `usePlayer` returns: the context plus the whole state */
+export interface UsePlayerResult extends PlayerContextValue {
+  state: PlayerState;
+}
+
+const selectAll = (state: PlayerState) => state;
+const selectCurrentTime = (state: PlayerState) => state.currentTime;
+
+/** The subtitle track being rendered, or null */
+export const selectActiveSubtitleTrack = (state: PlayerState) =>
+  state.subtitleTracks.find((t) => t.id === state.activeSubtitleTrack) ?? null;
+
+/** The context without subscribing to state; throws outside a player */
+export function usePlayerContext(hook: string): PlayerContextValue {
+  const value = useContext(PlayerContext);
+  if (!value) throw new Error(`${hook} must be used inside a VideoPlayer or PlayerProvider`);
+  return value;
+}
+
+/**
+ * State and API of the enclosing player, for components placed in
+ * `controlsLayout` slots or under a `PlayerProvider`. Re-renders on any
+ * state change, throttled time updates included; `usePlayerState` with a
+ * selector re-renders only when its slice does.
+ */
+export function usePlayer(): UsePlayerResult {
+  const context = usePlayerContext("usePlayer");
+  const state = useStoreState(context.store, selectAll);
+  return useMemo(() => ({ ...context, state }), [context, state]);
+}
+
+/**
+ * One slice of the player state: `usePlayerState((s) => s.isPlaying)`.
+ * Pass `isEqual` when the selector builds a new object or array each time.
+ */
+export function usePlayerState(): PlayerState;
+export function usePlayerState<T>(
+  selector: (state: PlayerState) => T,
+  isEqual?: (a: T, b: T) => boolean,
+): T;
+export function usePlayerState<T>(
+  selector?: (state: PlayerState) => T,
+  isEqual?: (a: T, b: T) => boolean,
+): T | PlayerState {
+  const { store } = usePlayerContext("usePlayerState");
+  return useStoreState(store, selector ?? (selectAll as (state: PlayerState) => T), isEqual);
+}
+
+/** play, seek, setVolume, toggleFullscreen… — a stable object, safe in dep arrays */
+export function usePlayerActions(): VideoPlayerRef {
+  return usePlayerContext("usePlayerActions").player;
+}
+
+/**
+ * Playback position in seconds, written to the store at most four times a
+ * second and at once on seeks and pauses. Only the calling component
+ * re-renders; TimeDisplay and ProgressBar write to the DOM instead and are
+ * cheaper for always-visible UI.
+ */
+export function useCurrentTime(): number {
+  const { store } = usePlayerContext("useCurrentTime");
+  return useStoreState(store, selectCurrentTime);
+}
+
+/**
+ * For ControlElements, which take explicit props first and fall back to the
+ * enclosing player; null when rendered on their own.
+ */
+export function useOptionalPlayer(): PlayerContextValue | null {
+  return useContext(PlayerContext);
+}
+
+/** Never written: stands in for the store outside any player, so hooks run unconditionally */
+const DETACHED_STORE = createPlayerStore(DEFAULT_PLAYER_STATE);
+
+/** A slice of the enclosing player's state for ControlElements; undefined outside any player */
+export function useOptionalPlayerState<T>(
+  selector: (state: PlayerState) => T,
+  isEqual?: (a: T, b: T) => boolean,
+): T | undefined {
+  const context = useContext(PlayerContext);
+  const value = useStoreState(context?.store ?? DETACHED_STORE, selector, isEqual);
+  return context ? value : undefined;
+}
+
+/** Thrown by a ControlElement missing a required prop outside any player */
+export function missingPlayer(component: string): never {
+  throw new Error(`${component} needs a VideoPlayer or PlayerProvider around it, or explicit props`);
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { createContext, forwardRef, memo, useCallback, useContext, useId, useMemo, useState } from "react";
+import type { CaptionStyle, PlayerProviderProps, SubtitleTrack, VideoPlayerProps } from "../lib/types";
+import { useVideoPlayer } from "../hooks/useVideoPlayer";
+import { useCaptionStyle } from "../hooks/useCaptionStyle";
+import { useMessages } from "../hooks/useMessages";
+import { getCaptionCueRule } from "../lib/captionStyle";
+import { SubtitleOverlay } from "./SubtitleOverlay";
+import {
+  PlayerContext,
+  DEFAULT_PLAYBACK_RATES,
+  usePlayerContext,
+  usePlayerState,
+  selectActiveSubtitleTrack,
+  type PlayerContextValue,
+} from "./PlayerContext";
+
+/** What PlayerVideo needs to render the element; not part of the public context */
+interface PlayerMediaContextValue {
+  /** Registers the mounted element, so the engine follows it across remounts */
+  setVideoElement: (video: HTMLVideoElement | null) => void;
+  sidecarSubtitleTracks: SubtitleTrack[];
+  poster?: string;
+  preload: NonNullable<VideoPlayerProps["preload"]>;
+  crossOrigin?: VideoPlayerProps["crossOrigin"];
+  captionStyle: CaptionStyle;
+}
+
+const PlayerMediaContext = createContext<PlayerMediaContextValue | null>(null);
+
+/**
+ * Headless player: runs the engine and shares it through context, renders
+ * no UI of its own. Place a `PlayerVideo` anywhere below it, then build the
+ * skin from ControlElements (which need no props here) and the hooks —
+ * `usePlayerState`, `usePlayerActions`, `useCurrentTime`.
+ */
+export function PlayerProvider({
+  children,
+  src,
+  poster,
+  preload = "metadata",
+  crossOrigin,
+  playbackRates = DEFAULT_PLAYBACK_RATES,
+  captionStyle: captionStyleProp,
+  captionStorage,
+  locale,
+  messages: messageOverrides,
+  ...options
+}: PlayerProviderProps) {
+  // A fresh ref per element: every engine effect keyed on `videoRef` re-runs
+  // when a PlayerVideo mounts late, remounts or moves between layouts
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const videoRef = useMemo<React.RefObject<HTMLVideoElement | null>>(
+    () => ({ current: videoElement }),
+    [videoElement],
+  );
+  const { store, ref: playerRef, sidecarSubtitleTracks, playlist } = useVideoPlayer(
+    videoRef,
+    src,
+    { ...options, playbackRates },
+  );
+
+  const { captionStyle, setCaptionStyle, resetCaptionStyle } =
+    useCaptionStyle(captionStyleProp, captionStorage);
+  const messages = useMessages(locale, messageOverrides);
+
+  const contextValue = useMemo<PlayerContextValue>(
+    () => ({
+      store,
+      player: playerRef,
+      videoRef,
+      playbackRates,
+      captionStyle,
+      setCaptionStyle,
+      resetCaptionStyle,
+      messages,
+      locale,
+    }),
+    [store, playerRef, videoRef, playbackRates, captionStyle, setCaptionStyle, resetCaptionStyle, messages, locale],
+  );
+
+  // The active playlist item overrides the top-level poster
+  const activePoster = playlist.item ? playlist.item.poster : poster;
+  const mediaValue = useMemo<PlayerMediaContextValue>(
+    () => ({ setVideoElement, sidecarSubtitleTracks, poster: activePoster, preload, crossOrigin, captionStyle }),
+    [sidecarSubtitleTracks, activePoster, preload, crossOrigin, captionStyle],
+  );
+
+  return (
+    <PlayerContext.Provider value={contextValue}>
+      <PlayerMediaContext.Provider value={mediaValue}>{children}</PlayerMediaContext.Provider>
+    </PlayerContext.Provider>
+  );
+}
+
+export type PlayerVideoProps = Omit<
+  React.VideoHTMLAttributes<HTMLVideoElement>,
+  "src" | "poster" | "preload" | "crossOrigin" | "children"
+>;
+
+/**
+ * The `<video>` element of the enclosing PlayerProvider. Takes any video
+ * attribute except the ones the engine owns. Fullscreen applies to its
+ * parent element, so wrap it together with the controls. It may mount
+ * later than the provider or remount; the engine reattaches to the new
+ * element. Render one at a time.
+ */
+export const PlayerVideo = memo(
+  forwardRef<HTMLVideoElement, PlayerVideoProps>((props, forwardedRef) => {
+    const media = useContext(PlayerMediaContext);
+    if (!media) throw new Error("PlayerVideo must be used inside a PlayerProvider");
+    // Scopes the ::cue rule to this <video>
+    const captionScope = useId();
+
+    const { setVideoElement } = media;
+    const setRef = useCallback(
+      (video: HTMLVideoElement | null) => {
+        setVideoElement(video);
+        if (typeof forwardedRef === "function") forwardedRef(video);
+        else if (forwardedRef) forwardedRef.current = video;
+      },
+      [setVideoElement, forwardedRef],
+    );
+
+    return (
+      <>
+        <video
+          playsInline
+          {...props}
+          ref={setRef}
+          poster={media.poster}
+          preload={media.preload}
+          crossOrigin={media.crossOrigin}
+          data-caption-scope={captionScope}
+        >
+          {/* Native tracks stay disabled (no `default`) — PlayerCaptions renders the cues */}
+          {media.sidecarSubtitleTracks.map((track) => (
+            <track
+              key={track.id}
+              kind="subtitles"
+              src={track.src}
+              label={track.label}
+              srcLang={track.srclang}
+            />
+          ))}
+        </video>
+        {/* Natively drawn cues (e.g. iOS fullscreen) follow the same caption style */}
+        <style>{getCaptionCueRule(`video[data-caption-scope="${captionScope}"]`, media.captionStyle)}</style>
+      </>
+    );
+  }),
+);
+
+PlayerVideo.displayName = "PlayerVideo";
+
+export interface PlayerCaptionsProps {
+  /** Lift captions above a control bar while it is visible */
+  raised?: boolean;
+}
+
+/**
+ * The built-in caption renderer for the active subtitle track, styled with
+ * the player's caption style. Positioned absolutely: place it in the same
+ * relatively positioned box as the PlayerVideo.
+ */
+export const PlayerCaptions = memo<PlayerCaptionsProps>(({ raised = false }) => {
+  const { videoRef, captionStyle } = usePlayerContext("PlayerCaptions");
+  const track = usePlayerState(selectActiveSubtitleTrack);
+  return <SubtitleOverlay videoRef={videoRef} track={track} raised={raised} captionStyle={captionStyle} />;
+});
+
+PlayerCaptions.displayName = "PlayerCaptions";
@@ -0,0 +1,31 @@
+"use client";
+
+import { memo } from "react";
+import { formatTime } from "../lib/format";
+import { formatMessage, type PlayerMessages } from "../lib/i18n";
+
+interface ResumeOverlayProps {
+  time: number;
+  onResume: () => void;
+  onStartOver: () => void;
+  messages: PlayerMessages;
+  locale?: string;
+}
+
+/**
+ * "Resume from 12:34 / Start over" prompt shown when `resumePrompt` is set
+ * and a saved position exists. Sits above the control bar without blocking
+ * the video.
+ */
+export const ResumeOverlay = memo<ResumeOverlayProps>(({ time, onResume, onStartOver, messages, locale }) => (
+  <div className="resumeOverlay" role="dialog" aria-label={messages.resumePlayback} data-test="resume-overlay">
+    <button className="resumeButton primary" onClick={onResume}>
+      {formatMessage(messages.resumeFrom, { time: formatTime(time, locale) })}
+    </button>
+    <button className="resumeButton" onClick={onStartOver}>
+      {messages.startOver}
+    </button>
+  </div>
+));
+
+ResumeOverlay.displayName = "ResumeOverlay";
@@ -0,0 +1,53 @@
+"use client";
+
+import { memo } from "react";
+import { formatShortcutKey, type ResolvedShortcut } from "../lib/shortcuts";
+import type { PlayerMessages } from "../lib/i18n";
+
+interface ShortcutsOverlayProps {
+  shortcuts: ResolvedShortcut[];
+  onClose: () => void;
+  messages: PlayerMessages;
+}
+
+/** Long runs (the digit keys) are shown as a range: "0 – 9" */
+function formatKeys(keys: string[]): string {
+  if (keys.length > 3) {
+    return `${formatShortcutKey(keys[0])} – ${formatShortcutKey(keys[keys.length - 1])}`;
+  }
+  return keys.map(formatShortcutKey).join(" / ");
+}
+
+/**
+ * Keyboard shortcut reference, opened with Shift + / (or whatever
+ * `showShortcuts` is bound to). Lists the bindings in effect, custom ones
+ * included. Escape or the close button dismisses it.
+ */
+export const ShortcutsOverlay = memo<ShortcutsOverlayProps>(({ shortcuts, onClose, messages }) => (
+  <div
+    className="shortcutsOverlay"
+    role="dialog"
+    aria-label={messages.keyboardShortcuts}
+    data-test="shortcuts-overlay"
+    onClick={onClose}
+  >
+    <div className="shortcutsPanel" onClick={(e) => e.stopPropagation()}>
+      <div className="shortcutsHeader">
+        <h3 className="shortcutsTitle">{messages.keyboardShortcuts}</h3>
+        <button className="shortcutsClose" onClick={onClose} aria-label={messages.close}>
+          ✕
+        </button>
+      </div>
+      <dl className="shortcutsList">
+        {shortcuts.map((shortcut) => (
+          <div className="shortcutsRow" key={`${shortcut.label}:${shortcut.keys.join(" ")}`}>
+            <dt className="shortcutsKeys">{formatKeys(shortcut.keys)}</dt>
+            <dd className="shortcutsLabel">{shortcut.label}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  </div>
+));
+
+ShortcutsOverlay.displayName = "ShortcutsOverlay";
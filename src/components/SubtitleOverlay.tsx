@@ -0,0 +1,259 @@
+"use client";
+
+import React, { memo, useEffect, useRef, useState } from "react";
+import type { SubtitleTrack, CaptionStyle } from "../lib/types";
+import {
+  parseSubtitleVtt,
+  parseCueText,
+  findActiveCues,
+  fromTextTrackCue,
+  type SubtitleCue,
+  type CueNode,
+  type CueAlign,
+} from "../lib/subtitles";
+import { findEmbeddedTextTrack } from "../lib/tracks";
+import { getCaptionCss } from "../lib/captionStyle";
+
+interface SubtitleOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  track: SubtitleTrack | null;
+  /** Lift captions above the control bar while it is visible */
+  raised?: boolean;
+  /** User / host caption appearance; unset falls back to the stylesheet */
+  captionStyle?: CaptionStyle;
+}
+
+/** Vertical step for integer `line` settings */
+const LINE_HEIGHT_EM = 1.5;
+
+const TEXT_ALIGN: Record<CueAlign, React.CSSProperties["textAlign"]> = {
+  start: "left",
+  left: "left",
+  center: "center",
+  end: "right",
+  right: "right",
+};
+
+const ANCHOR_SHIFT: Record<CueAlign, string> = {
+  start: "0",
+  left: "0",
+  center: "-50%",
+  end: "-100%",
+  right: "-100%",
+};
+
+function defaultPosition(align: CueAlign): number {
+  if (align === "start" || align === "left") return 0;
+  if (align === "end" || align === "right") return 100;
+  return 50;
+}
+
+function renderText(text: string, key: string): React.ReactNode[] {
+  return text.split("\n").flatMap((part, i) =>
+    i === 0 ? [part] : [<br key={`${key}-br${i}`} />, part],
+  );
+}
+
+function renderNodes(nodes: CueNode[], prefix = "n"): React.ReactNode[] {
+  return nodes.flatMap((node, i): React.ReactNode[] => {
+    const key = `${prefix}${i}`;
+    if (node.type === "text") return renderText(node.text, key);
+
+    const children = renderNodes(node.children, `${key}-`);
+    const className = node.classes.length ? node.classes.join(" ") : undefined;
+    switch (node.tag) {
+      case "b": return [<b key={key} className={className}>{children}</b>];
+      case "i": return [<i key={key} className={className}>{children}</i>];
+      case "u": return [<u key={key} className={className}>{children}</u>];
+      case "v":
+        return [
+          <span key={key} className={className} data-voice={node.annotation} title={node.annotation}>
+            {children}
+          </span>,
+        ];
+      case "lang":
+        return [<span key={key} className={className} lang={node.annotation}>{children}</span>];
+      default:
+        return [<span key={key} className={className}>{children}</span>];
+    }
+  });
+}
+
+/** Absolute placement for cues that carry an explicit `line` setting */
+function getPositionedStyle(cue: SubtitleCue): React.CSSProperties {
+  const pos = cue.position === "auto" ? defaultPosition(cue.align) : cue.position;
+  const style: React.CSSProperties = {
+    position: "absolute",
+    width: `${cue.size}%`,
+    left: `${pos}%`,
+    transform: `translateX(${ANCHOR_SHIFT[cue.align]})`,
+    textAlign: TEXT_ALIGN[cue.align],
+  };
+  const line = cue.line as number;
+  if (cue.lineIsPercent) style.top = `${line}%`;
+  else if (line >= 0) style.top = `${line * LINE_HEIGHT_EM}em`;
+  else style.bottom = `${(-line - 1) * LINE_HEIGHT_EM}em`;
+  return style;
+}
+
+/** Horizontal placement for cues stacked at the bottom (`line:auto`) */
+function getStackedStyle(cue: SubtitleCue): React.CSSProperties {
+  const style: React.CSSProperties = {
+    width: `${cue.size}%`,
+    textAlign: TEXT_ALIGN[cue.align],
+  };
+  if (cue.position !== "auto") {
+    style.position = "relative";
+    style.left = `${cue.position}%`;
+    style.transform = `translateX(${ANCHOR_SHIFT[cue.align]})`;
+    style.alignSelf = "flex-start";
+  }
+  return style;
+}
+
+/**
+ * Renders WebVTT captions for `track` over the video.
+ *
+ * Sidecar track files are fetched and parsed by the built-in parser;
+ * embedded (HLS / in-band) tracks are read from the engine's TextTrack.
+ * Either way captions can be styled with plain CSS and positioned above the
+ * control bar.
+ * Like TimeDisplay, it subscribes to the video element directly and only
+ * re-renders when the set of active cues changes.
+ */
+export const SubtitleOverlay = memo<SubtitleOverlayProps>(({
+  videoRef,
+  track,
+  raised = false,
+  captionStyle,
+}) => {
+  const cuesRef = useRef<SubtitleCue[]>([]);
+  const [active, setActive] = useState<SubtitleCue[]>([]);
+  const [loadedSrc, setLoadedSrc] = useState<string | null>(null);
+
+  // ─── Fetch + parse the selected track ───────────────────────────────────
+  useEffect(() => {
+    cuesRef.current = [];
+    setActive([]);
+    setLoadedSrc(null);
+    if (!track || track.embedded) return;
+
+    let cancelled = false;
+    fetch(track.src)
+      .then((r) => {
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.text();
+      })
+      .then((text) => {
+        if (cancelled) return;
+        cuesRef.current = parseSubtitleVtt(text);
+        setLoadedSrc(track.src);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.warn(`[subtitles] ${track.src} failed to load:`, err);
+        cuesRef.current = [];
+      });
+    return () => { cancelled = true; };
+  }, [track]);
+
+  // ─── Follow the playhead ────────────────────────────────────────────────
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !loadedSrc) return;
+
+    const update = () => {
+      const next = findActiveCues(cuesRef.current, video.currentTime);
+      setActive((prev) =>
+        prev.length === next.length && prev.every((c, i) => c === next[i]) ? prev : next,
+      );
+    };
+
+    video.addEventListener("timeupdate", update);
+    video.addEventListener("seeked", update);
+    update();
+
+    return () => {
+      video.removeEventListener("timeupdate", update);
+      video.removeEventListener("seeked", update);
+    };
+  }, [videoRef, loadedSrc]);
+
+  // ─── Embedded tracks: read cues from the engine's TextTrack ──────────────
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !track?.embedded) return;
+
+    let textTrack: TextTrack | null = null;
+
+    const onCueChange = () => {
+      const cues = textTrack?.activeCues;
+      const next: SubtitleCue[] = [];
+      if (cues) for (let i = 0; i < cues.length; i++) next.push(fromTextTrackCue(cues[i]));
+      setActive(next);
+    };
+
+    // The TextTrack may not exist yet (hls.js creates it after switching)
+    const attach = () => {
+      if (textTrack) return;
+      textTrack = findEmbeddedTextTrack(video, track);
+      if (!textTrack) return;
+      // "hidden" keeps cues flowing without the browser drawing them itself
+      if (textTrack.mode === "disabled") textTrack.mode = "hidden";
+      textTrack.addEventListener("cuechange", onCueChange);
+      onCueChange();
+    };
+
+    video.textTracks.addEventListener("addtrack", attach);
+    attach();
+
+    return () => {
+      video.textTracks.removeEventListener("addtrack", attach);
+      if (textTrack) {
+        textTrack.removeEventListener("cuechange", onCueChange);
+        // hls.js manages its own tracks; in-band native ones are ours to turn off
+        if (track.id.startsWith("native-")) textTrack.mode = "disabled";
+      }
+      setActive([]);
+    };
+  }, [videoRef, track]);
+
+  if (!track || !active.length) return null;
+
+  const stacked = active.filter((c) => c.line === "auto");
+  const positioned = active.filter((c) => c.line !== "auto");
+  const css = captionStyle ? getCaptionCss(captionStyle) : null;
+
+  const renderCue = (cue: SubtitleCue) => (
+    <span className="subtitleCueWindow" style={css?.window}>
+      <span className="subtitleCue" style={css?.cue}>{renderNodes(parseCueText(cue.text))}</span>
+    </span>
+  );
+
+  return (
+    <div
+      className={`subtitleOverlay${raised ? " raised" : ""}`}
+      style={captionStyle ? ({ "--caption-scale": captionStyle.fontSize } as React.CSSProperties) : undefined}
+      lang={track.srclang}
+      aria-live="polite"
+      data-test="subtitle-overlay"
+    >
+      {positioned.map((cue, i) => (
+        <div key={`p${i}`} className="subtitleCueBox" style={getPositionedStyle(cue)}>
+          {renderCue(cue)}
+        </div>
+      ))}
+      {stacked.length > 0 && (
+        <div className="subtitleStack">
+          {stacked.map((cue, i) => (
+            <div key={`s${i}`} className="subtitleCueBox" style={getStackedStyle(cue)}>
+              {renderCue(cue)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+SubtitleOverlay.displayName = "SubtitleOverlay";
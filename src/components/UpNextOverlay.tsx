@@ -0,0 +1,45 @@
+"use client";
+
+import { memo } from "react";
+import type { UpNext } from "../hooks/usePlaylist";
+import { formatMessage, type PlayerMessages } from "../lib/i18n";
+import { localizeDigits } from "../lib/format";
+
+interface UpNextOverlayProps {
+  upNext: UpNext;
+  onPlayNow: () => void;
+  onCancel: () => void;
+  messages: PlayerMessages;
+  locale?: string;
+}
+
+/**
+ * "Up next" countdown shown when a playlist item ends and autoplay-next is on.
+ */
+export const UpNextOverlay = memo<UpNextOverlayProps>(({ upNext, onPlayNow, onCancel, messages, locale }) => (
+  <div className="upNextOverlay" data-test="up-next-overlay">
+    <div className="upNextCard">
+      <div className="upNextLabel">
+        {formatMessage(messages.upNextIn, { seconds: localizeDigits(String(upNext.remaining), locale) })}
+      </div>
+      {upNext.item.poster && (
+        <div
+          className="upNextPoster"
+          style={{ backgroundImage: `url(${upNext.item.poster})` }}
+        />
+      )}
+      <div className="upNextTitle">{upNext.item.title ??
+          formatMessage(messages.untitledVideo, { number: localizeDigits(String(upNext.index + 1), locale) })}</div>
+      <div className="upNextActions">
+        <button className="upNextButton" onClick={onCancel}>
+          {messages.cancel}
+        </button>
+        <button className="upNextButton primary" onClick={onPlayNow}>
+          {messages.playNow}
+        </button>
+      </div>
+    </div>
+  </div>
+));
+
+UpNextOverlay.displayName = "UpNextOverlay";
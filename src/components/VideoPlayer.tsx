@@ -1,55 +1,156 @@
 "use client";
 
-import React, { forwardRef, useEffect, useRef, useCallback, useState } from "react";
+import React, { forwardRef, memo, useEffect, useRef, useCallback, useState, useId, useMemo } from "react";
 import type { VideoPlayerProps, VideoPlayerRef } from "../lib/types";
 import { useVideoPlayer } from "../hooks/useVideoPlayer";
+import { useCaptionStyle } from "../hooks/useCaptionStyle";
+import { useMessages } from "../hooks/useMessages";
+import { useStoreState } from "../hooks/useStoreState";
+import { getCaptionCueRule } from "../lib/captionStyle";
+import { getTextDirection } from "../lib/i18n";
+import { getThemeStyle } from "../lib/theme";
 import { Controls } from "./Controls";
 import { ContextMenu } from "./ContextMenu";
+import { UpNextOverlay } from "./UpNextOverlay";
+import { ResumeOverlay } from "./ResumeOverlay";
+import { AdOverlay } from "./AdOverlay";
+import { ErrorOverlay } from "./ErrorOverlay";
+import { PlayerContext, DEFAULT_PLAYBACK_RATES, usePlayerState, type PlayerContextValue } from "./PlayerContext";
+import { PlayerCaptions } from "./PlayerProvider";
 
 const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
   (
     {
       src,
+      sources,
+      onSourceChange,
       poster,
       autoplay = false,
-      muted = false,
+      muted,
+      playing,
+      onPlayingChange,
+      volume,
+      onVolumeChange,
+      playbackRate,
+      onPlaybackRateChange,
+      currentTime,
+      onCurrentTimeChange,
       loop = false,
       controls = true,
       preload = "metadata",
-      playbackRates = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2],
+      playbackRates = DEFAULT_PLAYBACK_RATES,
       className,
       enableHLS = true,
+      enableDASH = true,
       enablePreview = true,
+      enablePrefetch = false,
       thumbnailVtt,
       hlsConfig,
+      retryPolicy,
+      onRetry,
+      drm,
+      liveLatency,
+      onLatencyChange,
+      onMetadataCue,
+      showWallClockTime,
       subtitles,
       crossOrigin,
+      playlist: playlistItems,
+      playlistStartIndex,
+      autoplayNext = true,
+      autoplayNextDelay = 5,
+      repeatMode,
+      shuffle,
+      onPlaylistIndexChange,
+      chapters,
+      onChapterChange,
+      captionStyle: captionStyleProp,
+      captionStorage,
+      persistPreferences,
+      resumeKey,
+      resumePrompt = false,
+      resumeFrom,
+      resumeStorage,
+      onProgressSave,
+      analytics,
+      ads: adsOptions,
       onPlay,
       onPause,
       onEnded,
       onError,
+      renderError,
       onTimeUpdate,
       onDurationChange,
       onBuffering,
       onTheaterModeChange,
       contextMenuItems,
       controlBarItems,
+      controlsLayout,
+      keyboardShortcuts,
+      locale,
+      messages: messageOverrides,
+      theme,
     },
     forwardedRef,
   ) => {
     const videoRef = useRef<HTMLVideoElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
 
-    const { state, ref: playerRef, fullscreenContainerRef } = useVideoPlayer(
+    const {
+      store,
+      ref: playerRef,
+      fullscreenContainerRef,
+      activeSrc,
+      sidecarSubtitleTracks,
+      playlist,
+      resume,
+      ads,
+    } = useVideoPlayer(
       videoRef,
       src,
       {
         autoplay,
         muted,
+        playing,
+        onPlayingChange,
+        volume,
+        onVolumeChange,
+        playbackRate,
+        onPlaybackRateChange,
+        currentTime,
+        onCurrentTimeChange,
         loop,
         playbackRates,
         enableHLS,
+        enableDASH,
+        enablePrefetch,
+        subtitles,
         hlsConfig,
+        retryPolicy,
+        onRetry,
+        drm,
+        liveLatency,
+        onLatencyChange,
+        onMetadataCue,
+        sources,
+        onSourceChange,
+        persistPreferences,
+        resumeKey,
+        resumePrompt,
+        resumeFrom,
+        resumeStorage,
+        onProgressSave,
+        analytics,
+        ads: adsOptions,
+        playlist: playlistItems,
+        playlistStartIndex,
+        autoplayNext,
+        autoplayNextDelay,
+        repeatMode,
+        shuffle,
+        onPlaylistIndexChange,
+        chapters,
+        onChapterChange,
         onPlay,
         onPause,
         onEnded,
@@ -61,8 +162,46 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       },
     );
 
+    // The active playlist item overrides the top-level media props
+    const item = playlist.item;
+    const activePoster = item ? item.poster : poster;
+    const activeThumbnailVtt = item ? item.thumbnailVtt : thumbnailVtt;
+    const hasPlaylist = playlist.length > 1;
+
+    // Only what this component renders from; controls and overlays subscribe themselves
+    const error = useStoreState(store, (s) => s.error);
+    const isTheaterMode = useStoreState(store, (s) => s.isTheaterMode);
+
+    const [controlsVisible, setControlsVisible] = useState(true);
+
+    const { captionStyle, setCaptionStyle, resetCaptionStyle } =
+      useCaptionStyle(captionStyleProp, captionStorage);
+    // Scopes the ::cue rule to this player's <video>
+    const captionScope = useId();
+
     const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
 
+    const messages = useMessages(locale, messageOverrides);
+
+    // Keyed on identity: hosts pass a preset name or a stable object
+    const themeStyle = useMemo(() => getThemeStyle(theme), [theme]);
+
+    // Read by components in `controlsLayout` slots through `usePlayer`
+    const contextValue = useMemo<PlayerContextValue>(
+      () => ({
+        store,
+        player: playerRef,
+        videoRef,
+        playbackRates,
+        captionStyle,
+        setCaptionStyle,
+        resetCaptionStyle,
+        messages,
+        locale,
+      }),
+      [store, playerRef, playbackRates, captionStyle, setCaptionStyle, resetCaptionStyle, messages, locale],
+    );
+
     useEffect(() => {
       fullscreenContainerRef.current = containerRef.current;
     }, [fullscreenContainerRef]);
@@ -72,9 +211,9 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
     const handleVideoClick = useCallback(() => {
       // Focus the container so keyboard shortcuts activate for this player
       containerRef.current?.focus();
-      if (state.isPlaying) playerRef.pause();
+      if (playerRef.getState().isPlaying) playerRef.pause();
       else playerRef.play();
-    }, [state.isPlaying, playerRef]);
+    }, [playerRef]);
 
     const handleDoubleClick = useCallback(() => {
       playerRef.toggleFullscreen();
@@ -88,166 +227,204 @@ const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
 
 
     return (
-      <div
-        ref={containerRef}
-        tabIndex={0}
-        style={{
-          position: "relative",
-          width: "100%",
-          backgroundColor: "#000",
-          aspectRatio: "16 / 9",
-          userSelect: "none",
-          outline: "none",
-        }}
-        className={className}
-        data-test="video-player-container"
-        data-theater={state.isTheaterMode ? "true" : undefined}
-        onContextMenu={handleContextMenu}
-      >
-        <video
-          ref={videoRef}
-          poster={poster}
-          preload={preload}
-          crossOrigin={crossOrigin}
-          onClick={handleVideoClick}
-          onDoubleClick={handleDoubleClick}
-          playsInline
-          style={{ width: "100%", height: "100%", display: "block", cursor: "pointer" }}
-          data-test="video-element"
+      <PlayerContext.Provider value={contextValue}>
+        <div
+          ref={containerRef}
+          tabIndex={0}
+          style={{
+            position: "relative",
+            width: "100%",
+            background: "var(--helios-background, #000)",
+            aspectRatio: "16 / 9",
+            userSelect: "none",
+            outline: "none",
+            fontFamily: "var(--helios-font-family, inherit)",
+            ...themeStyle,
+          }}
+          className={className}
+          dir={getTextDirection(locale)}
+          lang={locale}
+          data-test="video-player-container"
+          data-theater={isTheaterMode ? "true" : undefined}
+          onContextMenu={handleContextMenu}
         >
-          {subtitles?.map((track) => (
-            <track
-              key={track.id}
-              kind="subtitles"
-              src={track.src}
-              label={track.label}
-              srcLang={track.srclang}
-              default={track.default}
-            />
-          ))}
-        </video>
-
-        {controls && (
-          <Controls
-            videoRef={videoRef}
-            playerRef={playerRef}
-            playerContainerRef={containerRef}
-            playbackRates={playbackRates}
-            enablePreview={enablePreview}
-            thumbnailVtt={thumbnailVtt}
-            isPlaying={state.isPlaying}
-            volume={state.volume}
-            isMuted={state.isMuted}
-            playbackRate={state.playbackRate}
-            isFullscreen={state.isFullscreen}
-            isPictureInPicture={state.isPictureInPicture}
-            isTheaterMode={state.isTheaterMode}
-            isLive={state.isLive}
-            qualityLevels={state.qualityLevels}
-            currentQualityLevel={state.currentQualityLevel}
-            controlBarItems={controlBarItems}
-          />
-        )}
-
-        {contextMenu && (
-          <ContextMenu
-            x={contextMenu.x}
-            y={contextMenu.y}
-            isPlaying={state.isPlaying}
-            src={src}
-            videoRef={videoRef}
-            playerRef={playerRef}
-            onClose={() => setContextMenu(null)}
-            contextMenuItems={contextMenuItems}
-          />
-        )}
-
-        {/* LIVE badge */}
-        {state.isLive && (
-          <div
-            style={{
-              position: "absolute",
-              top: 12,
-              left: 12,
-              backgroundColor: "#e53935",
-              color: "#fff",
-              fontSize: 11,
-              fontWeight: 700,
-              letterSpacing: "0.08em",
-              padding: "2px 8px",
-              borderRadius: 3,
-              pointerEvents: "none",
-            }}
-          >
-            LIVE
-          </div>
-        )}
-
-        {/* Buffering spinner */}
-        {state.isBuffering && !state.error && (
-          <div
-            style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              flexDirection: "column",
-              alignItems: "center",
-              justifyContent: "center",
-              gap: 12,
-              color: "#fff",
-              pointerEvents: "none",
-            }}
-            data-test="buffering-indicator"
+          <video
+            ref={videoRef}
+            poster={activePoster}
+            preload={preload}
+            crossOrigin={crossOrigin}
+            onClick={handleVideoClick}
+            onDoubleClick={handleDoubleClick}
+            playsInline
+            style={{ width: "100%", height: "100%", display: "block", cursor: "pointer" }}
+            data-test="video-element"
+            data-caption-scope={captionScope}
           >
-            <div
-              style={{
-                width: 48,
-                height: 48,
-                border: "4px solid rgba(255,255,255,0.25)",
-                borderTop: "4px solid #fff",
-                borderRadius: "50%",
-                animation: "rvp-spin 0.8s linear infinite",
-              }}
+            {/* Native tracks stay disabled (no `default`) — SubtitleOverlay renders the cues */}
+            {sidecarSubtitleTracks.map((track) => (
+              <track
+                key={track.id}
+                kind="subtitles"
+                src={track.src}
+                label={track.label}
+                srcLang={track.srclang}
+              />
+            ))}
+          </video>
+          {/* Natively drawn cues (e.g. iOS fullscreen) follow the same caption style */}
+          <style>{getCaptionCueRule(`video[data-caption-scope="${captionScope}"]`, captionStyle)}</style>
+
+          <PlayerCaptions raised={controls && controlsVisible} />
+
+          {controls && !ads.isAdBreakActive && (
+            <Controls
+              playerContainerRef={containerRef}
+              enablePreview={enablePreview}
+              thumbnailVtt={activeThumbnailVtt}
+              controlBarItems={controlBarItems}
+              controlsLayout={controlsLayout}
+              onPrevious={hasPlaylist ? playerRef.previous : undefined}
+              onNext={hasPlaylist ? playerRef.next : undefined}
+              hasPrevious={playlist.hasPrevious}
+              hasNext={playlist.hasNext}
+              adBreaks={ads.adBreakTimes}
+              showWallClockTime={showWallClockTime}
+              onVisibilityChange={setControlsVisible}
+              keyboardShortcuts={keyboardShortcuts}
             />
-            <style>{`@keyframes rvp-spin { to { transform: rotate(360deg); } }`}</style>
-          </div>
-        )}
-
-        {/* Error overlay */}
-        {state.error && (
-          <div
-            style={{
-              position: "absolute",
-              inset: 0,
-              display: "flex",
-              alignItems: "center",
-              justifyContent: "center",
-              backgroundColor: "rgba(0,0,0,0.85)",
-              color: "#fff",
-              padding: 24,
-            }}
-            data-test="error-overlay"
-          >
-            <div style={{ textAlign: "center", maxWidth: 400 }}>
-              <div style={{ fontSize: 36, marginBottom: 12 }}>⚠</div>
-              <h3 style={{ margin: "0 0 8px", fontSize: 18 }}>
-                {state.error.code === "MEDIA_ERR_SRC_NOT_SUPPORTED"
-                  ? "Unsupported Format"
-                  : state.error.code.startsWith("HLS")
-                    ? "Stream Error"
-                    : "Playback Error"}
-              </h3>
-              <p style={{ margin: 0, fontSize: 13, opacity: 0.75 }}>
-                {state.error.message}
-              </p>
-            </div>
-          </div>
-        )}
-      </div>
+          )}
+
+          {contextMenu && (
+            <ContextMenu
+              x={contextMenu.x}
+              y={contextMenu.y}
+              src={activeSrc}
+              videoRef={videoRef}
+              playerRef={playerRef}
+              onClose={() => setContextMenu(null)}
+              contextMenuItems={contextMenuItems}
+              messages={messages}
+            />
+          )}
+
+          {resume.promptTime !== null && !error && (
+            <ResumeOverlay
+              time={resume.promptTime}
+              onResume={resume.resume}
+              onStartOver={resume.startOver}
+              messages={messages}
+              locale={locale}
+            />
+          )}
+
+          {playlist.upNext && (
+            <UpNextOverlay
+              upNext={playlist.upNext}
+              onPlayNow={playlist.playUpNext}
+              onCancel={playlist.cancelUpNext}
+              messages={messages}
+              locale={locale}
+            />
+          )}
+
+          {ads.activeAd && (
+            <AdOverlay
+              key={`${ads.activeAd.index}-${ads.activeAd.src}`}
+              activeAd={ads.activeAd}
+              contentVideoRef={videoRef}
+              onTimeUpdate={ads.handleAdTimeUpdate}
+              onPlaying={ads.handleAdPlaying}
+              onEnded={ads.handleAdEnded}
+              onError={ads.handleAdError}
+              onPause={ads.handleAdPause}
+              onResume={ads.handleAdResume}
+              onMuteChange={ads.handleAdMuteChange}
+              onSkip={ads.skipAd}
+              onClickThrough={ads.clickThrough}
+              messages={messages}
+              locale={locale}
+            />
+          )}
+
+          <LiveBadge label={messages.live} />
+          {!error && <BufferingIndicator />}
+
+          {/* Error overlay */}
+          {error &&
+            (renderError ? (
+              renderError(error, playerRef.retry)
+            ) : (
+              <ErrorOverlay error={error} onRetry={playerRef.retry} messages={messages} />
+            ))}
+        </div>
+      </PlayerContext.Provider>
     );
   },
 );
 
 VideoPlayer.displayName = "VideoPlayer";
 
+/** LIVE badge — red at the live edge, grey when watching behind it */
+const LiveBadge = memo(({ label }: { label: string }) => {
+  const isLive = usePlayerState((s) => s.isLive);
+  const isAtLiveEdge = usePlayerState((s) => s.isAtLiveEdge);
+  if (!isLive) return null;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        top: 12,
+        insetInlineStart: 12,
+        backgroundColor: isAtLiveEdge
+          ? "var(--helios-live, #e53935)"
+          : "var(--helios-live-behind, rgba(80, 80, 80, 0.85))",
+        color: "var(--helios-live-color, #fff)",
+        fontSize: 11,
+        fontWeight: 700,
+        letterSpacing: "0.08em",
+        padding: "2px 8px",
+        borderRadius: "var(--helios-radius, 3px)",
+        pointerEvents: "none",
+      }}
+    >
+      {label}
+    </div>
+  );
+});
+LiveBadge.displayName = "LiveBadge";
+
+const BufferingIndicator = memo(() => {
+  const isBuffering = usePlayerState((s) => s.isBuffering);
+  if (!isBuffering) return null;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        flexDirection: "column",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 12,
+        color: "var(--helios-spinner-color, #fff)",
+        pointerEvents: "none",
+      }}
+      data-test="buffering-indicator"
+    >
+      <div
+        style={{
+          width: 48,
+          height: 48,
+          border: "4px solid rgba(255,255,255,0.25)",
+          borderTop: "4px solid currentColor",
+          borderRadius: "50%",
+          animation: "rvp-spin 0.8s linear infinite",
+        }}
+      />
+      <style>{`@keyframes rvp-spin { to { transform: rotate(360deg); } }`}</style>
+    </div>
+  );
+});
+BufferingIndicator.displayName = "BufferingIndicator";
+
 export default VideoPlayer;
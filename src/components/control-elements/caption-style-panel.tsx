@@ -0,0 +1,163 @@
+"use client";
+
+import { memo, useMemo } from "react";
+import type { CaptionStyle, CaptionFontFamily, CaptionEdgeStyle } from "../../lib/types";
+import {
+  CAPTION_FONT_SIZES,
+  CAPTION_OPACITIES,
+  CAPTION_COLORS,
+  CAPTION_FONT_FAMILIES,
+  CAPTION_EDGE_STYLES,
+} from "../../lib/captionStyle";
+import { DEFAULT_MESSAGES, type PlayerMessages } from "../../lib/i18n";
+import { useOptionalPlayer, missingPlayer } from "../PlayerContext";
+
+/** Inside a VideoPlayer or PlayerProvider, edits the player's own caption style */
+export interface CaptionStylePanelProps {
+  captionStyle?: CaptionStyle;
+  onChange?: (patch: Partial<CaptionStyle>) => void;
+  onReset?: () => void;
+  onBack?: () => void;
+  messages?: PlayerMessages;
+  /** Formats the size and opacity percentages */
+  locale?: string;
+}
+
+interface RowProps {
+  label: string;
+  value: string;
+  options: { label: string; value: string }[];
+  onChange: (value: string) => void;
+}
+
+function Row({ label, value, options, onChange }: RowProps) {
+  // Keep custom host values selectable even when they aren't in the preset list
+  const list = options.some((o) => o.value === value)
+    ? options
+    : [...options, { label: value, value }];
+  return (
+    <label className="captionStyleRow">
+      <span>{label}</span>
+      <select
+        className="captionStyleSelect"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {list.map((o) => (
+          <option key={o.value} value={o.value}>{o.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/** The select options, labelled in the given language */
+function buildOptions(messages: PlayerMessages, locale?: string) {
+  let percentFormat: Intl.NumberFormat;
+  try {
+    percentFormat = new Intl.NumberFormat(locale, { style: "percent" });
+  } catch {
+    percentFormat = new Intl.NumberFormat(undefined, { style: "percent" });
+  }
+  const percent = (v: number) => ({ label: percentFormat.format(v), value: String(v) });
+  return {
+    size: CAPTION_FONT_SIZES.map(percent),
+    opacity: CAPTION_OPACITIES.map(percent),
+    color: CAPTION_COLORS.map((c) => ({ label: messages.captionColors[c.name], value: c.value })),
+    family: (Object.keys(CAPTION_FONT_FAMILIES) as CaptionFontFamily[]).map((k) => ({
+      label: messages.captionFonts[k],
+      value: k,
+    })),
+    edge: (Object.keys(CAPTION_EDGE_STYLES) as CaptionEdgeStyle[]).map((k) => ({
+      label: messages.captionEdges[k],
+      value: k,
+    })),
+  };
+}
+
+/**
+ * Caption appearance settings, shown inside the settings menu from the
+ * Subtitles tab. Every change is applied immediately.
+ */
+const CaptionStylePanel = memo<CaptionStylePanelProps>(({
+  captionStyle: captionStyleProp,
+  onChange: onChangeProp,
+  onReset: onResetProp,
+  onBack,
+  messages: messagesProp,
+  locale: localeProp,
+}) => {
+  const context = useOptionalPlayer();
+  const captionStyle = captionStyleProp ?? context?.captionStyle ?? missingPlayer("CaptionStylePanel");
+  const onChange = onChangeProp ?? context?.setCaptionStyle ?? missingPlayer("CaptionStylePanel");
+  const onReset = onResetProp ?? context?.resetCaptionStyle;
+  const messages = messagesProp ?? context?.messages ?? DEFAULT_MESSAGES;
+  const locale = localeProp ?? context?.locale;
+
+  const options = useMemo(() => buildOptions(messages, locale), [messages, locale]);
+  return (
+    <div className="captionStylePanel">
+      {onBack && (
+        <button onClick={onBack} className="settingsOption captionStyleBack">
+          ‹ {messages.captionStyle}
+        </button>
+      )}
+      <Row
+        label={messages.fontSize}
+        value={String(captionStyle.fontSize)}
+        options={options.size}
+        onChange={(v) => onChange({ fontSize: Number(v) })}
+      />
+      <Row
+        label={messages.fontFamily}
+        value={captionStyle.fontFamily}
+        options={options.family}
+        onChange={(v) => onChange({ fontFamily: v as CaptionFontFamily })}
+      />
+      <Row
+        label={messages.textColor}
+        value={captionStyle.textColor}
+        options={options.color}
+        onChange={(v) => onChange({ textColor: v })}
+      />
+      <Row
+        label={messages.edgeStyle}
+        value={captionStyle.edgeStyle}
+        options={options.edge}
+        onChange={(v) => onChange({ edgeStyle: v as CaptionEdgeStyle })}
+      />
+      <Row
+        label={messages.background}
+        value={captionStyle.backgroundColor}
+        options={options.color}
+        onChange={(v) => onChange({ backgroundColor: v })}
+      />
+      <Row
+        label={messages.backgroundOpacity}
+        value={String(captionStyle.backgroundOpacity)}
+        options={options.opacity}
+        onChange={(v) => onChange({ backgroundOpacity: Number(v) })}
+      />
+      <Row
+        label={messages.window}
+        value={captionStyle.windowColor}
+        options={options.color}
+        onChange={(v) => onChange({ windowColor: v })}
+      />
+      <Row
+        label={messages.windowOpacity}
+        value={String(captionStyle.windowOpacity)}
+        options={options.opacity}
+        onChange={(v) => onChange({ windowOpacity: Number(v) })}
+      />
+      {onReset && (
+        <button onClick={onReset} className="settingsOption captionStyleReset">
+          {messages.resetCaptionStyle}
+        </button>
+      )}
+    </div>
+  );
+});
+
+CaptionStylePanel.displayName = "CaptionStylePanel";
+export default CaptionStylePanel;
@@ -1,82 +1,174 @@
 "use client";
 
 import { memo } from "react";
+import { DEFAULT_MESSAGES, type PlayerMessages } from "../../lib/i18n";
+import { useOptionalPlayer, useOptionalPlayerState } from "../PlayerContext";
 
-export interface PlayButtonProps { onClick: () => void; }
-export interface PauseButtonProps { onClick: () => void; }
-export interface FullscreenButtonProps { onClick: () => void; isFullscreen?: boolean; }
-export interface PiPButtonProps { onClick: () => void; isPiP?: boolean; }
+/*
+ * Inside a VideoPlayer or PlayerProvider every prop is optional: the
+ * action, the toggled state and the messages come from the player.
+ */
 
-export const PlayButton = memo<PlayButtonProps>(({ onClick }) => (
-  <button onClick={onClick} className="controlButton" aria-label="Play" title="Play (Space)">
-    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-      <path d="M8 5v14l11-7z" />
-    </svg>
-  </button>
-));
+export interface PlayButtonProps { onClick?: () => void; messages?: PlayerMessages; }
+export interface PauseButtonProps { onClick?: () => void; messages?: PlayerMessages; }
+export interface FullscreenButtonProps { onClick?: () => void; isFullscreen?: boolean; messages?: PlayerMessages; }
+export interface PiPButtonProps { onClick?: () => void; isPiP?: boolean; messages?: PlayerMessages; }
+
+export const PlayButton = memo<PlayButtonProps>(({ onClick, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  return (
+    <button
+      onClick={onClick ?? context?.player.play}
+      className="controlButton"
+      aria-label={m.play}
+      title={`${m.play} (Space)`}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M8 5v14l11-7z" />
+      </svg>
+    </button>
+  );
+});
 PlayButton.displayName = "PlayButton";
 
-export const PauseButton = memo<PauseButtonProps>(({ onClick }) => (
-  <button onClick={onClick} className="controlButton" aria-label="Pause" title="Pause (Space)">
-    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-      <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
-    </svg>
-  </button>
-));
+export const PauseButton = memo<PauseButtonProps>(({ onClick, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  return (
+    <button
+      onClick={onClick ?? context?.player.pause}
+      className="controlButton"
+      aria-label={m.pause}
+      title={`${m.pause} (Space)`}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M6 4h4v16H6V4zm8 0h4v16h-4V4z" />
+      </svg>
+    </button>
+  );
+});
 PauseButton.displayName = "PauseButton";
 
-export const FullscreenButton = memo<FullscreenButtonProps>(({ onClick, isFullscreen = false }) => (
-  <button
-    onClick={onClick}
-    className="controlButton"
-    aria-label={isFullscreen ? "Exit Fullscreen" : "Fullscreen"}
-    title={isFullscreen ? "Exit Fullscreen (F)" : "Fullscreen (F)"}
-  >
-    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-      {isFullscreen ? (
-        <path d="M5 16h3v3h2v-5H5v2zm3-8H5v2h5V5H8v3zm6 11h2v-3h3v-2h-5v5zm2-11V5h-2v5h5V8h-3z" />
-      ) : (
-        <path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z" />
-      )}
-    </svg>
-  </button>
-));
+export const FullscreenButton = memo<FullscreenButtonProps>(({ onClick, isFullscreen, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  const playerFullscreen = useOptionalPlayerState((s) => s.isFullscreen);
+  const active = isFullscreen ?? playerFullscreen ?? false;
+  return (
+    <button
+      onClick={onClick ?? context?.player.toggleFullscreen}
+      className="controlButton"
+      aria-label={active ? m.exitFullscreen : m.fullscreen}
+      title={`${active ? m.exitFullscreen : m.fullscreen} (F)`}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        {active ? (
+          <path d="M5 16h3v3h2v-5H5v2zm3-8H5v2h5V5H8v3zm6 11h2v-3h3v-2h-5v5zm2-11V5h-2v5h5V8h-3z" />
+        ) : (
+          <path d="M7 14H5v5h5v-2H7v-3zm-2-4h2V7h3V5H5v5zm12 7h-3v2h5v-5h-2v3zM14 5v2h3v3h2V5h-5z" />
+        )}
+      </svg>
+    </button>
+  );
+});
 FullscreenButton.displayName = "FullscreenButton";
 
-export const PiPButton = memo<PiPButtonProps>(({ onClick, isPiP = false }) => (
-  <button
-    onClick={onClick}
-    className="controlButton"
-    aria-label={isPiP ? "Exit Picture-in-Picture" : "Picture-in-Picture"}
-    title={isPiP ? "Exit Picture-in-Picture (P)" : "Picture-in-Picture (P)"}
-  >
-    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-      <path d="M19 11h-8v6h8v-6zm4 8V4.98C23 3.88 22.1 3 21 3H3c-1.1 0-2 .88-2 1.98V19c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2zm-2 .02H3V5h18v14.02z" />
-    </svg>
-  </button>
-));
+export const PiPButton = memo<PiPButtonProps>(({ onClick, isPiP, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  const playerPiP = useOptionalPlayerState((s) => s.isPictureInPicture);
+  const active = isPiP ?? playerPiP ?? false;
+  return (
+    <button
+      onClick={onClick ?? context?.player.togglePictureInPicture}
+      className="controlButton"
+      aria-label={active ? m.exitPictureInPicture : m.pictureInPicture}
+      title={`${active ? m.exitPictureInPicture : m.pictureInPicture} (P)`}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M19 11h-8v6h8v-6zm4 8V4.98C23 3.88 22.1 3 21 3H3c-1.1 0-2 .88-2 1.98V19c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2zm-2 .02H3V5h18v14.02z" />
+      </svg>
+    </button>
+  );
+});
 PiPButton.displayName = "PiPButton";
 
-export interface TheaterButtonProps { onClick: () => void; isTheater?: boolean; }
+export interface TheaterButtonProps { onClick?: () => void; isTheater?: boolean; messages?: PlayerMessages; }
 
-export const TheaterButton = memo<TheaterButtonProps>(({ onClick, isTheater = false }) => (
-  <button
-    onClick={onClick}
-    className="controlButton"
-    aria-label={isTheater ? "Exit Theater Mode" : "Theater Mode"}
-    title={isTheater ? "Exit Theater Mode (T)" : "Theater Mode (T)"}
-  >
-    <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
-      {isTheater ? (
-        /* Exit theater: narrower inner rectangle — signals "shrink back" */
-        <path d="M19 7H5c-1.1 0-2 .9-2 2v6c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V9c0-1.1-.9-2-2-2zm0 8H5V9h14v6z" />
-      ) : (
-        /* Enter theater: full-width rectangle — signals "expand wide" */
-        <path d="M21 3H3c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H3V5h18v14z" />
-      )}
-    </svg>
-  </button>
-));
+export const TheaterButton = memo<TheaterButtonProps>(({ onClick, isTheater, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  const playerTheater = useOptionalPlayerState((s) => s.isTheaterMode);
+  const active = isTheater ?? playerTheater ?? false;
+  return (
+    <button
+      onClick={onClick ?? context?.player.toggleTheaterMode}
+      className="controlButton"
+      aria-label={active ? m.exitTheaterMode : m.theaterMode}
+      title={`${active ? m.exitTheaterMode : m.theaterMode} (T)`}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        {active ? (
+          /* Exit theater: narrower inner rectangle — signals "shrink back" */
+          <path d="M19 7H5c-1.1 0-2 .9-2 2v6c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V9c0-1.1-.9-2-2-2zm0 8H5V9h14v6z" />
+        ) : (
+          /* Enter theater: full-width rectangle — signals "expand wide" */
+          <path d="M21 3H3c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h18c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H3V5h18v14z" />
+        )}
+      </svg>
+    </button>
+  );
+});
 TheaterButton.displayName = "TheaterButton";
 
-export default { PlayButton, PauseButton, FullscreenButton, PiPButton, TheaterButton };
+export interface PreviousButtonProps { onClick?: () => void; disabled?: boolean; messages?: PlayerMessages; }
+export interface NextButtonProps { onClick?: () => void; disabled?: boolean; messages?: PlayerMessages; }
+
+export const PreviousButton = memo<PreviousButtonProps>(({ onClick, disabled = false, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  return (
+    <button
+      onClick={onClick ?? context?.player.previous}
+      className="controlButton"
+      aria-label={m.previous}
+      title={`${m.previous} (Shift+P)`}
+      disabled={disabled}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M6 6h2v12H6zm3.5 6 8.5 6V6z" />
+      </svg>
+    </button>
+  );
+});
+PreviousButton.displayName = "PreviousButton";
+
+export const NextButton = memo<NextButtonProps>(({ onClick, disabled = false, messages }) => {
+  const context = useOptionalPlayer();
+  const m = messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  return (
+    <button
+      onClick={onClick ?? context?.player.next}
+      className="controlButton"
+      aria-label={m.next}
+      title={`${m.next} (Shift+N)`}
+      disabled={disabled}
+    >
+      <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+        <path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z" />
+      </svg>
+    </button>
+  );
+});
+NextButton.displayName = "NextButton";
+
+export default {
+  PlayButton,
+  PauseButton,
+  FullscreenButton,
+  PiPButton,
+  TheaterButton,
+  PreviousButton,
+  NextButton,
+};
@@ -4,11 +4,14 @@ import {
   FullscreenButton,
   PiPButton,
   TheaterButton,
+  PreviousButton,
+  NextButton,
 } from "./control-buttons";
 import VolumeControl from "./volume-control";
 import ProgressBar from "./progress-bar";
 import SettingsMenu from "./settings-menu";
 import TimeDisplay from "./time-display";
+import CaptionStylePanel from "./caption-style-panel";
 
 export type {
   PlayButtonProps,
@@ -16,12 +19,15 @@ export type {
   FullscreenButtonProps,
   PiPButtonProps,
   TheaterButtonProps,
+  PreviousButtonProps,
+  NextButtonProps,
 } from "./control-buttons";
 
 export type { VolumeControlProps } from "./volume-control";
 export type { ProgressBarProps } from "./progress-bar";
 export type { SettingsMenuProps } from "./settings-menu";
 export type { TimeDisplayProps } from "./time-display";
+export type { CaptionStylePanelProps } from "./caption-style-panel";
 
 export {
   PlayButton,
@@ -29,12 +35,15 @@ export {
   FullscreenButton,
   PiPButton,
   TheaterButton,
+  PreviousButton,
+  NextButton,
 } from "./control-buttons";
 
 export { default as VolumeControl } from "./volume-control";
 export { default as ProgressBar } from "./progress-bar";
 export { default as SettingsMenu } from "./settings-menu";
 export { default as TimeDisplay } from "./time-display";
+export { default as CaptionStylePanel } from "./caption-style-panel";
 
 export const ControlElements = {
   PlayButton,
@@ -42,8 +51,11 @@ export const ControlElements = {
   FullscreenButton,
   PiPButton,
   TheaterButton,
+  PreviousButton,
+  NextButton,
   VolumeControl,
   ProgressBar,
   SettingsMenu,
   TimeDisplay,
+  CaptionStylePanel,
 };
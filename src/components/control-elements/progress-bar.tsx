@@ -1,36 +1,96 @@
 "use client";
 
-import React, { memo, useRef, useState, useEffect, useCallback, useMemo } from "react";
-import type { VideoPlayerRef, BufferedRange } from "../../lib/types";
+import React, { memo, useRef, useEffect, useCallback, useMemo } from "react";
+import type { Chapter, LiveWindow, PlayerState } from "../../lib/types";
 import { formatTime } from "../../lib/format";
-import { parseThumbnailVtt, findThumbnailCue } from "../../lib/vtt";
+import { formatLivePosition } from "../../lib/live";
+import type { PlayerMessages } from "../../lib/i18n";
+import { parseThumbnailVtt, findThumbnailCue, findChapterIndex } from "../../lib/vtt";
 import type { ThumbnailCue } from "../../lib/vtt";
-
+import { useStoreState } from "../../hooks/useStoreState";
+import { usePlayerContext } from "../PlayerContext";
+
+/**
+ * Needs an enclosing VideoPlayer or PlayerProvider: position, duration and
+ * buffered ranges come from its store. Chapters and locale come from the
+ * player unless given.
+ */
 export interface ProgressBarProps {
-  videoRef: React.RefObject<HTMLVideoElement | null>;
-  playerRef: VideoPlayerRef;
   enablePreview?: boolean;
   thumbnailVtt?: string;
+  /** Splits the track into gapped segments and labels the hover tooltip */
+  chapters?: Required<Chapter>[];
+  /** Mid-roll ad positions in seconds, drawn as markers on the track */
+  adBreaks?: number[];
+  messages?: PlayerMessages;
+  /** Numerals of the time tooltip; the track direction follows the surrounding `dir` */
+  locale?: string;
+}
+
+/** Width in px of the cut between two chapter segments */
+const CHAPTER_GAP_PX = 2;
+
+/**
+ * Build a mask that cuts a transparent gap into the track at every chapter
+ * boundary. Masking the whole track (rather than rendering one element per
+ * segment) keeps the buffered and played fills as single elements.
+ */
+function buildChapterMask(chapters: Required<Chapter>[], duration: number): string | undefined {
+  if (chapters.length < 2 || duration <= 0) return undefined;
+  const half = CHAPTER_GAP_PX / 2;
+  const stops: string[] = [];
+  for (let i = 1; i < chapters.length; i++) {
+    const pct = (chapters[i].start / duration) * 100;
+    if (pct <= 0 || pct >= 100) continue;
+    stops.push(
+      `#000 calc(${pct}% - ${half}px)`,
+      `transparent calc(${pct}% - ${half}px)`,
+      `transparent calc(${pct}% + ${half}px)`,
+      `#000 calc(${pct}% + ${half}px)`,
+    );
+  }
+  if (!stops.length) return undefined;
+  return `linear-gradient(to right, #000 0%, ${stops.join(", ")}, #000 100%)`;
 }
 
+const EMPTY_AD_BREAKS: number[] = [];
+
+const selectDuration = (state: PlayerState) => state.duration;
+const selectBufferedRanges = (state: PlayerState) => state.bufferedRanges;
+const selectChapters = (state: PlayerState) => state.chapters;
+
 const ProgressBar: React.FC<ProgressBarProps> = memo(({
-  videoRef,
-  playerRef,
   enablePreview = true,
   thumbnailVtt,
+  chapters: chaptersProp,
+  adBreaks = EMPTY_AD_BREAKS,
+  messages: messagesProp,
+  locale: localeProp,
 }) => {
+  const {
+    store,
+    player: playerRef,
+    videoRef,
+    messages: playerMessages,
+    locale: playerLocale,
+  } = usePlayerContext("ProgressBar");
+  const playerChapters = useStoreState(store, selectChapters);
+  // Both change rarely: on load and every few seconds while buffering
+  const duration = useStoreState(store, selectDuration);
+  const bufferedRanges = useStoreState(store, selectBufferedRanges);
+  const chapters = chaptersProp ?? playerChapters;
+  const messages = messagesProp ?? playerMessages;
+  const locale = localeProp ?? playerLocale;
+
   const containerRef = useRef<HTMLDivElement>(null);
   const progressFilledRef = useRef<HTMLDivElement>(null);
   const scrubHandleRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
   const hoverTimeTextRef = useRef<HTMLDivElement>(null);
+  const hoverChapterTextRef = useRef<HTMLDivElement>(null);
   const hoverIndicatorRef = useRef<HTMLDivElement>(null);
   const thumbRef = useRef<HTMLDivElement>(null);
 
-  // Only bufferedRanges stays in React state — it changes on the `progress`
-  // event which fires infrequently (every few seconds during buffering).
-  const [bufferedRanges, setBufferedRanges] = useState<BufferedRange[]>([]);
-
   // Imperative state — no React re-renders for any of these
   const isDraggingRef = useRef(false);
   const hoverPosRef = useRef(0);
@@ -40,10 +100,22 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
   // VTT thumbnail cues — loaded once, looked up synchronously
   const thumbnailCuesRef = useRef<ThumbnailCue[]>([]);
 
+  const chaptersRef = useRef(chapters);
+  chaptersRef.current = chapters;
+
+  // Read by the imperative time updates, which don't re-subscribe on change
+  const i18nRef = useRef({ messages, locale });
+  i18nRef.current = { messages, locale };
+
+  const chapterMask = useMemo(() => buildChapterMask(chapters, duration), [chapters, duration]);
+
   /**
    * Rect cache — getBoundingClientRect() is expensive; invalidate on resize only.
+   * The computed direction is cached with it: in RTL, time runs from the
+   * right edge.
    */
   const rectCacheRef = useRef<DOMRect | null>(null);
+  const isRtlRef = useRef(false);
 
   useEffect(() => {
     const invalidate = () => { rectCacheRef.current = null; };
@@ -51,9 +123,13 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
     return () => window.removeEventListener("resize", invalidate);
   }, []);
 
+  // A new locale may flip the direction
+  useEffect(() => { rectCacheRef.current = null; }, [locale]);
+
   const getRect = useCallback((): DOMRect | null => {
     if (!rectCacheRef.current && containerRef.current) {
       rectCacheRef.current = containerRef.current.getBoundingClientRect();
+      isRtlRef.current = getComputedStyle(containerRef.current).direction === "rtl";
     }
     return rectCacheRef.current;
   }, []);
@@ -76,57 +152,57 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
     return () => { cancelled = true; };
   }, [thumbnailVtt]);
 
-  // ─── Subscribe to timeupdate / durationchange ────────────────────────────
+  /**
+   * The span the track represents: [0, duration] for VOD, the DVR window for
+   * live streams. Read per event, since a live window slides constantly.
+   */
+  const getRange = useCallback((): { start: number; end: number; live: LiveWindow | null } => {
+    const live = playerRef.getLiveWindow();
+    if (live) return { start: live.start, end: live.end, live };
+    return { start: 0, end: store.getState().duration, live: null };
+  }, [playerRef, store]);
+
+  // ─── Subscribe to the store's position ───────────────────────────────────
   // Updates the progress fill and scrub handle position imperatively —
   // zero React re-renders during playback.
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    let last: PlayerState | null = null;
 
     const updateProgress = () => {
-      const dur = isFinite(video.duration) ? video.duration : 0;
-      const ct = video.currentTime;
-      const pct = dur > 0 ? (ct / dur) * 100 : 0;
+      const state = store.getState();
+      // A live window keeps sliding while paused; segment loads (buffered ranges) move it
+      if (
+        last &&
+        last.currentTime === state.currentTime &&
+        last.duration === state.duration &&
+        last.bufferedRanges === state.bufferedRanges
+      ) return;
+      last = state;
+
+      const { start, end, live } = getRange();
+      const span = end - start;
+      const ct = state.currentTime;
+      const pct = span > 0 ? Math.min(100, Math.max(0, ((ct - start) / span) * 100)) : 0;
 
       if (progressFilledRef.current)
         progressFilledRef.current.style.width = `${pct}%`;
       if (scrubHandleRef.current)
-        scrubHandleRef.current.style.left = `${pct}%`;
+        scrubHandleRef.current.style.insetInlineStart = `${pct}%`;
       if (containerRef.current) {
+        const { messages: m, locale: l } = i18nRef.current;
+        containerRef.current.setAttribute("aria-valuemin", String(Math.round(start)));
         containerRef.current.setAttribute("aria-valuenow", String(Math.round(ct)));
-        containerRef.current.setAttribute("aria-valuemax", String(Math.round(dur)));
-        containerRef.current.setAttribute("aria-valuetext", formatTime(ct));
+        containerRef.current.setAttribute("aria-valuemax", String(Math.round(end)));
+        containerRef.current.setAttribute(
+          "aria-valuetext",
+          live ? formatLivePosition(live, ct, m.livePosition, l) : formatTime(ct, l),
+        );
       }
     };
 
-    video.addEventListener("timeupdate", updateProgress);
-    video.addEventListener("durationchange", updateProgress);
-    video.addEventListener("seeked", updateProgress);
     updateProgress(); // sync on mount
-
-    return () => {
-      video.removeEventListener("timeupdate", updateProgress);
-      video.removeEventListener("durationchange", updateProgress);
-      video.removeEventListener("seeked", updateProgress);
-    };
-  }, [videoRef]);
-
-  // ─── Subscribe to progress (buffered ranges) ────────────────────────────
-  useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
-
-    const updateBuffered = () => {
-      const ranges: BufferedRange[] = [];
-      for (let i = 0; i < video.buffered.length; i++) {
-        ranges.push({ start: video.buffered.start(i), end: video.buffered.end(i) });
-      }
-      setBufferedRanges(ranges);
-    };
-
-    video.addEventListener("progress", updateBuffered);
-    return () => video.removeEventListener("progress", updateBuffered);
-  }, [videoRef]);
+    return store.subscribe(updateProgress);
+  }, [store, getRange]);
 
   // ─── Non-React drag-state helpers ────────────────────────────────────────
   const startDragging = useCallback(() => {
@@ -166,26 +242,28 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
   }, []);
 
   // ─── Geometry helpers ────────────────────────────────────────────────────
-  const getTimeFromClientX = useCallback((clientX: number): number => {
-    const rect = getRect();
-    const dur = videoRef.current?.duration;
-    if (!rect || rect.width === 0 || !dur || !isFinite(dur)) return 0;
-    const pos = Math.max(0, Math.min(clientX - rect.left, rect.width));
-    return (pos / rect.width) * dur;
-  }, [getRect, videoRef]);
-
+  /** Distance from the inline start edge: the left one, or the right in RTL */
   const getPxFromClientX = useCallback((clientX: number): number => {
     const rect = getRect();
     if (!rect) return 0;
-    return Math.max(0, Math.min(clientX - rect.left, rect.width));
+    const offset = isRtlRef.current ? rect.right - clientX : clientX - rect.left;
+    return Math.max(0, Math.min(offset, rect.width));
   }, [getRect]);
 
+  const getTimeFromClientX = useCallback((clientX: number): number => {
+    const rect = getRect();
+    const { start, end } = getRange();
+    if (!rect || rect.width === 0 || end <= start) return start;
+    return start + (getPxFromClientX(clientX) / rect.width) * (end - start);
+  }, [getRect, getRange, getPxFromClientX]);
+
   // ─── Keyboard handler ────────────────────────────────────────────────────
+  // Steps from the element's own position: the store's lags by up to a throttle interval
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
     const video = videoRef.current;
     if (!video) return;
     const ct = video.currentTime;
-    const dur = isFinite(video.duration) ? video.duration : 0;
+    const { start, end, live } = getRange();
 
     switch (e.key) {
       case "ArrowLeft":
@@ -193,25 +271,32 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
         e.preventDefault();
         e.nativeEvent.stopImmediatePropagation();
         const step = e.shiftKey ? 10 : 5;
-        playerRef.seek(e.key === "ArrowLeft"
-          ? Math.max(0, ct - step)
-          : Math.min(dur, ct + step));
+        getRect();
+        // Arrows follow the mirrored track in RTL
+        const back = (e.key === "ArrowLeft") !== isRtlRef.current;
+        playerRef.seek(back
+          ? Math.max(start, ct - step)
+          : Math.min(end, ct + step));
         break;
       }
       case "Home":
         e.preventDefault();
         e.nativeEvent.stopImmediatePropagation();
-        playerRef.seek(0);
+        playerRef.seek(start);
         break;
       case "End":
-        if (dur > 0) {
+        if (live) {
+          e.preventDefault();
+          e.nativeEvent.stopImmediatePropagation();
+          playerRef.seekToLive();
+        } else if (end > 0) {
           e.preventDefault();
           e.nativeEvent.stopImmediatePropagation();
-          playerRef.seek(dur);
+          playerRef.seek(end);
         }
         break;
     }
-  }, [videoRef, playerRef]);
+  }, [videoRef, playerRef, getRange, getRect]);
 
   // ─── Mouse handlers ───────────────────────────────────────────────────────
   const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
@@ -222,8 +307,19 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
     hoverTimeRef.current = time;
 
     if (hoverIndicatorRef.current) hoverIndicatorRef.current.style.left = `${px}px`;
-    if (hoverTimeTextRef.current) hoverTimeTextRef.current.textContent = formatTime(time);
-
+    if (hoverTimeTextRef.current) {
+      const live = playerRef.getLiveWindow();
+      const { messages: m, locale: l } = i18nRef.current;
+      hoverTimeTextRef.current.textContent = live
+        ? formatLivePosition(live, time, m.livePosition, l)
+        : formatTime(time, l);
+    }
+    if (hoverChapterTextRef.current) {
+      const list = chaptersRef.current;
+      const idx = list.length ? findChapterIndex(list, time) : -1;
+      hoverChapterTextRef.current.textContent = idx === -1 ? "" : list[idx].title;
+      hoverChapterTextRef.current.style.display = idx === -1 ? "none" : "block";
+    }
 
     applyThumbnail(time);
 
@@ -232,7 +328,7 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
       const containerWidth = getRect()?.width ?? 0;
       const halfWidth = tooltipWidth / 2;
       const clampedLeft = Math.max(halfWidth, Math.min(px, containerWidth - halfWidth));
-      tooltipRef.current.style.left = `${clampedLeft}px`;
+      tooltipRef.current.style.insetInlineStart = `${clampedLeft}px`;
     }
 
     if (isDraggingRef.current) playerRef.seek(time);
@@ -290,14 +386,14 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
     return () => window.removeEventListener("mouseup", up);
   }, [stopDragging]);
 
-  // ─── Buffered segments (memoised — only re-renders on progress event) ────
+  // ─── Buffered segments (memoised — only re-renders when the ranges change) ─
   const bufferedSegments = useMemo(() => {
-    const video = videoRef.current;
-    const dur = video && isFinite(video.duration) ? video.duration : 0;
-    if (dur <= 0 || !bufferedRanges.length) return null;
+    const { start: from, end: to } = getRange();
+    const span = to - from;
+    if (span <= 0 || !bufferedRanges.length) return null;
     return bufferedRanges.map((range, i) => {
-      const start = (range.start / dur) * 100;
-      const width = ((range.end - range.start) / dur) * 100;
+      const start = Math.max(0, ((range.start - from) / span) * 100);
+      const width = Math.max(0, Math.min(100, ((range.end - from) / span) * 100) - start);
       return (
         <div
           key={i}
@@ -306,7 +402,7 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
         />
       );
     });
-  }, [bufferedRanges, videoRef]);
+  }, [bufferedRanges, getRange]);
 
   return (
     <div
@@ -323,7 +419,7 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
       onTouchEnd={handleTouchEnd}
       onKeyDown={handleKeyDown}
       role="slider"
-      aria-label="Video progress"
+      aria-label={messages.progress}
       aria-valuemin={0}
       aria-valuemax={0}
       aria-valuenow={0}
@@ -335,18 +431,24 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
         <div
           ref={tooltipRef}
           className="previewTooltip"
-          style={{ left: 0, display: "none" }}
+          style={{ insetInlineStart: 0, display: "none" }}
           aria-hidden="true"
         >
           {thumbnailVtt && (
             <div ref={thumbRef} className="previewThumbnail" />
           )}
+          {chapters.length > 0 && (
+            <div ref={hoverChapterTextRef} className="previewChapter" style={{ display: "none" }} />
+          )}
           <div ref={hoverTimeTextRef} className="previewTime" />
         </div>
       )}
 
       {/* Track */}
-      <div className="progressBackground">
+      <div
+        className="progressBackground"
+        style={chapterMask ? { maskImage: chapterMask, WebkitMaskImage: chapterMask } : undefined}
+      >
         {bufferedSegments}
         <div ref={progressFilledRef} className="progressFilled" style={{ width: "0%" }} />
         {enablePreview && (
@@ -359,11 +461,21 @@ const ProgressBar: React.FC<ProgressBarProps> = memo(({
         )}
       </div>
 
+      {/* Ad markers — outside the track so the chapter mask can't cut them */}
+      {duration > 0 && adBreaks.map((time, i) => (
+        <div
+          key={i}
+          className="adMarker"
+          style={{ insetInlineStart: `${(time / duration) * 100}%` }}
+          aria-hidden="true"
+        />
+      ))}
+
       {/* Scrub handle — class toggled imperatively for dragging state */}
       <div
         ref={scrubHandleRef}
         className="scrubHandle"
-        style={{ left: "0%" }}
+        style={{ insetInlineStart: "0%" }}
         aria-hidden="true"
       />
     </div>
@@ -1,32 +1,107 @@
 "use client";
 
 import { memo, useState, useRef, useEffect, useMemo } from "react";
-import type { PlaybackRate, HLSQualityLevel } from "../../lib/types";
+import type {
+  PlayerState,
+  PlaybackRate,
+  HLSQualityLevel,
+  SubtitleTrack,
+  AudioTrack,
+  CaptionStyle,
+} from "../../lib/types";
+import CaptionStylePanel from "./caption-style-panel";
+import { DEFAULT_MESSAGES, formatMessage, type PlayerMessages } from "../../lib/i18n";
+import { useOptionalPlayer, useOptionalPlayerState, missingPlayer } from "../PlayerContext";
+import { shallowEqual } from "../../lib/store";
 
+/**
+ * Inside a VideoPlayer or PlayerProvider, each tab defaults to the player's
+ * own rates, levels, tracks and caption style.
+ */
 export interface SettingsMenuProps {
-  currentRate: number;
-  playbackRates: PlaybackRate[];
-  onRateChange: (rate: PlaybackRate) => void;
+  currentRate?: number;
+  playbackRates?: PlaybackRate[];
+  onRateChange?: (rate: PlaybackRate) => void;
   qualityLevels?: HLSQualityLevel[];
   currentQualityLevel?: number;
   onQualityChange?: (level: number) => void;
+  subtitleTracks?: SubtitleTrack[];
+  activeSubtitleTrack?: string | null;
+  onSubtitleTrackChange?: (id: string | null) => void;
+  audioTracks?: AudioTrack[];
+  currentAudioTrack?: number;
+  onAudioTrackChange?: (id: number) => void;
+  captionStyle?: CaptionStyle;
+  onCaptionStyleChange?: (patch: Partial<CaptionStyle>) => void;
+  onCaptionStyleReset?: () => void;
+  messages?: PlayerMessages;
+  /** Formats rates and bitrates */
+  locale?: string;
 }
 
-type Tab = "speed" | "quality";
+type Tab = "speed" | "quality" | "subtitles" | "captionStyle" | "audio";
+
+function createNumberFormat(locale: string | undefined, options: Intl.NumberFormatOptions) {
+  try {
+    return new Intl.NumberFormat(locale, options);
+  } catch {
+    return new Intl.NumberFormat(undefined, options);
+  }
+}
+
+const EMPTY_LIST: never[] = [];
+
+/** Everything the tabs show; the menu re-renders when any of it changes */
+const selectMenuState = (s: PlayerState) => ({
+  playbackRate: s.playbackRate,
+  qualityLevels: s.qualityLevels,
+  currentQualityLevel: s.currentQualityLevel,
+  subtitleTracks: s.subtitleTracks,
+  activeSubtitleTrack: s.activeSubtitleTrack,
+  audioTracks: s.audioTracks,
+  currentAudioTrack: s.currentAudioTrack,
+});
+
+const SettingsMenu = memo<SettingsMenuProps>((props) => {
+  const context = useOptionalPlayer();
+  const state = useOptionalPlayerState(selectMenuState, shallowEqual);
+  const player = context?.player;
+  const currentRate = props.currentRate ?? state?.playbackRate ?? missingPlayer("SettingsMenu");
+  const playbackRates = props.playbackRates ?? context?.playbackRates ?? missingPlayer("SettingsMenu");
+  const onRateChange = props.onRateChange ?? player?.setPlaybackRate;
+  const qualityLevels = props.qualityLevels ?? state?.qualityLevels ?? EMPTY_LIST;
+  const currentQualityLevel = props.currentQualityLevel ?? state?.currentQualityLevel ?? -1;
+  const onQualityChange = props.onQualityChange ?? player?.setQualityLevel;
+  const subtitleTracks = props.subtitleTracks ?? state?.subtitleTracks ?? EMPTY_LIST;
+  const activeSubtitleTrack = props.activeSubtitleTrack ?? state?.activeSubtitleTrack ?? null;
+  const onSubtitleTrackChange = props.onSubtitleTrackChange ?? player?.setSubtitleTrack;
+  const audioTracks = props.audioTracks ?? state?.audioTracks ?? EMPTY_LIST;
+  const currentAudioTrack = props.currentAudioTrack ?? state?.currentAudioTrack ?? -1;
+  const onAudioTrackChange = props.onAudioTrackChange ?? player?.setAudioTrack;
+  const captionStyle = props.captionStyle ?? context?.captionStyle;
+  const onCaptionStyleChange = props.onCaptionStyleChange ?? context?.setCaptionStyle;
+  const onCaptionStyleReset = props.onCaptionStyleReset ?? context?.resetCaptionStyle;
+  const messages = props.messages ?? context?.messages ?? DEFAULT_MESSAGES;
+  const locale = props.locale ?? context?.locale;
 
-const SettingsMenu = memo<SettingsMenuProps>(({
-  currentRate,
-  playbackRates,
-  onRateChange,
-  qualityLevels = [],
-  currentQualityLevel = -1,
-  onQualityChange,
-}) => {
   const [open, setOpen] = useState(false);
   const [tab, setTab] = useState<Tab>("speed");
   const containerRef = useRef<HTMLDivElement>(null);
 
   const hasQuality = qualityLevels.length > 0 && !!onQualityChange;
+  const hasSubtitles = subtitleTracks.length > 0 && !!onSubtitleTrackChange;
+  const hasCaptionStyle = hasSubtitles && !!captionStyle && !!onCaptionStyleChange;
+  // A single audio rendition leaves nothing to choose
+  const hasAudio = audioTracks.length > 1 && !!onAudioTrackChange;
+  const hasTabs = hasQuality || hasSubtitles || hasAudio;
+  // Fall back to Speed when the selected tab's options go away (source change)
+  const activeTab: Tab =
+    (tab === "quality" && !hasQuality) ||
+    (tab === "subtitles" && !hasSubtitles) ||
+    (tab === "captionStyle" && !hasCaptionStyle) ||
+    (tab === "audio" && !hasAudio)
+      ? "speed"
+      : tab;
 
   // Close when clicking outside
   useEffect(() => {
@@ -47,18 +122,18 @@ const SettingsMenu = memo<SettingsMenuProps>(({
     [qualityLevels],
   );
 
-  const currentQualityName = useMemo(() => {
-    if (currentQualityLevel === -1) return "Auto";
-    return qualityLevels.find((l) => l.id === currentQualityLevel)?.name ?? "Auto";
-  }, [qualityLevels, currentQualityLevel]);
+  const numberFormat = useMemo(
+    () => createNumberFormat(locale, { maximumFractionDigits: 2 }),
+    [locale],
+  );
 
   return (
     <div ref={containerRef} className="settingsContainer">
       <button
         onClick={() => setOpen((o) => !o)}
         className="controlButton"
-        aria-label="Settings"
-        title="Settings"
+        aria-label={messages.settings}
+        title={messages.settings}
         aria-expanded={open}
       >
         <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
@@ -68,41 +143,59 @@ const SettingsMenu = memo<SettingsMenuProps>(({
 
       {open && (
         <div className="settingsDropdown" role="menu">
-          {hasQuality && (
+          {hasTabs && (
             <div className="settingsTabs">
               <button
-                className={`settingsTab${tab === "speed" ? " active" : ""}`}
+                className={`settingsTab${activeTab === "speed" ? " active" : ""}`}
                 onClick={() => setTab("speed")}
               >
-                Speed
-              </button>
-              <button
-                className={`settingsTab${tab === "quality" ? " active" : ""}`}
-                onClick={() => setTab("quality")}
-              >
-                Quality
+                {messages.speed}
               </button>
+              {hasQuality && (
+                <button
+                  className={`settingsTab${activeTab === "quality" ? " active" : ""}`}
+                  onClick={() => setTab("quality")}
+                >
+                  {messages.quality}
+                </button>
+              )}
+              {hasSubtitles && (
+                <button
+                  className={`settingsTab${activeTab === "subtitles" || activeTab === "captionStyle" ? " active" : ""}`}
+                  onClick={() => setTab("subtitles")}
+                >
+                  {messages.subtitles}
+                </button>
+              )}
+              {hasAudio && (
+                <button
+                  className={`settingsTab${activeTab === "audio" ? " active" : ""}`}
+                  onClick={() => setTab("audio")}
+                >
+                  {messages.audio}
+                </button>
+              )}
             </div>
           )}
 
-          {(!hasQuality || tab === "speed") && (
+          {(!hasTabs || activeTab === "speed") && (
             <div>
-              {!hasQuality && <div className="settingsPanelLabel">Playback Speed</div>}
+              {!hasTabs && <div className="settingsPanelLabel">{messages.playbackSpeed}</div>}
               {playbackRates.map((rate) => (
                 <button
                   key={rate}
-                  onClick={() => { onRateChange(rate); setOpen(false); }}
+                  onClick={() => { onRateChange?.(rate); setOpen(false); }}
                   className={`settingsOption${currentRate === rate ? " active" : ""}`}
                   role="menuitemradio"
                   aria-checked={currentRate === rate}
                 >
-                  {rate === 1 ? "Normal" : `${rate}×`}
+                  {rate === 1 ? messages.normalSpeed : `${numberFormat.format(rate)}×`}
                 </button>
               ))}
             </div>
           )}
 
-          {hasQuality && tab === "quality" && (
+          {hasQuality && activeTab === "quality" && (
             <div>
               <button
                 onClick={() => { onQualityChange!(-1); setOpen(false); }}
@@ -110,9 +203,7 @@ const SettingsMenu = memo<SettingsMenuProps>(({
                 role="menuitemradio"
                 aria-checked={currentQualityLevel === -1}
               >
-                Auto {currentQualityLevel === -1 && currentQualityName !== "Auto"
-                  ? `(${currentQualityName})`
-                  : ""}
+                {messages.auto}
               </button>
               {sortedLevels.map((level) => (
                 <button
@@ -125,13 +216,77 @@ const SettingsMenu = memo<SettingsMenuProps>(({
                   {level.name}
                   {level.bitrate > 0 && (
                     <span className="settingsOptionBadge">
-                      {Math.round(level.bitrate / 1000)} kbps
+                      {formatMessage(messages.bitrate, {
+                        kbps: numberFormat.format(Math.round(level.bitrate / 1000)),
+                      })}
                     </span>
                   )}
                 </button>
               ))}
             </div>
           )}
+
+          {hasSubtitles && activeTab === "subtitles" && (
+            <div>
+              <button
+                onClick={() => { onSubtitleTrackChange!(null); setOpen(false); }}
+                className={`settingsOption${activeSubtitleTrack === null ? " active" : ""}`}
+                role="menuitemradio"
+                aria-checked={activeSubtitleTrack === null}
+              >
+                {messages.subtitlesOff}
+              </button>
+              {subtitleTracks.map((track) => (
+                <button
+                  key={track.id}
+                  onClick={() => { onSubtitleTrackChange!(track.id); setOpen(false); }}
+                  className={`settingsOption${activeSubtitleTrack === track.id ? " active" : ""}`}
+                  role="menuitemradio"
+                  aria-checked={activeSubtitleTrack === track.id}
+                >
+                  {track.label}
+                  <span className="settingsOptionBadge">{track.srclang}</span>
+                </button>
+              ))}
+              {hasCaptionStyle && (
+                <button
+                  onClick={() => setTab("captionStyle")}
+                  className="settingsOption settingsOptionLink"
+                >
+                  {messages.captionStyle}
+                  <span className="settingsOptionBadge">›</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {hasCaptionStyle && activeTab === "captionStyle" && (
+            <CaptionStylePanel
+              captionStyle={captionStyle!}
+              onChange={onCaptionStyleChange!}
+              onReset={onCaptionStyleReset}
+              onBack={() => setTab("subtitles")}
+              messages={messages}
+              locale={locale}
+            />
+          )}
+
+          {hasAudio && activeTab === "audio" && (
+            <div>
+              {audioTracks.map((track) => (
+                <button
+                  key={track.id}
+                  onClick={() => { onAudioTrackChange!(track.id); setOpen(false); }}
+                  className={`settingsOption${currentAudioTrack === track.id ? " active" : ""}`}
+                  role="menuitemradio"
+                  aria-checked={currentAudioTrack === track.id}
+                >
+                  {track.name}
+                  {track.lang && <span className="settingsOptionBadge">{track.lang}</span>}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
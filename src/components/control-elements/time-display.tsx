@@ -1,64 +1,109 @@
 "use client";
 
 import { memo, useRef, useEffect } from "react";
-import { formatTime } from "../../lib/format";
+import { formatTime, formatWallClock } from "../../lib/format";
+import { formatLivePosition } from "../../lib/live";
+import type { PlayerMessages } from "../../lib/i18n";
+import type { LiveWindow, PlayerState } from "../../lib/types";
+import { useStoreState } from "../../hooks/useStoreState";
+import { usePlayerContext } from "../PlayerContext";
 
+/**
+ * Needs an enclosing VideoPlayer or PlayerProvider: the position comes from
+ * its store. Live window, chapter and locale come from the player unless
+ * given; wall-clock mode stays opt-in.
+ */
 export interface TimeDisplayProps {
-  videoRef: React.RefObject<HTMLVideoElement | null>;
   isLive?: boolean;
+  /** Live streams show how far behind the edge the playhead is; pass `playerRef.getLiveWindow` */
+  getLiveWindow?: () => LiveWindow | null;
+  /**
+   * Wall-clock mode: show the time of day of the frame on screen, from the
+   * stream's program date time; pass `playerRef.getProgramDateTime`. Streams
+   * without one fall back to the media time.
+   */
+  getProgramDateTime?: () => Date | null;
+  /** Title of the chapter under the playhead, shown after the time */
+  chapterTitle?: string;
+  messages?: PlayerMessages;
+  /** Numerals and wall-clock format */
+  locale?: string;
 }
 
+const selectIsLive = (state: PlayerState) => state.isLive;
+const selectChapterTitle = (state: PlayerState) =>
+  state.chapters[state.currentChapterIndex]?.title;
+
 /**
- * TimeDisplay subscribes directly to the video element's timeupdate and
- * durationchange events, updating the DOM via refs. It never re-renders
- * during playback — only when isLive changes (once per source change).
+ * TimeDisplay subscribes to the player store's throttled position and
+ * duration, updating the DOM via refs. It never re-renders during
+ * playback — only when isLive, the chapter or the locale changes.
  */
-const TimeDisplay = memo<TimeDisplayProps>(({ videoRef, isLive = false }) => {
+const TimeDisplay = memo<TimeDisplayProps>(({
+  isLive: isLiveProp,
+  getLiveWindow: getLiveWindowProp,
+  getProgramDateTime,
+  chapterTitle: chapterTitleProp,
+  messages: messagesProp,
+  locale: localeProp,
+}) => {
+  const { store, player, messages: playerMessages, locale: playerLocale } = usePlayerContext("TimeDisplay");
+  const playerIsLive = useStoreState(store, selectIsLive);
+  const playerChapterTitle = useStoreState(store, selectChapterTitle);
+  const isLive = isLiveProp ?? playerIsLive;
+  const getLiveWindow = getLiveWindowProp ?? player.getLiveWindow;
+  const chapterTitle = chapterTitleProp ?? playerChapterTitle;
+  const messages = messagesProp ?? playerMessages;
+  const locale = localeProp ?? playerLocale;
+
   const currentRef  = useRef<HTMLSpanElement>(null);
   const durationRef = useRef<HTMLSpanElement>(null);
 
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video) return;
+    let last: PlayerState | null = null;
 
-    const updateTime = () => {
-      if (currentRef.current)
-        currentRef.current.textContent = formatTime(video.currentTime);
-    };
+    const update = () => {
+      const state = store.getState();
+      // Buffered ranges count too: paused live playback falls further behind as the window slides
+      if (
+        last &&
+        last.currentTime === state.currentTime &&
+        last.duration === state.duration &&
+        last.bufferedRanges === state.bufferedRanges
+      ) return;
+      last = state;
 
-    const updateDuration = () => {
+      if (currentRef.current) {
+        const date = getProgramDateTime?.();
+        const live = isLive && !date ? getLiveWindow?.() : null;
+        currentRef.current.textContent = date
+          ? formatWallClock(date, locale)
+          : live
+            ? formatLivePosition(live, state.currentTime, messages.livePosition, locale)
+            : formatTime(state.currentTime, locale);
+      }
       if (durationRef.current) {
-        const dur = isFinite(video.duration) ? video.duration : 0;
-        durationRef.current.textContent = ` / ${formatTime(dur)}`;
+        durationRef.current.textContent = ` / ${formatTime(state.duration, locale)}`;
       }
     };
 
-    video.addEventListener("timeupdate",     updateTime);
-    video.addEventListener("durationchange", updateDuration);
-    video.addEventListener("seeked",         updateTime);
-
-    updateTime();
-    updateDuration();
-
-    return () => {
-      video.removeEventListener("timeupdate",     updateTime);
-      video.removeEventListener("durationchange", updateDuration);
-      video.removeEventListener("seeked",         updateTime);
-    };
-  }, [videoRef, isLive]);
+    update();
+    return store.subscribe(update);
+  }, [store, isLive, getLiveWindow, getProgramDateTime, messages, locale]);
 
   if (isLive) {
     return (
       <span className="timeDisplay" style={{ opacity: 0.7 }}>
-        <span ref={currentRef}>0:00</span>
+        <span ref={currentRef}>{messages.livePosition}</span>
       </span>
     );
   }
 
   return (
     <span className="timeDisplay">
-      <span ref={currentRef}>0:00</span>
-      <span ref={durationRef} style={{ opacity: 0.6 }}> / 0:00</span>
+      <span ref={currentRef}>{formatTime(0, locale)}</span>
+      <span ref={durationRef} style={{ opacity: 0.6 }}> / {formatTime(0, locale)}</span>
+      {chapterTitle && <span className="timeDisplayChapter"> • {chapterTitle}</span>}
     </span>
   );
 });
@@ -1,30 +1,40 @@
 "use client";
 
-import { memo, useState, useMemo } from "react";
+import { memo, useState, type CSSProperties } from "react";
+import { DEFAULT_MESSAGES, type PlayerMessages } from "../../lib/i18n";
+import { useOptionalPlayer, useOptionalPlayerState, missingPlayer } from "../PlayerContext";
 
+/** Inside a VideoPlayer or PlayerProvider, everything defaults to the player's own volume */
 export interface VolumeControlProps {
-  volume: number;
-  isMuted: boolean;
-  onVolumeChange: (volume: number) => void;
-  onToggleMute: () => void;
+  volume?: number;
+  isMuted?: boolean;
+  onVolumeChange?: (volume: number) => void;
+  onToggleMute?: () => void;
+  messages?: PlayerMessages;
 }
 
-
 const VolumeControl = memo<VolumeControlProps>(({
-  volume,
-  isMuted,
-  onVolumeChange,
-  onToggleMute,
+  volume: volumeProp,
+  isMuted: isMutedProp,
+  onVolumeChange: onVolumeChangeProp,
+  onToggleMute: onToggleMuteProp,
+  messages: messagesProp,
 }) => {
+  const context = useOptionalPlayer();
+  const playerVolume = useOptionalPlayerState((s) => s.volume);
+  const playerMuted = useOptionalPlayerState((s) => s.isMuted);
+  const volume = volumeProp ?? playerVolume ?? missingPlayer("VolumeControl");
+  const isMuted = isMutedProp ?? playerMuted ?? false;
+  const onVolumeChange = onVolumeChangeProp ?? context?.player.setVolume;
+  const onToggleMute = onToggleMuteProp ?? context?.player.toggleMute;
+  const messages = messagesProp ?? context?.messages ?? DEFAULT_MESSAGES;
+
   const [showSlider, setShowSlider] = useState(false);
   const displayVolume = isMuted ? 0 : volume;
   const percentage = displayVolume * 100;
 
-  const sliderBackground = useMemo(
-    () =>
-      `linear-gradient(to right, #60a5fa 0%, #60a5fa ${percentage}%, rgba(255,255,255,0.3) ${percentage}%, rgba(255,255,255,0.3) 100%)`,
-    [percentage],
-  );
+  // The fill itself is drawn in CSS so it can run right-to-left in RTL layouts
+  const sliderStyle = { "--volume-pct": `${percentage}%` } as CSSProperties;
 
   return (
     <div
@@ -35,8 +45,8 @@ const VolumeControl = memo<VolumeControlProps>(({
       <button
         onClick={onToggleMute}
         className="controlButton"
-        aria-label={isMuted ? "Unmute" : "Mute"}
-        title={isMuted ? "Unmute (M)" : "Mute (M)"}
+        aria-label={isMuted ? messages.unmute : messages.mute}
+        title={`${isMuted ? messages.unmute : messages.mute} (M)`}
       >
         <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
           {displayVolume === 0 ? (
@@ -55,10 +65,10 @@ const VolumeControl = memo<VolumeControlProps>(({
           min="0"
           max="100"
           value={percentage}
-          onChange={(e) => onVolumeChange(Number(e.target.value) / 100)}
+          onChange={(e) => onVolumeChange?.(Number(e.target.value) / 100)}
           className="volumeSlider"
-          style={{ background: sliderBackground }}
-          aria-label="Volume"
+          style={sliderStyle}
+          aria-label={messages.volume}
           aria-valuenow={Math.round(percentage)}
         />
       )}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import {
+  DEFAULT_MAX_WRAPPER_DEPTH,
+  createAdTracker,
+  defaultFetchXml,
+  defaultTrackPixel,
+  expandMacros,
+  loadAdSchedule,
+  resolveAdOffset,
+  selectMediaFile,
+  type AdBreakConfig,
+  type AdError,
+  type AdTracker,
+  type AdsOptions,
+  type LinearAd,
+} from "../lib/ads";
+import { resolveVASTAds, createAdError, isAdError } from "../lib/vast";
+
+export interface UseAdsOptions {
+  ads?: AdsOptions;
+}
+
+/** The linear ad currently on screen */
+export interface ActiveAd {
+  ad: LinearAd;
+  /** Media file URL picked for this player */
+  src: string;
+  /** 0-based position in the pod */
+  index: number;
+  podSize: number;
+}
+
+type AdEndReason = "complete" | "skip" | "error";
+
+/**
+ * Client-side ad insertion for `useVideoPlayer`.
+ *
+ * The schedule (explicit `breaks` or a VMAP document) is loaded for every
+ * source. Breaks are triggered from the player's own listeners — `play` for
+ * the pre-roll, `timeupdate` for mid-rolls and `ended` for the post-roll —
+ * which pause the content while `AdOverlay` plays each ad of the pod in a
+ * second video element and reports back through the returned handlers.
+ * Each break plays at most once per source; a seek past several mid-rolls
+ * plays only the last of them.
+ */
+export function useAds(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  src: string,
+  duration: number,
+  options: UseAdsOptions,
+  /** Starts playback, or asks a controlled host to */
+  resumePlayback: (video: HTMLVideoElement) => void,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [breaks, setBreaks] = useState<AdBreakConfig[]>([]);
+  const breaksRef = useRef(breaks);
+  breaksRef.current = breaks;
+  const playedRef = useRef(new Set<number>());
+  const loadingRef = useRef(false);
+  /** Content play requested while the schedule was still loading */
+  const pendingPlayRef = useRef(false);
+
+  const [activeAd, setActiveAd] = useState<ActiveAd | null>(null);
+  const [isAdBreakActive, setAdBreakActive] = useState(false);
+  const breakActiveRef = useRef(false);
+  const trackerRef = useRef<AdTracker | null>(null);
+  const finishAdRef = useRef<((reason: AdEndReason) => void) | null>(null);
+  const startedAdRef = useRef<LinearAd | null>(null);
+  /** Bumped per source so a break in flight stops when the source changes */
+  const generationRef = useRef(0);
+
+  const reportError = useCallback((error: AdError) => {
+    console.warn("[ads]", error.code, error.message);
+    optionsRef.current.ads?.onAdError?.(error);
+  }, []);
+
+  const firePixels = useCallback(
+    (urls: string[] | undefined, event: "breakStart" | "breakEnd" | "error", errorCode?: number) => {
+      const trackPixel = optionsRef.current.ads?.trackPixel ?? defaultTrackPixel;
+      const contentPlayhead = videoRef.current?.currentTime;
+      for (const url of urls ?? []) trackPixel(expandMacros(url, { errorCode, contentPlayhead }), event);
+    },
+    [videoRef],
+  );
+
+  const activeAdRef = useRef(activeAd);
+  activeAdRef.current = activeAd;
+
+  /** Play one ad; resolves when it completes, is skipped or fails */
+  const playAd = useCallback(
+    (ad: LinearAd, index: number, podSize: number): Promise<AdEndReason> => {
+      const video = videoRef.current;
+      const opts = optionsRef.current.ads;
+      const trackPixel = opts?.trackPixel ?? defaultTrackPixel;
+      const tracker = createAdTracker(ad, trackPixel, video?.currentTime ?? 0);
+
+      const width = video ? video.clientWidth * (window.devicePixelRatio || 1) : 0;
+      const file = video ? selectMediaFile(ad.mediaFiles, video, width) : null;
+      if (!file) {
+        tracker.fire("error", 0, 403);
+        reportError(createAdError(403, `No supported media file for ad "${ad.id}"`));
+        return Promise.resolve("error");
+      }
+
+      trackerRef.current = tracker;
+      setActiveAd({ ad, src: file.src, index, podSize });
+      return new Promise((resolve) => {
+        finishAdRef.current = (reason) => {
+          finishAdRef.current = null;
+          trackerRef.current = null;
+          opts?.onAdEnd?.(ad, reason);
+          resolve(reason);
+        };
+      });
+    },
+    [videoRef, reportError],
+  );
+
+  /**
+   * Pause the content, play every ad in break `index`, then call `done`.
+   * Content resumes afterwards only when `resumeContent` is set.
+   */
+  const runBreak = useCallback(
+    async (index: number, resumeContent: boolean, done?: () => void) => {
+      const brk = breaksRef.current[index];
+      const video = videoRef.current;
+      if (!brk || !video) return;
+      const generation = generationRef.current;
+      const stale = () => generation !== generationRef.current;
+
+      playedRef.current.add(index);
+      breakActiveRef.current = true;
+      setAdBreakActive(true);
+      video.pause();
+      firePixels(brk.tracking?.breakStart, "breakStart");
+
+      const opts = optionsRef.current.ads;
+      let ads: LinearAd[] = [];
+      try {
+        ads = await resolveVASTAds(brk, {
+          fetchXml: opts?.fetchXml ?? defaultFetchXml,
+          onErrorUrls: (urls, code) => firePixels(urls, "error", code),
+          maxWrapperDepth: opts?.maxWrapperDepth ?? DEFAULT_MAX_WRAPPER_DEPTH,
+        });
+      } catch (err) {
+        const error = isAdError(err) ? err : createAdError(900, String(err));
+        firePixels(brk.tracking?.error, "error", error.code);
+        reportError(error);
+      }
+
+      for (let i = 0; i < ads.length && !stale(); i++) {
+        await playAd(ads[i], i, ads.length);
+      }
+      if (stale()) return;
+
+      firePixels(brk.tracking?.breakEnd, "breakEnd");
+      breakActiveRef.current = false;
+      setActiveAd(null);
+      setAdBreakActive(false);
+      if (resumeContent) resumePlayback(video);
+      done?.();
+    },
+    [videoRef, firePixels, playAd, reportError, resumePlayback],
+  );
+
+  /** Unplayed breaks whose content time satisfies `match`, earliest first */
+  const findBreaks = useCallback((match: (at: number) => boolean): number[] => {
+    const duration = videoRef.current?.duration ?? NaN;
+    return breaksRef.current
+      .map((b, i) => ({ i, at: resolveAdOffset(b.offset, duration) }))
+      .filter(({ i, at }) => !playedRef.current.has(i) && at !== null && match(at))
+      .sort((a, b) => a.at! - b.at!)
+      .map(({ i }) => i);
+  }, [videoRef]);
+
+  const startPreRoll = useCallback((): boolean => {
+    const [index] = findBreaks((at) => at === 0);
+    if (index === undefined) return false;
+    runBreak(index, true);
+    return true;
+  }, [findBreaks, runBreak]);
+
+  // Primitive dep so an inline `ads` object doesn't reload every render
+  const ads = options.ads;
+  const scheduleKey = ads
+    ? JSON.stringify({ vmapUrl: ads.vmapUrl, vmapXml: ads.vmapXml, breaks: ads.breaks })
+    : "";
+
+  useEffect(() => {
+    generationRef.current += 1;
+    playedRef.current = new Set();
+    pendingPlayRef.current = false;
+    finishAdRef.current = null;
+    trackerRef.current = null;
+    breakActiveRef.current = false;
+    setActiveAd(null);
+    setAdBreakActive(false);
+
+    const opts = optionsRef.current.ads;
+    if (!opts || !src) {
+      setBreaks([]);
+      return;
+    }
+    let cancelled = false;
+    loadingRef.current = true;
+    loadAdSchedule(opts)
+      .catch((err) => {
+        reportError(isAdError(err) ? err : createAdError(1000, `Failed to load ad schedule: ${err}`));
+        return [];
+      })
+      .then((next) => {
+        if (cancelled) return;
+        loadingRef.current = false;
+        breaksRef.current = next;
+        setBreaks(next);
+        // Play was pressed before the schedule arrived: run the pre-roll now
+        if (pendingPlayRef.current) {
+          pendingPlayRef.current = false;
+          const video = videoRef.current;
+          if (!startPreRoll() && video) resumePlayback(video);
+        }
+      });
+    return () => {
+      cancelled = true;
+      loadingRef.current = false;
+    };
+  }, [src, scheduleKey, videoRef, reportError, startPreRoll, resumePlayback]);
+
+  /**
+   * Content `play`: hold the content while a break runs, the schedule loads
+   * or a pre-roll is due. Returns true when the content was paused.
+   */
+  const handlePlay = useCallback((): boolean => {
+    const video = videoRef.current;
+    if (!video || !optionsRef.current.ads) return false;
+    if (breakActiveRef.current) {
+      video.pause();
+      return true;
+    }
+    if (loadingRef.current) {
+      pendingPlayRef.current = true;
+      video.pause();
+      return true;
+    }
+    return startPreRoll();
+  }, [videoRef, startPreRoll]);
+
+  /** Content `timeupdate`: start the latest mid-roll the playhead has passed */
+  const handleTimeUpdate = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || breakActiveRef.current || video.seeking || video.paused) return;
+    const t = video.currentTime;
+    const due = findBreaks((at) => at > 0 && at <= t);
+    if (!due.length) return;
+    // Seeked over several: only the last one plays
+    for (const i of due) playedRef.current.add(i);
+    runBreak(due[due.length - 1], true);
+  }, [videoRef, findBreaks, runBreak]);
+
+  /** Content `ended`: play the post-roll, then `next` (e.g. playlist advance) */
+  const handleEnded = useCallback((next: () => void) => {
+    const [index] = findBreaks((at) => at === Infinity);
+    if (index === undefined) next();
+    else runBreak(index, false, next);
+  }, [findBreaks, runBreak]);
+
+  // ─── AdOverlay callbacks ────────────────────────────────────────────────────
+
+  const handleAdTimeUpdate = useCallback((time: number, adDuration: number) => {
+    trackerRef.current?.progress(time, adDuration);
+  }, []);
+
+  /** First frame of the ad; later `playing` events (after a pause) are ignored */
+  const handleAdPlaying = useCallback(() => {
+    const ad = activeAdRef.current?.ad;
+    if (!ad || startedAdRef.current === ad) return;
+    startedAdRef.current = ad;
+    optionsRef.current.ads?.onAdStart?.(ad);
+  }, []);
+
+  const handleAdEnded = useCallback((time: number) => {
+    trackerRef.current?.fire("complete", time);
+    finishAdRef.current?.("complete");
+  }, []);
+
+  const handleAdError = useCallback((time: number) => {
+    trackerRef.current?.fire("error", time, 405);
+    reportError(createAdError(405, "The ad media file could not be played"));
+    finishAdRef.current?.("error");
+  }, [reportError]);
+
+  const skipAd = useCallback((time: number) => {
+    trackerRef.current?.fire("skip", time);
+    finishAdRef.current?.("skip");
+  }, []);
+
+  const handleAdPause = useCallback((time: number) => {
+    trackerRef.current?.fire("pause", time);
+  }, []);
+
+  const handleAdResume = useCallback((time: number) => {
+    trackerRef.current?.fire("resume", time);
+  }, []);
+
+  const handleAdMuteChange = useCallback((muted: boolean, time: number) => {
+    trackerRef.current?.fire(muted ? "mute" : "unmute", time);
+  }, []);
+
+  /** Open the advertiser's page and report the click */
+  const clickThrough = useCallback((time: number) => {
+    const url = activeAdRef.current?.ad.clickThrough;
+    trackerRef.current?.fire("clickThrough", time);
+    if (url) window.open(url, "_blank", "noopener");
+  }, []);
+
+  /** Mid-roll positions for the progress bar; pre- and post-rolls sit at the ends */
+  const adBreakTimes = useMemo(
+    () =>
+      breaks
+        .map((b) => resolveAdOffset(b.offset, duration))
+        .filter((t): t is number => t !== null && t > 0 && t < duration),
+    [breaks, duration],
+  );
+
+  return {
+    adBreakTimes,
+    isAdBreakActive,
+    activeAd,
+    handlePlay,
+    handleTimeUpdate,
+    handleEnded,
+    handleAdTimeUpdate,
+    handleAdPlaying,
+    handleAdEnded,
+    handleAdError,
+    handleAdPause,
+    handleAdResume,
+    handleAdMuteChange,
+    skipAd,
+    clickThrough,
+  };
+}
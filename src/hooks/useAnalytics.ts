@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import {
+  createAnalyticsSession,
+  type AnalyticsOptions,
+  type AnalyticsSession,
+  type AnalyticsEvent,
+} from "../lib/analytics";
+
+export interface UseAnalyticsOptions {
+  analytics?: AnalyticsOptions;
+}
+
+/**
+ * Analytics session bookkeeping for `useVideoPlayer`.
+ *
+ * One session per source load. The player's own video and hls.js listeners
+ * feed `sessionRef.current`; this hook only starts / ends sessions and routes
+ * events to the configured sink and `onEvent`.
+ */
+export function useAnalytics(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UseAnalyticsOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const sessionRef = useRef<AnalyticsSession | null>(null);
+  /** Last position seen before a seek began — the `from` of seek events */
+  const lastPositionRef = useRef(0);
+
+  const emit = useCallback((event: AnalyticsEvent) => {
+    const analytics = optionsRef.current.analytics;
+    analytics?.sink?.send(event);
+    analytics?.onEvent?.(event);
+  }, []);
+
+  const endSession = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    session.end();
+    optionsRef.current.analytics?.sink?.flush?.();
+  }, []);
+
+  const startSession = useCallback((src: string) => {
+    endSession();
+    lastPositionRef.current = 0;
+    const analytics = optionsRef.current.analytics;
+    if (!analytics) return;
+    sessionRef.current = createAnalyticsSession({
+      src,
+      emit,
+      heartbeatInterval: analytics.heartbeatInterval,
+      getPosition: () => videoRef.current?.currentTime ?? 0,
+    });
+  }, [videoRef, emit, endSession]);
+
+  // A replaced sink is released; the current one on unmount, after `session_end`
+  const sink = options.analytics?.sink;
+  useEffect(() => () => {
+    if (optionsRef.current.analytics?.sink !== sink) sink?.dispose?.();
+  }, [sink]);
+  useEffect(() => () => {
+    endSession();
+    optionsRef.current.analytics?.sink?.dispose?.();
+  }, [endSession]);
+
+  return { sessionRef, lastPositionRef, startSession, endSession };
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import type { CaptionStyle } from "../lib/types";
+import { DEFAULT_CAPTION_STYLE, readCaptionStyle } from "../lib/captionStyle";
+import {
+  getLocalStorage,
+  writeStoredJSON,
+  removeStored,
+  type PlayerStorage,
+} from "../lib/storage";
+
+export const CAPTION_STYLE_STORAGE_KEY = "react-helios:caption-style";
+
+/**
+ * Caption appearance for the player: library defaults, overlaid with the
+ * host's `captionStyle` prop, overlaid with whatever the user picked in the
+ * caption style panel.
+ *
+ * Only the user's own choices are persisted, so changing the prop still
+ * affects every setting the user has not touched. Storage is read after
+ * mount, which keeps the first render identical on server and client.
+ *
+ * `storage` undefined → localStorage; null → no persistence.
+ */
+export function useCaptionStyle(
+  defaults: Partial<CaptionStyle> | undefined,
+  storage: PlayerStorage | null | undefined,
+) {
+  const [overrides, setOverrides] = useState<Partial<CaptionStyle>>({});
+  const storageRef = useRef<PlayerStorage | null>(null);
+
+  useEffect(() => {
+    storageRef.current = storage === undefined ? getLocalStorage() : storage;
+    setOverrides(readCaptionStyle(storageRef.current, CAPTION_STYLE_STORAGE_KEY));
+  }, [storage]);
+
+  const style = useMemo<CaptionStyle>(
+    () => ({ ...DEFAULT_CAPTION_STYLE, ...defaults, ...overrides }),
+    [defaults, overrides],
+  );
+
+  const setCaptionStyle = useCallback((patch: Partial<CaptionStyle>) => {
+    setOverrides((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  // Persist outside the updater so StrictMode double-invocation stays pure
+  const hydratedRef = useRef(false);
+  useEffect(() => {
+    if (!hydratedRef.current) {
+      hydratedRef.current = true;
+      return;
+    }
+    if (Object.keys(overrides).length) {
+      writeStoredJSON(storageRef.current, CAPTION_STYLE_STORAGE_KEY, overrides);
+    } else {
+      removeStored(storageRef.current, CAPTION_STYLE_STORAGE_KEY);
+    }
+  }, [overrides]);
+
+  const resetCaptionStyle = useCallback(() => setOverrides({}), []);
+
+  return { captionStyle: style, setCaptionStyle, resetCaptionStyle };
+}
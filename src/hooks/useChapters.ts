@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useEffect, useRef, useMemo } from "react";
+import type { Chapter } from "../lib/types";
+import { parseChapterVtt, normalizeChapters, findChapterIndex } from "../lib/vtt";
+
+export interface UseChaptersOptions {
+  chapters?: Chapter[] | string;
+  onChapterChange?: (chapter: Required<Chapter> | null, index: number) => void;
+}
+
+/**
+ * Chapter list and current-chapter tracking used by `useVideoPlayer`.
+ *
+ * A string `chapters` value is fetched and parsed as a WebVTT chapters track;
+ * a failed request is logged and leaves the list empty.
+ * The current chapter is tracked from `timeupdate` / `seeked`, but React
+ * state only changes when playback crosses a chapter boundary.
+ */
+export function useChapters(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  duration: number,
+  options: UseChaptersOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const source = options.chapters;
+  const [loaded, setLoaded] = useState<Chapter[]>([]);
+
+  // ─── Load from array or VTT URL ─────────────────────────────────────────
+  useEffect(() => {
+    if (!source) {
+      setLoaded([]);
+      return;
+    }
+    if (typeof source !== "string") {
+      setLoaded(source);
+      return;
+    }
+    let cancelled = false;
+    fetch(source)
+      .then((r) => {
+        // An error page parsed as VTT would just yield no chapters, silently
+        if (!r.ok) throw new Error(`HTTP ${r.status}`);
+        return r.text();
+      })
+      .then((text) => {
+        if (!cancelled) setLoaded(parseChapterVtt(text));
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.warn(`[chapters] ${source} failed to load:`, err);
+        setLoaded([]);
+      });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  const chapters = useMemo(() => normalizeChapters(loaded, duration), [loaded, duration]);
+  const chaptersRef = useRef(chapters);
+  chaptersRef.current = chapters;
+
+  const [currentChapterIndex, setCurrentChapterIndex] = useState(-1);
+  const currentIndexRef = useRef(-1);
+
+  // ─── Track the chapter under the playhead ───────────────────────────────
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const update = () => {
+      const list = chaptersRef.current;
+      const idx = list.length ? findChapterIndex(list, video.currentTime) : -1;
+      if (idx === currentIndexRef.current) return;
+      currentIndexRef.current = idx;
+      setCurrentChapterIndex(idx);
+      optionsRef.current.onChapterChange?.(list[idx] ?? null, idx);
+    };
+
+    video.addEventListener("timeupdate", update);
+    video.addEventListener("seeked", update);
+    update();
+
+    return () => {
+      video.removeEventListener("timeupdate", update);
+      video.removeEventListener("seeked", update);
+    };
+  }, [videoRef, chapters]);
+
+  return { chapters, currentChapterIndex };
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import type { PlaybackRate } from "../lib/types";
+
+export interface UseControlledOptions {
+  muted?: boolean;
+  playing?: boolean;
+  onPlayingChange?: (playing: boolean) => void;
+  volume?: number;
+  onVolumeChange?: (volume: number, muted: boolean) => void;
+  playbackRate?: PlaybackRate;
+  onPlaybackRateChange?: (rate: PlaybackRate) => void;
+  currentTime?: number;
+  onCurrentTimeChange?: (time: number) => void;
+}
+
+/**
+ * A controlled `currentTime` within this many seconds of the playhead is
+ * taken as already there: hosts echoing `onTimeUpdate` back don't seek.
+ */
+const CURRENT_TIME_TOLERANCE = 0.5;
+
+function clampVolume(volume: number): number {
+  return Math.max(0, Math.min(volume, 1));
+}
+
+/**
+ * Controlled mode for `useVideoPlayer`: `playing`, `volume`, `playbackRate`
+ * and `currentTime`, each on its own.
+ *
+ * While a value is set the host owns it. The element is brought in line
+ * whenever the prop changes, and the player's own requests — the control
+ * bar, shortcuts, the `play` / `seek` / … methods — go to the matching
+ * `onXChange` callback through `request*` instead of touching the element.
+ * A request returns false for uncontrolled values, and the caller applies
+ * it as before. The player's listeners report every actual change to the
+ * same callbacks, controlled or not.
+ *
+ * Every `play()` goes through `startPlayback` — `play` directly, anything
+ * the player starts on its own through `resumePlayback`: a rejected promise
+ * (autoplay policy, unplayable source) is reported as `onPlayingChange(false)`,
+ * so a controlled host that asked for playback learns it didn't start.
+ */
+export function useControlled(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UseControlledOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const startPlayback = useCallback(async (video: HTMLVideoElement) => {
+    try {
+      await video.play();
+    } catch (err: unknown) {
+      // Interrupted by pause() or a new load: whoever interrupted has the final say
+      if (err instanceof Error && err.name === "AbortError") return;
+      optionsRef.current.onPlayingChange?.(false);
+      // Blocked by the autoplay policy is expected; anything else is worth a log
+      if (!(err instanceof Error && err.name === "NotAllowedError"))
+        console.error("[player] play() failed:", err);
+    }
+  }, []);
+
+  /**
+   * Playback the player starts on its own: autoplay, the next playlist item,
+   * content after an ad break, a retry or failover. A controlled host that
+   * has playback off is asked instead.
+   */
+  const resumePlayback = useCallback((video: HTMLVideoElement) => {
+    const opts = optionsRef.current;
+    if (opts.playing === false) opts.onPlayingChange?.(true);
+    else startPlayback(video);
+  }, [startPlayback]);
+
+  const requestPlaying = useCallback((playing: boolean): boolean => {
+    const opts = optionsRef.current;
+    if (opts.playing === undefined) return false;
+    opts.onPlayingChange?.(playing);
+    return true;
+  }, []);
+
+  const requestVolume = useCallback((volume: number): boolean => {
+    const opts = optionsRef.current;
+    if (opts.volume === undefined) return false;
+    const v = clampVolume(volume);
+    opts.onVolumeChange?.(v, v === 0);
+    return true;
+  }, []);
+
+  const requestPlaybackRate = useCallback((rate: PlaybackRate): boolean => {
+    const opts = optionsRef.current;
+    if (opts.playbackRate === undefined) return false;
+    opts.onPlaybackRateChange?.(rate);
+    return true;
+  }, []);
+
+  const requestSeek = useCallback((time: number): boolean => {
+    const opts = optionsRef.current;
+    if (opts.currentTime === undefined) return false;
+    opts.onCurrentTimeChange?.(time);
+    return true;
+  }, []);
+
+  /**
+   * `loadedmetadata`: a new load starts from the top, so a controlled
+   * position is applied again. True when one was set.
+   */
+  const handleLoadedMetadata = useCallback((): boolean => {
+    const video = videoRef.current;
+    const { currentTime } = optionsRef.current;
+    if (!video || currentTime === undefined || currentTime <= 0) return false;
+    video.currentTime = currentTime;
+    return true;
+  }, [videoRef]);
+
+  // ── Reconcile the element whenever a controlled prop changes ──
+
+  const { muted, playing, volume, playbackRate, currentTime } = options;
+
+  // Not controlled: applied on change, like the `muted` attribute itself
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && muted !== undefined) video.muted = muted;
+  }, [videoRef, muted]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    // Without a source yet, loading it starts playback instead
+    if (!video || playing === undefined || video.networkState === video.NETWORK_EMPTY) return;
+    if (playing && video.paused) startPlayback(video);
+    else if (!playing && !video.paused) video.pause();
+  }, [videoRef, playing, startPlayback]);
+
+  // Skips the first run so the `muted` prop keeps its say at mount
+  const volumeAppliedRef = useRef(false);
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || volume === undefined) return;
+    const v = clampVolume(volume);
+    video.volume = v;
+    // Like dragging the slider: a new volume unmutes, and 0 mutes
+    if (volumeAppliedRef.current) video.muted = v === 0;
+    volumeAppliedRef.current = true;
+  }, [videoRef, volume]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (video && playbackRate !== undefined && video.playbackRate !== playbackRate) {
+      video.playbackRate = playbackRate;
+    }
+  }, [videoRef, playbackRate]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    // Before metadata, handleLoadedMetadata applies it
+    if (!video || currentTime === undefined || video.readyState === video.HAVE_NOTHING) return;
+    if (Math.abs(video.currentTime - currentTime) > CURRENT_TIME_TOLERANCE) {
+      video.currentTime = Math.max(0, currentTime);
+    }
+  }, [videoRef, currentTime]);
+
+  return {
+    startPlayback,
+    resumePlayback,
+    requestPlaying,
+    requestVolume,
+    requestPlaybackRate,
+    requestSeek,
+    handleLoadedMetadata,
+  };
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { LiveLatencyOptions, LiveWindow } from "../lib/types";
+import { getCatchUpRate, resolveLiveLatency } from "../lib/live";
+
+export interface UseLiveLatencyOptions {
+  liveLatency?: boolean | LiveLatencyOptions;
+  onLatencyChange?: (latency: number) => void;
+}
+
+/** Measured latency is published at most this often (ms) */
+const LATENCY_REPORT_INTERVAL = 1000;
+
+/**
+ * Live latency for `useVideoPlayer`: measures how far behind the edge a live
+ * stream plays and, with `liveLatency` set, steers it towards the target.
+ *
+ * The player's listeners pass the engine's measurement in through the
+ * returned handlers (`timeupdate`, `seeked`). Catch-up only runs while the
+ * viewer's chosen rate is 1× and stops once they seek more than `max` behind
+ * the edge — that's DVR viewing until they go live again. Rate changes made
+ * here are reported by `handleRateChange` so `PlayerState.playbackRate` and
+ * saved preferences keep the viewer's own rate.
+ */
+export function useLiveLatency(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  isLive: boolean,
+  options: UseLiveLatencyOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [latency, setLatency] = useState<number | null>(null);
+  const lastReportRef = useRef(0);
+  /** Rate the viewer picked; catch-up only runs while it is 1× */
+  const userRateRef = useRef(1);
+  /** Rate last set by catch-up; null while the viewer's rate is in effect */
+  const appliedRateRef = useRef<number | null>(null);
+  /** Seeked back into the DVR window: no catch-up until back near the edge */
+  const behindRef = useRef(false);
+
+  const setRate = useCallback((rate: number) => {
+    const video = videoRef.current;
+    if (!video || video.playbackRate === rate) return;
+    appliedRateRef.current = rate;
+    video.playbackRate = rate;
+  }, [videoRef]);
+
+  /** Hand the rate back to the viewer */
+  const restoreRate = useCallback(() => {
+    if (appliedRateRef.current === null) return;
+    setRate(userRateRef.current);
+    appliedRateRef.current = null;
+  }, [setRate]);
+
+  useEffect(() => {
+    if (isLive) return;
+    restoreRate();
+    behindRef.current = false;
+    lastReportRef.current = 0;
+    setLatency(null);
+  }, [isLive, restoreRate]);
+
+  /** Live `timeupdate`: report the latency, then catch up or jump to the edge */
+  const handleTimeUpdate = useCallback(
+    (measured: number | null, liveWindow: LiveWindow | null) => {
+      const video = videoRef.current;
+      if (!video || measured === null) return;
+
+      const now = performance.now();
+      if (now - lastReportRef.current >= LATENCY_REPORT_INTERVAL) {
+        lastReportRef.current = now;
+        const rounded = Math.round(measured * 10) / 10;
+        setLatency(rounded);
+        optionsRef.current.onLatencyChange?.(rounded);
+      }
+
+      const config = resolveLiveLatency(optionsRef.current.liveLatency);
+      if (!config || video.paused || video.seeking || behindRef.current) {
+        restoreRate();
+        return;
+      }
+      // Stalls pushed playback too far behind for the rate to recover in time
+      if (measured > config.max && liveWindow) {
+        restoreRate();
+        video.currentTime = liveWindow.end;
+        return;
+      }
+      if (userRateRef.current !== 1) {
+        restoreRate();
+        return;
+      }
+      setRate(getCatchUpRate(measured, config));
+    },
+    [videoRef, restoreRate, setRate],
+  );
+
+  /** Live `seeked`: a seek far behind the edge turns catch-up off, one near it back on */
+  const handleSeeked = useCallback((measured: number | null) => {
+    const config = resolveLiveLatency(optionsRef.current.liveLatency);
+    if (!config || measured === null) return;
+    behindRef.current = measured > config.max;
+  }, []);
+
+  /**
+   * `ratechange`: true when catch-up caused it, so the player keeps showing
+   * the viewer's rate. Otherwise the new rate is the viewer's.
+   */
+  const handleRateChange = useCallback((): boolean => {
+    const video = videoRef.current;
+    if (!video) return false;
+    if (appliedRateRef.current !== null && video.playbackRate === appliedRateRef.current) {
+      return true;
+    }
+    userRateRef.current = video.playbackRate;
+    appliedRateRef.current = null;
+    return false;
+  }, [videoRef]);
+
+  return { latency, handleTimeUpdate, handleSeeked, handleRateChange };
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { resolveMessages, type PlayerMessages, type PlayerMessagesOverride } from "../lib/i18n";
+
+/**
+ * The catalog for `locale` with `overrides` applied. Keyed on the JSON of
+ * the overrides so an inline `messages` object doesn't re-render every control.
+ */
+export function useMessages(
+  locale: string | undefined,
+  overrides: PlayerMessagesOverride | undefined,
+): PlayerMessages {
+  const key = overrides ? JSON.stringify(overrides) : "";
+  const overridesRef = useRef(overrides);
+  overridesRef.current = overrides;
+  return useMemo(() => resolveMessages(locale, overridesRef.current), [locale, key]);
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import type { PlaylistItem, RepeatMode } from "../lib/types";
+import { createPlaybackOrder, getAdjacentIndex, clampIndex } from "../lib/playlist";
+
+export interface UsePlaylistOptions {
+  playlist?: PlaylistItem[];
+  playlistStartIndex?: number;
+  autoplayNext?: boolean;
+  autoplayNextDelay?: number;
+  repeatMode?: RepeatMode;
+  shuffle?: boolean;
+  onPlaylistIndexChange?: (index: number, item: PlaylistItem) => void;
+}
+
+/** Pending auto-advance shown by the "Up next" overlay */
+export interface UpNext {
+  index: number;
+  item: PlaylistItem;
+  /** Whole seconds left before the next item loads */
+  remaining: number;
+}
+
+/** Seconds into an item after which "previous" restarts it instead */
+const PREVIOUS_RESTART_THRESHOLD = 3;
+
+/**
+ * Playlist / queue state used by `useVideoPlayer`.
+ *
+ * Owns the current index, repeat and shuffle modes and the auto-advance
+ * countdown. It never touches the media source itself — `useVideoPlayer`
+ * derives the active `src` from `item` and reuses its normal source effect.
+ */
+export function usePlaylist(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UsePlaylistOptions,
+  /** Starts playback, or asks a controlled host to */
+  resumePlayback: (video: HTMLVideoElement) => void,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const playlist = options.playlist;
+  const length = playlist?.length ?? 0;
+
+  const [index, setIndex] = useState(() =>
+    clampIndex(options.playlistStartIndex ?? 0, length),
+  );
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(options.repeatMode ?? "off");
+  const [isShuffled, setShuffle] = useState(!!options.shuffle);
+  const [upNext, setUpNext] = useState<UpNext | null>(null);
+
+  /** Set before a switch so the source effect starts the new item playing */
+  const autoplayPendingRef = useRef(false);
+
+  const indexRef = useRef(index);
+  indexRef.current = index;
+  const upNextRef = useRef(upNext);
+  upNextRef.current = upNext;
+
+  // Keep mode state in sync when the host changes the props
+  useEffect(() => {
+    if (options.repeatMode !== undefined) setRepeatMode(options.repeatMode);
+  }, [options.repeatMode]);
+
+  useEffect(() => {
+    if (options.shuffle !== undefined) setShuffle(options.shuffle);
+  }, [options.shuffle]);
+
+  // Clamp when the playlist grows or shrinks underneath us
+  useEffect(() => {
+    setIndex((prev) => clampIndex(prev === -1 ? 0 : prev, length));
+  }, [length]);
+
+  // Re-shuffled only when shuffle is toggled or the list length changes;
+  // the current item stays first so toggling never interrupts playback.
+  const order = useMemo(
+    () => createPlaybackOrder(length, isShuffled, Math.max(0, indexRef.current)),
+    [length, isShuffled],
+  );
+
+  const item = index >= 0 ? playlist?.[index] : undefined;
+
+  const goTo = useCallback((target: number, autoplay?: boolean) => {
+    const list = optionsRef.current.playlist;
+    if (!list?.length) return;
+    const next = clampIndex(target, list.length);
+    const video = videoRef.current;
+
+    setUpNext(null);
+    autoplayPendingRef.current = autoplay ?? (!!video && !video.paused);
+
+    if (next === indexRef.current) {
+      if (video) {
+        video.currentTime = 0;
+        if (autoplayPendingRef.current) resumePlayback(video);
+      }
+      autoplayPendingRef.current = false;
+      return;
+    }
+
+    setIndex(next);
+    optionsRef.current.onPlaylistIndexChange?.(next, list[next]);
+  }, [videoRef, resumePlayback]);
+
+  const next = useCallback(() => {
+    const target = getAdjacentIndex(order, indexRef.current, 1, repeatMode);
+    if (target !== null) goTo(target, true);
+  }, [order, repeatMode, goTo]);
+
+  const previous = useCallback(() => {
+    const video = videoRef.current;
+    if (video && video.currentTime > PREVIOUS_RESTART_THRESHOLD) {
+      video.currentTime = 0;
+      return;
+    }
+    const target = getAdjacentIndex(order, indexRef.current, -1, repeatMode);
+    if (target !== null) goTo(target, true);
+    else if (video) video.currentTime = 0;
+  }, [order, repeatMode, goTo, videoRef]);
+
+  const cancelUpNext = useCallback(() => setUpNext(null), []);
+
+  const playUpNext = useCallback(() => {
+    const pending = upNextRef.current;
+    if (pending) goTo(pending.index, true);
+  }, [goTo]);
+
+  /**
+   * Called from the video `ended` listener. Returns true when the playlist
+   * took over (replay, countdown or advance).
+   */
+  const handleEnded = useCallback((): boolean => {
+    const opts = optionsRef.current;
+    const list = opts.playlist;
+    if (!list?.length) return false;
+
+    if (repeatMode === "one") {
+      const video = videoRef.current;
+      if (video) {
+        video.currentTime = 0;
+        resumePlayback(video);
+      }
+      return true;
+    }
+
+    if (opts.autoplayNext === false) return false;
+    const target = getAdjacentIndex(order, indexRef.current, 1, repeatMode);
+    if (target === null) return false;
+
+    const delay = Math.max(0, Math.round(opts.autoplayNextDelay ?? 5));
+    if (delay === 0) goTo(target, true);
+    else setUpNext({ index: target, item: list[target], remaining: delay });
+    return true;
+  }, [order, repeatMode, goTo, videoRef, resumePlayback]);
+
+  // ─── Up-next countdown ──────────────────────────────────────────────────
+  useEffect(() => {
+    if (!upNext) return;
+    if (upNext.remaining <= 0) {
+      goTo(upNext.index, true);
+      return;
+    }
+    const id = setTimeout(
+      () => setUpNext((p) => (p ? { ...p, remaining: p.remaining - 1 } : p)),
+      1000,
+    );
+    return () => clearTimeout(id);
+  }, [upNext, goTo]);
+
+  // Resuming the ended item (seek back + play) cancels the countdown
+  const hasUpNext = upNext !== null;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hasUpNext) return;
+    const cancel = () => setUpNext(null);
+    video.addEventListener("play", cancel);
+    return () => video.removeEventListener("play", cancel);
+  }, [videoRef, hasUpNext]);
+
+  const hasNext = getAdjacentIndex(order, index, 1, repeatMode) !== null;
+  const hasPrevious = getAdjacentIndex(order, index, -1, repeatMode) !== null;
+
+  return {
+    item,
+    index,
+    length,
+    repeatMode,
+    isShuffled,
+    upNext,
+    hasNext,
+    hasPrevious,
+    autoplayPendingRef,
+    next,
+    previous,
+    goTo,
+    setRepeatMode,
+    setShuffle,
+    cancelUpNext,
+    playUpNext,
+    handleEnded,
+  };
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useRef, useCallback } from "react";
+import type { PlayerPreferences, PersistPreferencesOptions } from "../lib/types";
+import {
+  resolvePreferenceStore,
+  readPreferences,
+  writePreferences,
+  type PreferenceStore,
+} from "../lib/preferences";
+
+/**
+ * Persisted user preferences for `useVideoPlayer`.
+ *
+ * Preferences live in a ref: they are only consulted when a source loads or
+ * the user changes a setting, so they never need to trigger a render.
+ * Storage is read in an effect — nothing touches `localStorage` during
+ * server rendering, and the effect runs before the player's source effect
+ * so the very first load already sees the stored values.
+ */
+export function usePreferences(option: boolean | PersistPreferencesOptions | undefined) {
+  const storeRef = useRef<PreferenceStore | null>(null);
+  const preferencesRef = useRef<Partial<PlayerPreferences>>({});
+
+  // Primitive deps so an inline options object doesn't reload every render
+  const enabled = !!option;
+  const key = typeof option === "object" ? option.key : undefined;
+  const storage = typeof option === "object" ? option.storage : undefined;
+
+  useEffect(() => {
+    const store = enabled ? resolvePreferenceStore({ key, storage }) : null;
+    storeRef.current = store;
+    preferencesRef.current = store ? readPreferences(store) : {};
+  }, [enabled, key, storage]);
+
+  const savePreferences = useCallback((patch: Partial<PlayerPreferences>) => {
+    const store = storeRef.current;
+    if (!store) return;
+    preferencesRef.current = { ...preferencesRef.current, ...patch };
+    writePreferences(store, preferencesRef.current);
+  }, []);
+
+  return { preferencesRef, savePreferences };
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { ResumeProgress } from "../lib/types";
+import { getLocalStorage, type PlayerStorage } from "../lib/storage";
+import {
+  RESUME_SAVE_INTERVAL,
+  isResumable,
+  readResumePosition,
+  saveResumePosition,
+  clearResumePosition,
+} from "../lib/resume";
+
+export interface UseResumeOptions {
+  resumeKey?: string;
+  resumePrompt?: boolean;
+  resumeFrom?: number;
+  resumeStorage?: PlayerStorage | null;
+  onProgressSave?: (progress: ResumeProgress) => void;
+}
+
+/**
+ * "Continue watching" for `useVideoPlayer`.
+ *
+ * Like usePlaylist, it never subscribes to the video element itself: the
+ * player's own listeners forward `timeupdate`, `loadedmetadata`, `pause` and
+ * `ended` through the returned handlers. Saves are throttled to one every
+ * {@link RESUME_SAVE_INTERVAL} seconds, plus one on pause, page hide and when
+ * the key changes.
+ *
+ * `key` is the active item's id — the top-level `resumeKey` or the playlist
+ * item's own.
+ */
+export function useResume(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  key: string | undefined,
+  options: UseResumeOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const storageRef = useRef<PlayerStorage | null>(null);
+  const lastSaveRef = useRef(0);
+  /** Key already reported as completed, so it is only reported once */
+  const completedKeyRef = useRef<string | null>(null);
+  /** Position offered by the prompt; saving pauses until the user answers */
+  const [promptTime, setPromptTime] = useState<number | null>(null);
+  const promptTimeRef = useRef(promptTime);
+  promptTimeRef.current = promptTime;
+
+  const storageOption = options.resumeStorage;
+  useEffect(() => {
+    storageRef.current = storageOption === undefined ? getLocalStorage() : storageOption;
+  }, [storageOption]);
+
+  const markCompleted = useCallback((completedKey: string, time: number, duration: number) => {
+    if (completedKeyRef.current === completedKey) return;
+    completedKeyRef.current = completedKey;
+    clearResumePosition(storageRef.current, completedKey);
+    optionsRef.current.onProgressSave?.({ key: completedKey, time, duration, completed: true });
+  }, []);
+
+  const save = useCallback((video: HTMLVideoElement, saveKey: string | undefined) => {
+    if (!saveKey || promptTimeRef.current !== null) return;
+    const time = video.currentTime;
+    const duration = video.duration;
+    lastSaveRef.current = Date.now();
+
+    if (isResumable(time, duration)) {
+      saveResumePosition(storageRef.current, saveKey, time, duration);
+      optionsRef.current.onProgressSave?.({ key: saveKey, time, duration, completed: false });
+      completedKeyRef.current = null;
+    } else if (time > duration / 2) {
+      // Within the end margin — treat as watched
+      markCompleted(saveKey, time, duration);
+    }
+  }, [markCompleted]);
+
+  // Flush the outgoing item's position on key change / unmount, and on page hide
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !key) return;
+    const onPageHide = () => save(video, key);
+    window.addEventListener("pagehide", onPageHide);
+    return () => {
+      window.removeEventListener("pagehide", onPageHide);
+      save(video, key);
+      setPromptTime(null);
+    };
+  }, [videoRef, key, save]);
+
+  const handleLoadedMetadata = useCallback(() => {
+    const video = videoRef.current;
+    const k = keyRef.current;
+    if (!video || !k) return;
+    completedKeyRef.current = null;
+    const opts = optionsRef.current;
+    // resumeFrom belongs to the top-level key, not to every playlist item
+    const time =
+      opts.resumeFrom !== undefined && k === opts.resumeKey
+        ? opts.resumeFrom
+        : readResumePosition(storageRef.current, k);
+    if (time === null || !isResumable(time, video.duration)) return;
+
+    if (opts.resumePrompt) setPromptTime(time);
+    else video.currentTime = time;
+  }, [videoRef]);
+
+  const handleTimeUpdate = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.paused) return;
+    if (Date.now() - lastSaveRef.current < RESUME_SAVE_INTERVAL * 1000) return;
+    save(video, keyRef.current);
+  }, [videoRef, save]);
+
+  const handlePause = useCallback(() => {
+    const video = videoRef.current;
+    // `pause` also fires right before `ended`; handleEnded covers that case
+    if (video && !video.ended) save(video, keyRef.current);
+  }, [videoRef, save]);
+
+  const handleEnded = useCallback(() => {
+    const video = videoRef.current;
+    const k = keyRef.current;
+    if (!video || !k) return;
+    setPromptTime(null);
+    markCompleted(k, video.duration, video.duration);
+  }, [videoRef, markCompleted]);
+
+  const resume = useCallback(() => {
+    const video = videoRef.current;
+    const time = promptTimeRef.current;
+    setPromptTime(null);
+    promptTimeRef.current = null;
+    if (video && time !== null) video.currentTime = time;
+  }, [videoRef]);
+
+  const startOver = useCallback(() => {
+    const video = videoRef.current;
+    const k = keyRef.current;
+    setPromptTime(null);
+    promptTimeRef.current = null;
+    if (k) clearResumePosition(storageRef.current, k);
+    if (video) video.currentTime = 0;
+  }, [videoRef]);
+
+  return {
+    promptTime,
+    resume,
+    startOver,
+    handleLoadedMetadata,
+    handleTimeUpdate,
+    handlePause,
+    handleEnded,
+  };
+}
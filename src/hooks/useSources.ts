@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { VideoSource, SourceChangeReason, PlaylistItem } from "../lib/types";
+import { rankSources, getSourcesKey } from "../lib/sources";
+
+export interface UseSourcesOptions {
+  sources?: VideoSource[];
+  /** A non-empty playlist overrides `sources`, which then aren't ranked at all */
+  playlist?: PlaylistItem[];
+  enableHLS?: boolean;
+  enableDASH?: boolean;
+  onSourceChange?: (source: VideoSource, reason: SourceChangeReason) => void;
+}
+
+/**
+ * Source selection and CDN failover for `useVideoPlayer`.
+ *
+ * `sources` are probed once per distinct list (see `rankSources`) and the
+ * first playable one becomes `source`; until then `pending` is true and the
+ * player loads nothing, not even `src`. The player's error handlers call
+ * `failover` on fatal network errors; it advances to the next source and
+ * remembers the position, which `handleLoadedMetadata` restores once the
+ * replacement has loaded. Like usePlaylist it never loads media itself —
+ * `useVideoPlayer` derives the active `src` from `source`.
+ */
+export function useSources(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UseSourcesOptions,
+  /** Starts playback, or asks a controlled host to */
+  resumePlayback: (video: HTMLVideoElement) => void,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [ranked, setRanked] = useState<VideoSource[]>([]);
+  /** `key` of the list `ranked` was made from */
+  const [rankedKey, setRankedKey] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const rankedRef = useRef(ranked);
+  rankedRef.current = ranked;
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  const reasonRef = useRef<SourceChangeReason>("initial");
+  /** Where to pick up after a failover; applied on the next loadedmetadata */
+  const resumeAtRef = useRef<{ time: number; play: boolean } | null>(null);
+
+  // Primitive deps so an inline `sources` array doesn't re-probe every render
+  const key = getSourcesKey(options.sources);
+  const { enableHLS, enableDASH } = options;
+  const hasPlaylist = !!options.playlist?.length;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const list = optionsRef.current.sources ?? [];
+    if (!video || !list.length || hasPlaylist) {
+      setRanked([]);
+      setRankedKey(null);
+      setIndex(0);
+      return;
+    }
+    let cancelled = false;
+    rankSources(video, list, { enableHLS, enableDASH }).then((next) => {
+      if (cancelled) return;
+      reasonRef.current = "initial";
+      resumeAtRef.current = null;
+      setRanked(next);
+      setRankedKey(key);
+      setIndex(0);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, enableHLS, enableDASH, hasPlaylist, videoRef]);
+
+  // A list that changed keeps its old ranking until the probe finishes
+  const pending = !hasPlaylist && key !== "" && rankedKey !== key;
+  const source: VideoSource | null = pending ? null : ranked[index] ?? null;
+
+  useEffect(() => {
+    if (source) optionsRef.current.onSourceChange?.(source, reasonRef.current);
+  }, [source]);
+
+  /**
+   * Move on from `failedSrc` to the next source. Returns false when there is
+   * nothing left to try, or `failedSrc` isn't one of the sources (a playlist
+   * item), so the caller should surface the error. Errors from a source that
+   * has already been replaced are swallowed.
+   */
+  const failover = useCallback((failedSrc: string): boolean => {
+    const list = rankedRef.current;
+    const failedIndex = list.findIndex((s) => s.src === failedSrc);
+    if (failedIndex === -1) return false;
+    if (failedIndex !== indexRef.current) return true;
+    const nextIndex = indexRef.current + 1;
+    if (nextIndex >= list.length) return false;
+
+    const video = videoRef.current;
+    resumeAtRef.current = video
+      ? {
+          // Live streams rejoin at the live edge
+          time: Number.isFinite(video.duration) ? video.currentTime : 0,
+          play: !video.paused,
+        }
+      : null;
+    console.warn(`[sources] ${failedSrc} failed – switching to ${list[nextIndex].src}`);
+    reasonRef.current = "failover";
+    indexRef.current = nextIndex;
+    setIndex(nextIndex);
+    return true;
+  }, [videoRef]);
+
+  /** Restore the pre-failover position; returns true when it did */
+  const handleLoadedMetadata = useCallback((): boolean => {
+    const video = videoRef.current;
+    const resumeAt = resumeAtRef.current;
+    if (!video || !resumeAt) return false;
+    resumeAtRef.current = null;
+    if (resumeAt.time > 0) video.currentTime = resumeAt.time;
+    if (resumeAt.play) resumePlayback(video);
+    return true;
+  }, [videoRef, resumePlayback]);
+
+  return { source, pending, failover, handleLoadedMetadata };
+}
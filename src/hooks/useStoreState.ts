@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import type { PlayerState } from "../lib/types";
+import type { PlayerStore } from "../lib/store";
+
+interface Selection<T> {
+  state: PlayerState;
+  selector: (state: PlayerState) => T;
+  value: T;
+}
+
+/**
+ * The slice of `store` that `selector` picks. The component re-renders only
+ * when that slice changes — by `Object.is`, or `isEqual` for selectors that
+ * build a new object each time.
+ */
+export function useStoreState<T>(
+  store: PlayerStore,
+  selector: (state: PlayerState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+): T {
+  const selectorRef = useRef(selector);
+  selectorRef.current = selector;
+  const isEqualRef = useRef(isEqual);
+  isEqualRef.current = isEqual;
+  const selectionRef = useRef<Selection<T> | null>(null);
+
+  // Memoised per state and selector so the snapshot is stable between store changes
+  const getSnapshot = useCallback((): T => {
+    const state = store.getState();
+    const selector = selectorRef.current;
+    const prev = selectionRef.current;
+    if (prev && prev.state === state && prev.selector === selector) return prev.value;
+    const next = selector(state);
+    const value = prev && isEqualRef.current(prev.value, next) ? prev.value : next;
+    selectionRef.current = { state, selector, value };
+    return value;
+  }, [store]);
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
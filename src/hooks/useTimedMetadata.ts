@@ -0,0 +1,121 @@
+"use client";
+
+import { useRef, useCallback } from "react";
+import type { MetadataCue } from "../lib/types";
+
+export interface UseTimedMetadataOptions {
+  onMetadataCue?: (cue: MetadataCue) => void;
+}
+
+/** A forward jump larger than this (s) between two timeupdates counts as a seek */
+const MAX_TIMEUPDATE_GAP = 1.5;
+/** After a seek, cues this close behind the playhead still fire */
+const SEEK_GRACE = 0.5;
+
+/** Same tag re-announced by a playlist refresh or another rendition's segment */
+function getCueKey(cue: MetadataCue): string {
+  return cue.type === "daterange" ? `daterange:${cue.id}` : `id3:${cue.time.toFixed(3)}`;
+}
+
+/** Media time the cue stops mattering at: its end for date ranges, its start otherwise */
+function getCueEnd(cue: MetadataCue): number {
+  return cue.type === "daterange" && cue.duration !== undefined ? cue.time + cue.duration : cue.time;
+}
+
+/** Still running at `time`: a date range that started earlier but hasn't ended */
+function isActive(cue: MetadataCue, time: number): boolean {
+  if (time - cue.time <= SEEK_GRACE) return true;
+  return cue.type === "daterange" && cue.duration !== undefined && cue.time + cue.duration > time;
+}
+
+/**
+ * Timed metadata for `useVideoPlayer`. The engines hand cues over as soon as
+ * they are parsed — usually a segment or more ahead of the playhead — via
+ * `enqueue`; the player's `timeupdate` then releases each one to
+ * `onMetadataCue` once playback reaches its time. Cues are de-duplicated
+ * (playlist refreshes repeat every DATERANGE, rendition switches repeat ID3),
+ * and a seek drops the cues it jumped over, except date ranges that are
+ * still running. The first timeupdate of a source delivers everything due.
+ *
+ * De-duplication keys are dropped once their cue falls out of the seekable
+ * window, so a 24/7 live stream doesn't grow the set forever; cues that old
+ * are ignored on arrival, which keeps a late repeat from firing again.
+ */
+export function useTimedMetadata(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  options: UseTimedMetadataOptions,
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  /** Not yet delivered, sorted by time */
+  const pendingRef = useRef<MetadataCue[]>([]);
+  /** De-duplication key → `getCueEnd` of the cue */
+  const seenRef = useRef(new Map<string, number>());
+  /** Start of the seekable window at the last timeupdate; older cues are forgotten */
+  const horizonRef = useRef(0);
+  /** Playhead at the last timeupdate; null after a seek or source change */
+  const lastTimeRef = useRef<number | null>(null);
+  /** The null in `lastTimeRef` came from a seek rather than a new source */
+  const seekedRef = useRef(false);
+
+  const enqueue = useCallback((cues: MetadataCue[]) => {
+    if (!optionsRef.current.onMetadataCue) return;
+    let added = false;
+    for (const cue of cues) {
+      const key = getCueKey(cue);
+      const end = getCueEnd(cue);
+      if (seenRef.current.has(key) || end < horizonRef.current) continue;
+      seenRef.current.set(key, end);
+      pendingRef.current.push(cue);
+      added = true;
+    }
+    if (added) pendingRef.current.sort((a, b) => a.time - b.time);
+  }, []);
+
+  /** New source: forget everything queued and delivered */
+  const reset = useCallback(() => {
+    pendingRef.current = [];
+    seenRef.current = new Map();
+    horizonRef.current = 0;
+    lastTimeRef.current = null;
+    seekedRef.current = false;
+  }, []);
+
+  const handleSeeking = useCallback(() => {
+    lastTimeRef.current = null;
+    seekedRef.current = true;
+  }, []);
+
+  const handleTimeUpdate = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const time = video.currentTime;
+    const last = lastTimeRef.current;
+    const jumped =
+      last === null ? seekedRef.current : time < last || time - last > MAX_TIMEUPDATE_GAP;
+    lastTimeRef.current = time;
+    seekedRef.current = false;
+
+    const { seekable } = video;
+    const horizon = seekable.length ? seekable.start(0) : 0;
+    if (horizon > horizonRef.current) {
+      horizonRef.current = horizon;
+      for (const [key, end] of seenRef.current) {
+        if (end < horizon) seenRef.current.delete(key);
+      }
+    }
+
+    const pending = pendingRef.current;
+    let i = 0;
+    while (i < pending.length && pending[i].time <= time) i++;
+    if (!i) return;
+    const due = pending.splice(0, i);
+    for (const cue of due) {
+      if (jumped && !isActive(cue, time)) continue;
+      optionsRef.current.onMetadataCue?.(cue);
+    }
+  }, [videoRef]);
+
+  return { enqueue, reset, handleSeeking, handleTimeUpdate };
+}
@@ -5,22 +5,90 @@ import HLS, { Events } from "hls.js";
 import type {
   PlayerState,
   VideoPlayerRef,
+  BufferedRange,
   PlaybackRate,
   HLSQualityLevel,
   VideoError,
   VideoErrorCode,
+  SubtitleTrack,
+  PersistPreferencesOptions,
+  PlayerPreferences,
+  RetryPolicy,
+  RetryEvent,
+  DRMConfig,
+  RetryErrorType,
 } from "../lib/types";
 import type { HlsConfig } from "hls.js";
-import { isHLSUrl } from "../lib/format";
-import { buildQualityLevels } from "../lib/hls";
+import { getSourceKind } from "../lib/sources";
+import {
+  createHLSController,
+  type HLSController,
+  buildQualityLevels,
+  buildAudioTracks,
+  buildSubtitleTracks,
+  parseHLSSubtitleId,
+} from "../lib/hls";
+import { createDASHController, type DASHController } from "../lib/dash";
+import { buildHLSDrmConfig, attachNativeEME } from "../lib/drm";
+import {
+  getNativeAudioTrackList,
+  readNativeAudioTracks,
+  readNativeSubtitleTracks,
+  selectNativeAudioTrack,
+} from "../lib/tracks";
+import { startPrefetch, isSaveDataEnabled } from "../lib/prefetch";
+import { pickQualityLevel, pickSubtitleTrack } from "../lib/preferences";
+import {
+  getLiveWindow as readLiveWindow,
+  isAtLiveEdge,
+  resolveLiveLatency,
+  buildHLSLatencyConfig,
+  buildDASHLatencySettings,
+  measureLiveLatency,
+} from "../lib/live";
+import {
+  buildDateRangeCue,
+  createID3Cue,
+  getNativeStartDate,
+  getProgramDateTime as readProgramDateTime,
+  groupNativeMetadataCues,
+} from "../lib/metadata";
+import { createVideoError, isNetworkError } from "../lib/errors";
+import { createPlayerStore, DEFAULT_PLAYER_STATE } from "../lib/store";
+import { usePlaylist, type UsePlaylistOptions } from "./usePlaylist";
+import { useChapters, type UseChaptersOptions } from "./useChapters";
+import { usePreferences } from "./usePreferences";
+import { useResume, type UseResumeOptions } from "./useResume";
+import { useSources, type UseSourcesOptions } from "./useSources";
+import { useAnalytics, type UseAnalyticsOptions } from "./useAnalytics";
+import { useAds, type UseAdsOptions } from "./useAds";
+import { useLiveLatency, type UseLiveLatencyOptions } from "./useLiveLatency";
+import { useTimedMetadata, type UseTimedMetadataOptions } from "./useTimedMetadata";
+import { useStoreState } from "./useStoreState";
+import { useControlled, type UseControlledOptions } from "./useControlled";
 
-interface UseVideoPlayerOptions {
+interface UseVideoPlayerOptions
+  extends UsePlaylistOptions,
+    UseChaptersOptions,
+    UseResumeOptions,
+    UseAnalyticsOptions,
+    UseSourcesOptions,
+    UseAdsOptions,
+    UseLiveLatencyOptions,
+    UseTimedMetadataOptions,
+    UseControlledOptions {
   autoplay?: boolean;
-  muted?: boolean;
   loop?: boolean;
   playbackRates?: PlaybackRate[];
   enableHLS?: boolean;
+  enableDASH?: boolean;
+  enablePrefetch?: boolean;
+  subtitles?: SubtitleTrack[];
   hlsConfig?: Partial<HlsConfig>;
+  retryPolicy?: RetryPolicy;
+  onRetry?: (event: RetryEvent) => void;
+  drm?: DRMConfig;
+  persistPreferences?: boolean | PersistPreferencesOptions;
   onPlay?: () => void;
   onPause?: () => void;
   onEnded?: () => void;
@@ -31,57 +99,230 @@ interface UseVideoPlayerOptions {
   onTheaterModeChange?: (isTheater: boolean) => void;
 }
 
-const DEFAULT_STATE: PlayerState = {
-  isPlaying: false,
-  currentTime: 0,
-  duration: 0,
-  volume: 1,
-  isMuted: false,
-  playbackRate: 1,
-  isFullscreen: false,
-  isPictureInPicture: false,
-  isTheaterMode: false,
-  isBuffering: false,
-  bufferedRanges: [],
-  error: null,
-  isLive: false,
-  qualityLevels: [],
-  currentQualityLevel: -1,
+/**
+ * Minimum gap between `currentTime` / `bufferedRanges` writes to the store.
+ * The last position of a burst is always written, just up to this late.
+ */
+const TIME_SYNC_INTERVAL_MS = 250;
+
+const NO_SUBTITLES: SubtitleTrack[] = [];
+
+const HLS_ERROR_CODES: Record<RetryErrorType, VideoErrorCode> = {
+  network: "HLS_NETWORK_ERROR",
+  media: "HLS_MEDIA_ERROR",
+  other: "HLS_FATAL_ERROR",
 };
 
+/** The element's buffered ranges, or `prev` itself when they haven't moved */
+function readBufferedRanges(video: HTMLVideoElement, prev: BufferedRange[]): BufferedRange[] {
+  const { buffered } = video;
+  let same = buffered.length === prev.length;
+  for (let i = 0; same && i < buffered.length; i++) {
+    same = buffered.start(i) === prev[i].start && buffered.end(i) === prev[i].end;
+  }
+  if (same) return prev;
+  const ranges: BufferedRange[] = [];
+  for (let i = 0; i < buffered.length; i++) {
+    ranges.push({ start: buffered.start(i), end: buffered.end(i) });
+  }
+  return ranges;
+}
+
+function getDefaultSubtitleTrack(tracks: SubtitleTrack[]): string | null {
+  return tracks.find((t) => t.default)?.id ?? null;
+}
+
+/** Initial sidecar track: the user's saved language, else the `default` track */
+function getInitialSubtitleTrack(
+  tracks: SubtitleTrack[],
+  prefs: Partial<PlayerPreferences>,
+): string | null {
+  if (prefs.subtitleLanguage === null) return null;
+  if (prefs.subtitleLanguage) {
+    const match = pickSubtitleTrack(tracks, prefs.subtitleLanguage);
+    if (match) return match.id;
+  }
+  return getDefaultSubtitleTrack(tracks);
+}
+
 export function useVideoPlayer(
   videoRef: React.RefObject<HTMLVideoElement | null>,
-  src: string,
+  src: string | undefined,
   options: UseVideoPlayerOptions = {},
 ) {
   const hlsRef = useRef<HLS | null>(null);
   const fullscreenContainerRef = useRef<HTMLElement | null>(null);
   const lastVolumeRef = useRef<number>(1);
-  const networkRetriesRef = useRef<number>(0);
+  const controllerRef = useRef<HLSController | null>(null);
+  const dashRef = useRef<DASHController | null>(null);
+  /** Set by engines that know a stream is live before `duration` says so (DASH) */
+  const engineLiveRef = useRef(false);
 
   // ── Stable refs so effects never need options/state in their dep arrays ──────
   const optionsRef = useRef(options);
   optionsRef.current = options;
 
-  const [state, setState] = useState<PlayerState>({
-    ...DEFAULT_STATE,
-    isMuted: options.muted ?? false,
-    volume: options.muted ? 0 : 1,
-  });
+  // Declared before the source effect so stored values are loaded first
+  const { preferencesRef, savePreferences } = usePreferences(options.persistPreferences);
+
+  const {
+    startPlayback,
+    resumePlayback,
+    requestPlaying,
+    requestVolume,
+    requestPlaybackRate,
+    requestSeek,
+    handleLoadedMetadata: handleControlledMetadata,
+  } = useControlled(videoRef, options);
+
+  const playlist = usePlaylist(videoRef, options, resumePlayback);
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
+
+  const sources = useSources(videoRef, options, resumePlayback);
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+
+  // The active playlist item overrides the top-level sources / src / subtitles
+  const activeSource = playlist.item ? null : sources.source;
+  // `src` is held back while `sources` are being probed, so it never loads first
+  const activeSrc =
+    playlist.item?.src ?? activeSource?.src ?? (sources.pending ? "" : src) ?? "";
+  const activeType = activeSource?.type;
+  const activeSrcRef = useRef(activeSrc);
+  activeSrcRef.current = activeSrc;
+  const sidecarSubtitleTracks =
+    (playlist.item ? playlist.item.subtitles : options.subtitles) ?? NO_SUBTITLES;
+
+  const resume = useResume(
+    videoRef,
+    playlist.item ? playlist.item.resumeKey : options.resumeKey,
+    options,
+  );
+  const resumeRef = useRef(resume);
+  resumeRef.current = resume;
+
+  const analytics = useAnalytics(videoRef, options);
+
+  const metadata = useTimedMetadata(videoRef, options);
+  const metadataRef = useRef(metadata);
+  metadataRef.current = metadata;
+  const { sessionRef: analyticsRef, lastPositionRef } = analytics;
+
+  // Renditions declared inside the stream (hls.js or Safari's native engine)
+  const [embeddedSubtitleTracks, setEmbeddedSubtitleTracks] =
+    useState<SubtitleTrack[]>(NO_SUBTITLES);
 
-  const stateRef = useRef(state);
-  stateRef.current = state;
+  const subtitleTracks = useMemo(
+    () =>
+      embeddedSubtitleTracks.length
+        ? [...sidecarSubtitleTracks, ...embeddedSubtitleTracks]
+        : sidecarSubtitleTracks,
+    [sidecarSubtitleTracks, embeddedSubtitleTracks],
+  );
+  const subtitleTracksRef = useRef(subtitleTracks);
+  subtitleTracksRef.current = subtitleTracks;
+
+  // State lives in a store rather than React state, so each component
+  // subscribes to the slices it reads instead of re-rendering on every change
+  const [store] = useState(() =>
+    createPlayerStore({
+      ...DEFAULT_PLAYER_STATE,
+      isMuted: options.muted ?? false,
+      volume: options.muted ? 0 : options.volume ?? 1,
+      activeSubtitleTrack: getDefaultSubtitleTrack(sidecarSubtitleTracks),
+      playlistIndex: playlist.index,
+      repeatMode: playlist.repeatMode,
+      isShuffled: playlist.isShuffled,
+      subtitleTracks,
+    }),
+  );
+  const setState = store.setState;
+
+  // The few slices this hook itself renders from
+  const duration = useStoreState(store, (s) => s.duration);
+  const isLive = useStoreState(store, (s) => s.isLive);
+
+  const { chapters, currentChapterIndex } = useChapters(
+    videoRef,
+    duration,
+    options,
+  );
+
+  const liveLatency = useLiveLatency(videoRef, isLive, options);
+  const liveLatencyRef = useRef(liveLatency);
+  liveLatencyRef.current = liveLatency;
+
+  const ads = useAds(videoRef, activeSrc, duration, options, resumePlayback);
+  const adsRef = useRef(ads);
+  adsRef.current = ads;
+
+  // Fields owned by the sibling hooks, mirrored into the store
+  useEffect(() => {
+    setState({
+      playlistIndex: playlist.index,
+      repeatMode: playlist.repeatMode,
+      isShuffled: playlist.isShuffled,
+      chapters,
+      currentChapterIndex,
+      subtitleTracks,
+      liveLatency: liveLatency.latency,
+    });
+  }, [
+    setState,
+    subtitleTracks,
+    liveLatency.latency,
+    playlist.index,
+    playlist.repeatMode,
+    playlist.isShuffled,
+    chapters,
+    currentChapterIndex,
+  ]);
+
+  /**
+   * True from the moment a source is torn down until the new one reports
+   * metadata. Errors raised by the detached element in that window (aborted
+   * loads, the empty src hls.js leaves behind) are not real playback errors.
+   */
+  const switchingSourceRef = useRef(false);
+
+  /** Bumped by `retry` to run the source effect again for the same source */
+  const [reloadCount, setReloadCount] = useState(0);
+  /** Where `retry` picks up; applied on the next loadedmetadata, like a failover */
+  const retryAtRef = useRef<{ src: string; time: number; play: boolean } | null>(null);
+
+  /**
+   * Select an in-stream rendition in the user's saved subtitle language when
+   * no sidecar track already matched it. Restoring is not a new choice, so
+   * nothing is saved.
+   */
+  const restorePreferredEmbeddedTrack = useCallback((tracks: SubtitleTrack[]) => {
+    const lang = preferencesRef.current.subtitleLanguage;
+    if (!lang) return;
+    const current = subtitleTracksRef.current.find(
+      (t) => t.id === store.getState().activeSubtitleTrack,
+    );
+    if (current && pickSubtitleTrack([current], lang)) return;
+    const match = pickSubtitleTrack(tracks, lang);
+    if (!match) return;
+    const hls = hlsRef.current;
+    if (hls) hls.subtitleTrack = parseHLSSubtitleId(match.id);
+    setState((prev) => ({ ...prev, activeSubtitleTrack: match.id }));
+  }, [store, preferencesRef]);
 
   // ─── Source / HLS initialisation ────────────────────────────────────────────
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
 
-    if (hlsRef.current) {
-      hlsRef.current.destroy();
-      hlsRef.current = null;
-    }
-    networkRetriesRef.current = 0;
+    switchingSourceRef.current = true;
+    controllerRef.current?.destroy();
+    controllerRef.current = null;
+    hlsRef.current = null;
+    dashRef.current?.destroy();
+    dashRef.current = null;
+    engineLiveRef.current = false;
+    let cancelled = false;
 
     setState((prev) => ({
       ...prev,
@@ -90,113 +331,326 @@ export function useVideoPlayer(
       error: null,
       isBuffering: false,
       isLive: false,
+      isAtLiveEdge: false,
       qualityLevels: [],
       currentQualityLevel: -1,
+      isPrefetching: false,
+      prefetchedAhead: 0,
+      activeSubtitleTrack: getInitialSubtitleTrack(
+        subtitleTracksRef.current.filter((t) => !t.embedded),
+        preferencesRef.current,
+      ),
+      audioTracks: [],
+      currentAudioTrack: -1,
     }));
+    setEmbeddedSubtitleTracks(NO_SUBTITLES);
 
-    if (!src) return;
+    if (!activeSrc) return;
 
+    analytics.startSession(activeSrc);
+    metadataRef.current.reset();
     const opts = optionsRef.current;
+    // Playlist switches (next / autoplay-next) start the new item playing;
+    // a controlled `playing` takes over from `autoplay`
+    const autoplay =
+      (opts.playing ?? !!opts.autoplay) || playlistRef.current.autoplayPendingRef.current;
+    playlistRef.current.autoplayPendingRef.current = false;
+    const latency = resolveLiveLatency(opts.liveLatency);
 
-    if (opts.enableHLS !== false && isHLSUrl(src)) {
+    // Native EME for sources no engine manages keys for; attached before `src`
+    let detachEME: (() => void) | null = null;
+    const attachEME = () => {
+      if (!opts.drm) return;
+      detachEME = attachNativeEME(video, opts.drm, (err) => {
+        if (cancelled) return;
+        setState((prev) => ({ ...prev, error: err }));
+        optionsRef.current.onError?.(err);
+        analyticsRef.current?.error(err, true);
+      });
+    };
+
+    const kind = getSourceKind({ src: activeSrc, type: activeType });
+    if (opts.enableHLS !== false && kind === "hls") {
       if (video.canPlayType("application/vnd.apple.mpegurl")) {
         // Native HLS (Safari) – no HLS.js instance needed
-        video.src = src;
+        attachEME();
+        video.src = activeSrc;
         video.load();
-        if (opts.autoplay) video.play().catch(() => {});
-      } else if (HLS.isSupported()) {
-        const hls = new HLS({
-          autoStartLoad: true,
-          startLevel: -1,
-          capLevelToPlayerSize: true,
-          capLevelOnFPSDrop: true,
-          enableWorker: true,
-          maxBufferLength: 30,
-          maxMaxBufferLength: 600,
-          maxBufferSize: 60 * 1000 * 1000,
-          liveBackBufferLength: 30,
-          liveSyncDurationCount: 3,
-          ...opts.hlsConfig,
+        if (autoplay) resumePlayback(video);
+      } else {
+        const controller = createHLSController(video, activeSrc, {
+          config: {
+            ...(opts.drm && buildHLSDrmConfig(opts.drm)),
+            ...(latency && buildHLSLatencyConfig(latency)),
+            ...opts.hlsConfig,
+          },
+          retryPolicy: opts.retryPolicy,
+          onRetry: (event) => {
+            optionsRef.current.onRetry?.(event);
+            analyticsRef.current?.error(
+              createVideoError(HLS_ERROR_CODES[event.errorType], event.details, event.details),
+              false,
+            );
+          },
+          onFatalError: (err, errorType) => {
+            if (errorType === "network" && sourcesRef.current.failover(activeSrc)) {
+              analyticsRef.current?.error(err, false);
+              return;
+            }
+            // "other" errors leave the instance destroyed
+            if (errorType === "other" && controllerRef.current === controller) {
+              controllerRef.current = null;
+              hlsRef.current = null;
+            }
+            setState((prev) => ({ ...prev, error: err }));
+            optionsRef.current.onError?.(err);
+            analyticsRef.current?.error(err, true);
+          },
         });
+        // null when the browser has no MSE support
+        if (controller) {
+          const hls = controller.hls;
 
-        hls.attachMedia(video);
-        hls.loadSource(src);
-
-        hls.on(Events.MANIFEST_PARSED, (_, data) => {
-          const levels: HLSQualityLevel[] = buildQualityLevels(data.levels);
-          setState((prev) => ({
-            ...prev,
-            qualityLevels: levels,
-            currentQualityLevel: -1,
-          }));
-          if (optionsRef.current.autoplay) video.play().catch(() => {});
-        });
+          hls.on(Events.MANIFEST_PARSED, (_, data) => {
+            const levels: HLSQualityLevel[] = buildQualityLevels(data.levels);
+            const height = preferencesRef.current.qualityHeight;
+            const level = height != null ? pickQualityLevel(levels, height) : -1;
+            if (level !== -1) hls.currentLevel = level;
+            setState((prev) => ({
+              ...prev,
+              qualityLevels: levels,
+              currentQualityLevel: level,
+            }));
+            if (autoplay) resumePlayback(video);
+          });
 
-        hls.on(Events.LEVEL_SWITCHED, (_, data) => {
-          setState((prev) => ({ ...prev, currentQualityLevel: data.level }));
-        });
+          hls.on(Events.LEVEL_SWITCHED, (_, data) => {
+            setState((prev) => ({ ...prev, currentQualityLevel: data.level }));
+            const level = buildQualityLevels(hls.levels)[data.level];
+            if (level) analyticsRef.current?.qualityChange(level);
+          });
 
-        const MAX_RETRIES = 3;
-        hls.on(Events.ERROR, (_, data) => {
-          if (!data.fatal) {
-            console.warn("[hls] non-fatal:", data.details);
-            return;
-          }
-          switch (data.type) {
-            case HLS.ErrorTypes.NETWORK_ERROR:
-              if (networkRetriesRef.current < MAX_RETRIES) {
-                networkRetriesRef.current += 1;
-                const delay = 1000 * networkRetriesRef.current;
-                console.warn(
-                  `[hls] network error – retry ${networkRetriesRef.current}/${MAX_RETRIES} in ${delay}ms`,
-                );
-                // Guard against retry firing after this HLS instance was replaced/destroyed
-                setTimeout(() => {
-                  if (hlsRef.current === hls) hls.startLoad();
-                }, delay);
-              } else {
-                const err: VideoError = {
-                  code: "HLS_NETWORK_ERROR",
-                  message: "Failed to load stream after multiple retries.",
-                };
-                setState((prev) => ({ ...prev, error: err }));
-                optionsRef.current.onError?.(err);
-              }
-              break;
-            case HLS.ErrorTypes.MEDIA_ERROR:
-              console.warn("[hls] media error – recovering");
-              hls.recoverMediaError();
-              break;
-            default: {
-              hls.destroy();
-              hlsRef.current = null;
-              const fatalErr: VideoError = {
-                code: "HLS_FATAL_ERROR",
-                message: "An unrecoverable HLS error occurred.",
-              };
-              setState((prev) => ({ ...prev, error: fatalErr }));
-              optionsRef.current.onError?.(fatalErr);
-              break;
-            }
-          }
-        });
+          // Timed metadata is parsed ahead of the playhead and queued until reached
+          hls.on(Events.FRAG_PARSING_METADATA, (_, data) => {
+            const cues = data.samples.map((sample) => createID3Cue(sample.pts, sample.data));
+            metadataRef.current.enqueue(cues.filter((cue) => cue !== null));
+          });
+
+          hls.on(Events.LEVEL_UPDATED, (_, data) => {
+            const cues = Object.values(data.details.dateRanges).map(
+              (range) => range && buildDateRangeCue(range),
+            );
+            metadataRef.current.enqueue(cues.filter((cue) => !!cue));
+          });
+
+          hls.on(Events.FRAG_LOADED, (_, data) => {
+            if (data.frag.type !== "main") return;
+            const { loaded, loading } = data.frag.stats;
+            analyticsRef.current?.fragLoaded(loaded, loading.end - loading.start);
+          });
+
+          // Alternate renditions (EXT-X-MEDIA). Subtitle cues are kept off the
+          // native renderer so SubtitleOverlay can draw them like sidecar tracks.
+          hls.subtitleDisplay = false;
 
-        hlsRef.current = hls;
+          hls.on(Events.AUDIO_TRACKS_UPDATED, (_, data) => {
+            setState((prev) => ({
+              ...prev,
+              audioTracks: buildAudioTracks(data.audioTracks),
+              currentAudioTrack: hls.audioTrack,
+            }));
+          });
+
+          hls.on(Events.AUDIO_TRACK_SWITCHED, (_, data) => {
+            setState((prev) => ({ ...prev, currentAudioTrack: data.id }));
+          });
+
+          hls.on(Events.SUBTITLE_TRACKS_UPDATED, (_, data) => {
+            const tracks = buildSubtitleTracks(data.subtitleTracks);
+            setEmbeddedSubtitleTracks(tracks);
+            restorePreferredEmbeddedTrack(tracks);
+          });
+
+          hls.on(Events.SUBTITLE_TRACK_SWITCH, (_, data) => {
+            setState((prev) => {
+              if (data.id >= 0) return { ...prev, activeSubtitleTrack: `hls-${data.id}` };
+              // Only clear when hls.js turned off one of its own tracks
+              return parseHLSSubtitleId(prev.activeSubtitleTrack) === -1
+                ? prev
+                : { ...prev, activeSubtitleTrack: null };
+            });
+          });
+
+          controllerRef.current = controller;
+          hlsRef.current = hls;
+        }
       }
+    } else if (opts.enableDASH !== false && kind === "dash") {
+      let levels: HLSQualityLevel[] = [];
+      createDASHController(video, activeSrc, {
+        autoplay,
+        drm: opts.drm,
+        settings: latency ? buildDASHLatencySettings(latency) : undefined,
+        onQualityLevels: (next) => {
+          if (cancelled) return;
+          levels = next;
+          const height = preferencesRef.current.qualityHeight;
+          const level = height != null ? pickQualityLevel(levels, height) : -1;
+          if (level !== -1) dashRef.current?.setQualityLevel(level);
+          setState((prev) => ({ ...prev, qualityLevels: levels, currentQualityLevel: level }));
+        },
+        onLevelSwitched: (level) => {
+          if (cancelled) return;
+          setState((prev) => ({ ...prev, currentQualityLevel: level }));
+          const info = levels.find((l) => l.id === level);
+          if (info) analyticsRef.current?.qualityChange(info);
+        },
+        onLiveChange: (isLive) => {
+          if (cancelled) return;
+          engineLiveRef.current = isLive;
+          if (isLive) {
+            setState((prev) => ({
+              ...prev,
+              isLive: true,
+              isAtLiveEdge: prev.isLive ? prev.isAtLiveEdge : true,
+              duration: 0,
+            }));
+          }
+        },
+        onFatalError: (err) => {
+          if (cancelled) return;
+          if (err.code === "DASH_NETWORK_ERROR" && sourcesRef.current.failover(activeSrc)) {
+            analyticsRef.current?.error(err, false);
+            return;
+          }
+          setState((prev) => ({ ...prev, error: err }));
+          optionsRef.current.onError?.(err);
+          analyticsRef.current?.error(err, true);
+        },
+      }).then((controller) => {
+        // The source changed while dash.js was loading
+        if (cancelled) controller?.destroy();
+        else dashRef.current = controller;
+      });
     } else {
       // Regular video (mp4, webm, etc.)
-      video.src = src;
+      attachEME();
+      video.src = activeSrc;
       video.load();
-      if (opts.autoplay) video.play().catch(() => {});
+      if (autoplay) resumePlayback(video);
     }
 
     return () => {
-      if (hlsRef.current) {
-        hlsRef.current.destroy();
-        hlsRef.current = null;
+      cancelled = true;
+      detachEME?.();
+      analytics.endSession();
+      controllerRef.current?.destroy();
+      controllerRef.current = null;
+      hlsRef.current = null;
+      dashRef.current?.destroy();
+      dashRef.current = null;
+    };
+    // playlist.index is a dep so two items sharing a URL still reload;
+    // reloadCount so `retry` rebuilds the engine for the same one
+  }, [
+    activeSrc,
+    activeType,
+    playlist.index,
+    reloadCount,
+    videoRef,
+    preferencesRef,
+    restorePreferredEmbeddedTrack,
+    analytics.startSession,
+    analytics.endSession,
+    analyticsRef,
+    resumePlayback,
+  ]);
+
+  // ─── Native (Safari) audio / in-band subtitle tracks ────────────────────────
+  useEffect(() => {
+    const video = videoRef.current;
+    // hls.js reports its own renditions through the events above
+    if (!video || !activeSrc || hlsRef.current) return;
+
+    const syncAudio = () => {
+      const { tracks, current } = readNativeAudioTracks(video);
+      setState((prev) => ({ ...prev, audioTracks: tracks, currentAudioTrack: current }));
+    };
+    const syncSubtitles = () => {
+      const tracks = readNativeSubtitleTracks(video);
+      setEmbeddedSubtitleTracks(tracks.length ? tracks : NO_SUBTITLES);
+      restorePreferredEmbeddedTrack(tracks);
+    };
+
+    // ID3 / DATERANGE cues land on hidden "metadata" text tracks as they play
+    const metadataTracks = new Set<TextTrack>();
+    const handleCueChange = (e: Event) => {
+      const cues = Array.from((e.target as TextTrack).activeCues ?? []);
+      if (cues.length) {
+        metadataRef.current.enqueue(groupNativeMetadataCues(cues, getNativeStartDate(video)));
       }
     };
-  }, [src, videoRef]);
+    const syncMetadata = () => {
+      for (const track of Array.from(video.textTracks)) {
+        if (track.kind !== "metadata" || metadataTracks.has(track)) continue;
+        track.mode = "hidden";
+        track.addEventListener("cuechange", handleCueChange);
+        metadataTracks.add(track);
+      }
+    };
+
+    const audioList = getNativeAudioTrackList(video);
+    audioList?.addEventListener("addtrack", syncAudio);
+    audioList?.addEventListener("removetrack", syncAudio);
+    audioList?.addEventListener("change", syncAudio);
+    video.textTracks.addEventListener("addtrack", syncSubtitles);
+    video.textTracks.addEventListener("removetrack", syncSubtitles);
+    video.textTracks.addEventListener("addtrack", syncMetadata);
+    syncAudio();
+    syncSubtitles();
+    syncMetadata();
+
+    return () => {
+      audioList?.removeEventListener("addtrack", syncAudio);
+      audioList?.removeEventListener("removetrack", syncAudio);
+      audioList?.removeEventListener("change", syncAudio);
+      video.textTracks.removeEventListener("addtrack", syncSubtitles);
+      video.textTracks.removeEventListener("removetrack", syncSubtitles);
+      video.textTracks.removeEventListener("addtrack", syncMetadata);
+      metadataTracks.forEach((track) => track.removeEventListener("cuechange", handleCueChange));
+    };
+  }, [activeSrc, videoRef, restorePreferredEmbeddedTrack]);
+
+  const getLiveWindow = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !store.getState().isLive) return null;
+    const dash = dashRef.current;
+    return readLiveWindow(video, {
+      hls: hlsRef.current,
+      dashLiveDelay: dash ? dash.player.getTargetLiveDelay() || 0 : 0,
+    });
+  }, [store, videoRef]);
+
+  const getProgramDateTime = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return null;
+    const dash = dashRef.current;
+    return readProgramDateTime(video, {
+      hls: hlsRef.current,
+      // A static MPD has no wall clock; its "UTC" time counts from 1970
+      dashUTC: dash && store.getState().isLive ? dash.player.timeAsUTC() : undefined,
+    });
+  }, [store, videoRef]);
+
+  const measureLatency = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !store.getState().isLive) return null;
+    const dash = dashRef.current;
+    return measureLiveLatency(video, {
+      hls: hlsRef.current,
+      dashLatency: dash ? dash.player.getCurrentLiveLatency() : undefined,
+    });
+  }, [store, videoRef]);
 
   // ─── Video element event listeners ──────────────────────────────────────────
   useEffect(() => {
@@ -206,27 +660,84 @@ export function useVideoPlayer(
     if (optionsRef.current.muted) video.muted = true;
     if (optionsRef.current.loop) video.loop = true;
 
+    // ── Position and buffer, throttled: the store sees at most one write per interval ──
+    let lastTimeSync = 0;
+    let timeSyncTimer: ReturnType<typeof setTimeout> | null = null;
+    const syncTime = () => {
+      if (timeSyncTimer) clearTimeout(timeSyncTimer);
+      timeSyncTimer = null;
+      lastTimeSync = performance.now();
+      setState((prev) => ({
+        currentTime: video.currentTime,
+        bufferedRanges: readBufferedRanges(video, prev.bufferedRanges),
+      }));
+    };
+    const scheduleTimeSync = () => {
+      const wait = TIME_SYNC_INTERVAL_MS - (performance.now() - lastTimeSync);
+      if (wait <= 0) syncTime();
+      else if (!timeSyncTimer) timeSyncTimer = setTimeout(syncTime, wait);
+    };
+
     const handlePlay = () => {
+      // Held back for a pre-roll or a break in progress
+      if (adsRef.current.handlePlay()) return;
       setState((prev) => ({ ...prev, isPlaying: true }));
       optionsRef.current.onPlay?.();
+      optionsRef.current.onPlayingChange?.(true);
+      analyticsRef.current?.play();
     };
     const handlePause = () => {
       setState((prev) => ({ ...prev, isPlaying: false }));
+      syncTime();
       optionsRef.current.onPause?.();
+      optionsRef.current.onPlayingChange?.(false);
+      resumeRef.current.handlePause();
+      analyticsRef.current?.pause();
     };
     const handleEnded = () => {
       setState((prev) => ({ ...prev, isPlaying: false }));
+      syncTime();
       optionsRef.current.onEnded?.();
+      analyticsRef.current?.ended();
+      resumeRef.current.handleEnded();
+      adsRef.current.handleEnded(() => playlistRef.current.handleEnded());
     };
     const handleTimeUpdate = () => {
-      // currentTime is NOT stored in React state — ProgressBar and TimeDisplay
-      // subscribe to the video element directly, eliminating re-renders on every tick.
+      scheduleTimeSync();
       optionsRef.current.onTimeUpdate?.(video.currentTime);
+      resumeRef.current.handleTimeUpdate();
+      adsRef.current.handleTimeUpdate();
+      metadataRef.current.handleTimeUpdate();
+      if (store.getState().isLive) {
+        const live = getLiveWindow();
+        const atEdge = isAtLiveEdge(live, video.currentTime);
+        if (atEdge !== store.getState().isAtLiveEdge) {
+          setState((prev) => ({ ...prev, isAtLiveEdge: atEdge }));
+        }
+        liveLatencyRef.current.handleTimeUpdate(measureLatency(), live);
+      }
+      if (!video.seeking) lastPositionRef.current = video.currentTime;
+    };
+    const handleSeeking = () => {
+      metadataRef.current.handleSeeking();
+      analyticsRef.current?.seek(lastPositionRef.current, video.currentTime);
+      lastPositionRef.current = video.currentTime;
+    };
+    const handleSeeked = () => {
+      syncTime();
+      optionsRef.current.onCurrentTimeChange?.(video.currentTime);
+      if (store.getState().isLive) liveLatencyRef.current.handleSeeked(measureLatency());
     };
     const handleDurationChange = () => {
       const dur = video.duration;
-      const live = !Number.isFinite(dur);
-      setState((prev) => ({ ...prev, duration: live ? 0 : dur, isLive: live }));
+      const live = !Number.isFinite(dur) || engineLiveRef.current;
+      setState((prev) => ({
+        ...prev,
+        duration: live ? 0 : dur,
+        isLive: live,
+        // A stream starts out at the edge; timeupdate tracks it from there
+        isAtLiveEdge: live && (prev.isLive ? prev.isAtLiveEdge : true),
+      }));
       if (!live) optionsRef.current.onDurationChange?.(dur);
     };
     const handleVolumeChange = () => {
@@ -237,40 +748,70 @@ export function useVideoPlayer(
         volume: vol,
         isMuted: video.muted || vol === 0,
       }));
+      optionsRef.current.onVolumeChange?.(vol, video.muted);
     };
     const handleRateChange = () => {
+      // Live catch-up adjusts the rate behind the scenes; keep the viewer's
+      if (liveLatencyRef.current.handleRateChange()) return;
       setState((prev) => ({ ...prev, playbackRate: video.playbackRate }));
+      optionsRef.current.onPlaybackRateChange?.(video.playbackRate as PlaybackRate);
+    };
+    const handleLoadedMetadata = () => {
+      switchingSourceRef.current = false;
+      // load() resets the rate to defaultPlaybackRate
+      const rate = optionsRef.current.playbackRate ?? preferencesRef.current.playbackRate;
+      if (rate && video.playbackRate !== rate) video.playbackRate = rate;
+      // A retry position, then a controlled or failover one, win over the saved resume position
+      if (
+        !restoreRetryPosition() &&
+        !handleControlledMetadata() &&
+        !sourcesRef.current.handleLoadedMetadata()
+      ) {
+        resumeRef.current.handleLoadedMetadata();
+      }
+    };
+    const restoreRetryPosition = (): boolean => {
+      const retryAt = retryAtRef.current;
+      if (!retryAt || retryAt.src !== activeSrcRef.current) return false;
+      retryAtRef.current = null;
+      if (retryAt.time > 0) video.currentTime = retryAt.time;
+      if (retryAt.play) resumePlayback(video);
+      return true;
     };
     const handleError = () => {
       const e = video.error;
       if (!e) return;
+      if (switchingSourceRef.current && (e.code === 1 || !video.getAttribute("src"))) return;
       const codeMap: Partial<Record<number, VideoErrorCode>> = {
         1: "MEDIA_ERR_ABORTED",
         2: "MEDIA_ERR_NETWORK",
         3: "MEDIA_ERR_DECODE",
         4: "MEDIA_ERR_SRC_NOT_SUPPORTED",
       };
-      const err: VideoError = {
-        code: codeMap[e.code] ?? "UNKNOWN",
-        message: e.message || "Unknown media error",
-      };
+      const err = createVideoError(codeMap[e.code] ?? "UNKNOWN", e.message || "Unknown media error");
+      if (err.code === "MEDIA_ERR_NETWORK" && sourcesRef.current.failover(activeSrcRef.current)) {
+        analyticsRef.current?.error(err, false);
+        return;
+      }
       setState((prev) => ({ ...prev, error: err }));
       optionsRef.current.onError?.(err);
+      analyticsRef.current?.error(err, true);
     };
     const handleWaiting = () => {
       setState((prev) => ({ ...prev, isBuffering: true }));
       optionsRef.current.onBuffering?.(true);
+      analyticsRef.current?.waiting(video.seeking);
     };
     const handleCanPlay = () => {
       setState((prev) => ({ ...prev, isBuffering: false }));
       optionsRef.current.onBuffering?.(false);
     };
-    const handlePlaying = () =>
+    const handlePlaying = () => {
       setState((prev) => ({ ...prev, isBuffering: false }));
-    const handleProgress = () => {
-      // bufferedRanges are NOT stored in React state — ProgressBar subscribes
-      // to the video element's progress event directly.
+      analyticsRef.current?.playing();
     };
+    // A live window also slides on segment loads, paused or not
+    const handleProgress = scheduleTimeSync;
     const handleFullscreenChange = () => {
       const fs = !!(
         document.fullscreenElement || (document as any).webkitFullscreenElement
@@ -288,9 +829,12 @@ export function useVideoPlayer(
     video.addEventListener("pause", handlePause);
     video.addEventListener("ended", handleEnded);
     video.addEventListener("timeupdate", handleTimeUpdate);
+    video.addEventListener("seeking", handleSeeking);
+    video.addEventListener("seeked", handleSeeked);
     video.addEventListener("durationchange", handleDurationChange);
     video.addEventListener("volumechange", handleVolumeChange);
     video.addEventListener("ratechange", handleRateChange);
+    video.addEventListener("loadedmetadata", handleLoadedMetadata);
     video.addEventListener("error", handleError);
     video.addEventListener("waiting", handleWaiting);
     video.addEventListener("canplay", handleCanPlay);
@@ -301,14 +845,25 @@ export function useVideoPlayer(
     video.addEventListener("enterpictureinpicture", handlePiPChange);
     video.addEventListener("leavepictureinpicture", handlePiPChange);
 
+    // Restore saved volume / mute; explicit `volume` and `muted` props still win
+    const prefs = preferencesRef.current;
+    if (prefs.volume !== undefined && optionsRef.current.volume === undefined) {
+      video.volume = prefs.volume;
+      if (prefs.volume > 0) lastVolumeRef.current = prefs.volume;
+    }
+    if (prefs.muted !== undefined && !optionsRef.current.muted) video.muted = prefs.muted;
+
     return () => {
       video.removeEventListener("play", handlePlay);
       video.removeEventListener("pause", handlePause);
       video.removeEventListener("ended", handleEnded);
       video.removeEventListener("timeupdate", handleTimeUpdate);
+      video.removeEventListener("seeking", handleSeeking);
+      video.removeEventListener("seeked", handleSeeked);
       video.removeEventListener("durationchange", handleDurationChange);
       video.removeEventListener("volumechange", handleVolumeChange);
       video.removeEventListener("ratechange", handleRateChange);
+      video.removeEventListener("loadedmetadata", handleLoadedMetadata);
       video.removeEventListener("error", handleError);
       video.removeEventListener("waiting", handleWaiting);
       video.removeEventListener("canplay", handleCanPlay);
@@ -321,32 +876,58 @@ export function useVideoPlayer(
       );
       video.removeEventListener("enterpictureinpicture", handlePiPChange);
       video.removeEventListener("leavepictureinpicture", handlePiPChange);
+      if (timeSyncTimer) clearTimeout(timeSyncTimer);
     };
-  }, [videoRef]); // stable – options accessed via optionsRef
+  }, [store, setState, videoRef, preferencesRef, analyticsRef, lastPositionRef, getLiveWindow, measureLatency, resumePlayback, handleControlledMetadata]); // stable – options accessed via optionsRef
+
+  // ─── Background prefetch while paused ───────────────────────────────────────
+  const canPrefetch = useStoreState(
+    store,
+    (s) => !!options.enablePrefetch && !s.isPlaying && !s.isLive && s.duration > 0 && !s.error,
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!canPrefetch || !video || isSaveDataEnabled()) return;
+
+    // Whole seconds are plenty for progress reporting and avoid a re-render
+    // on every `progress` event.
+    return startPrefetch(video, hlsRef.current, ({ isPrefetching, bufferedAhead }) => {
+      const ahead = Math.floor(bufferedAhead);
+      setState((prev) =>
+        prev.isPrefetching === isPrefetching && prev.prefetchedAhead === ahead
+          ? prev
+          : { ...prev, isPrefetching, prefetchedAhead: ahead },
+      );
+    });
+    // Same reload deps as the source effect: a new engine needs a new prefetch
+  }, [canPrefetch, activeSrc, playlist.index, reloadCount, videoRef]);
 
   // ─── Control methods (all stable via useCallback with empty or minimal deps) ─
+  // Controlled values only go to the host as requests; see useControlled
   const play = useCallback(async () => {
     const video = videoRef.current;
-    if (!video) return;
-    try {
-      await video.play();
-    } catch (err: unknown) {
-      if (err instanceof Error && err.name !== "AbortError")
-        console.error("[player] play() failed:", err);
-    }
-  }, [videoRef]);
+    if (!video || requestPlaying(true)) return;
+    await startPlayback(video);
+  }, [videoRef, requestPlaying, startPlayback]);
 
   const pause = useCallback(() => {
+    if (requestPlaying(false)) return;
     videoRef.current?.pause();
-  }, [videoRef]);
+  }, [videoRef, requestPlaying]);
 
   const seek = useCallback(
     (time: number) => {
       const video = videoRef.current;
       if (!video) return;
-      video.currentTime = Math.max(0, Math.min(time, video.duration || time));
+      // Live streams can only seek within the DVR window
+      const live = getLiveWindow();
+      const target = live
+        ? Math.max(live.start, Math.min(time, live.end))
+        : Math.max(0, Math.min(time, video.duration || time));
+      if (!requestSeek(target)) video.currentTime = target;
     },
-    [videoRef],
+    [videoRef, getLiveWindow, requestSeek],
   );
 
   const setVolume = useCallback(
@@ -355,10 +936,13 @@ export function useVideoPlayer(
       if (!video) return;
       const v = Math.max(0, Math.min(volume, 1));
       if (v > 0) lastVolumeRef.current = v;
+      if (requestVolume(v)) return;
       video.volume = v;
       video.muted = v === 0;
+      // Keep the last audible level so unmuting after a reload isn't silent
+      savePreferences({ volume: v > 0 ? v : lastVolumeRef.current, muted: v === 0 });
     },
-    [videoRef],
+    [videoRef, savePreferences, requestVolume],
   );
 
   const toggleMute = useCallback(() => {
@@ -366,37 +950,75 @@ export function useVideoPlayer(
     if (!video) return;
     if (video.muted || video.volume === 0) {
       const restore = lastVolumeRef.current > 0 ? lastVolumeRef.current : 1;
-      video.volume = restore;
+      // A controlled volume of 0 is the host's to restore; the new one unmutes
+      if (video.volume === 0 && requestVolume(restore)) return;
+      if (optionsRef.current.volume === undefined) video.volume = restore;
       video.muted = false;
     } else {
       lastVolumeRef.current = video.volume;
       video.muted = true;
     }
-  }, [videoRef]);
+    savePreferences({ volume: lastVolumeRef.current, muted: video.muted });
+  }, [videoRef, savePreferences, requestVolume]);
 
   const setPlaybackRate = useCallback(
     (rate: PlaybackRate) => {
       const video = videoRef.current;
-      if (video) video.playbackRate = rate;
+      if (!video || requestPlaybackRate(rate)) return;
+      video.playbackRate = rate;
+      savePreferences({ playbackRate: rate });
     },
-    [videoRef],
+    [videoRef, savePreferences, requestPlaybackRate],
   );
 
   const setQualityLevel = useCallback((level: number) => {
     const hls = hlsRef.current;
-    if (!hls) return;
-    hls.currentLevel = level;
+    const dash = dashRef.current;
+    if (hls) hls.currentLevel = level;
+    else if (dash) dash.setQualityLevel(level);
+    else return;
     setState((prev) => ({ ...prev, currentQualityLevel: level }));
-  }, []);
+    const height = store.getState().qualityLevels.find((l) => l.id === level)?.height;
+    savePreferences({ qualityHeight: level === -1 || !height ? null : height });
+  }, [store, savePreferences]);
 
+  /** Same for every engine, native Safari HLS included: the window's edge */
   const seekToLive = useCallback(() => {
-    const hls = hlsRef.current;
     const video = videoRef.current;
-    if (!hls || !video) return;
-    const livePos = hls.liveSyncPosition;
-    if (livePos != null && Number.isFinite(livePos))
-      video.currentTime = livePos;
-  }, [videoRef]);
+    const live = getLiveWindow();
+    if (video && live && !requestSeek(live.end)) video.currentTime = live.end;
+  }, [videoRef, getLiveWindow, requestSeek]);
+
+  const seekToChapter = useCallback((index: number) => {
+    const chapter = store.getState().chapters[index];
+    if (chapter) seek(chapter.start);
+  }, [store, seek]);
+
+  /**
+   * Rebuild the engine for the current source — a full reload rather than
+   * hls.js' in-place recovery, which has already given up by now — and carry
+   * on from the last position. Live streams rejoin at the edge.
+   */
+  const retry = useCallback(() => {
+    const current = store.getState();
+    if (!activeSrcRef.current) return;
+    retryAtRef.current = {
+      src: activeSrcRef.current,
+      time: current.isLive ? 0 : lastPositionRef.current,
+      play: current.isPlaying,
+    };
+    setReloadCount((n) => n + 1);
+  }, [store, lastPositionRef]);
+
+  // ─── Auto-retry once the connection is back ─────────────────────────────────
+  const awaitingNetwork = useStoreState(store, (s) => !!s.error && isNetworkError(s.error));
+
+  useEffect(() => {
+    if (!awaitingNetwork) return;
+    const handleOnline = () => retry();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [awaitingNetwork, retry]);
 
   const toggleFullscreen = useCallback(async () => {
     const video = videoRef.current;
@@ -431,23 +1053,48 @@ export function useVideoPlayer(
     }
   }, [videoRef]);
 
+  const setSubtitleTrack = useCallback((id: string | null) => {
+    const exists = id === null || subtitleTracksRef.current.some((t) => t.id === id);
+    if (!exists) return;
+    // hls.js only loads subtitle fragments for its selected track
+    const hls = hlsRef.current;
+    if (hls) hls.subtitleTrack = parseHLSSubtitleId(id);
+    setState((prev) => ({ ...prev, activeSubtitleTrack: id }));
+    const track = subtitleTracksRef.current.find((t) => t.id === id);
+    savePreferences({ subtitleLanguage: track ? track.srclang : null });
+  }, [savePreferences]);
+
+  const setAudioTrack = useCallback((id: number) => {
+    const hls = hlsRef.current;
+    const video = videoRef.current;
+    if (hls) hls.audioTrack = id;
+    else if (video) selectNativeAudioTrack(video, id);
+    else return;
+    setState((prev) => ({ ...prev, currentAudioTrack: id }));
+  }, [videoRef]);
+
   const toggleTheaterMode = useCallback(() => {
-    const next = !stateRef.current.isTheaterMode;
+    const next = !store.getState().isTheaterMode;
     setState((prev) => ({ ...prev, isTheaterMode: next }));
     optionsRef.current.onTheaterModeChange?.(next);
-  }, []);
+  }, [store]);
 
+  /** The store's state with the position and buffer read fresh, between throttled writes */
   const getState = useCallback((): PlayerState => {
+    const state = store.getState();
     const video = videoRef.current;
-    const currentTime = video?.currentTime ?? 0;
-    const bufferedRanges: import("../lib/types").BufferedRange[] = [];
-    if (video) {
-      for (let i = 0; i < video.buffered.length; i++) {
-        bufferedRanges.push({ start: video.buffered.start(i), end: video.buffered.end(i) });
-      }
-    }
-    return { ...stateRef.current, currentTime, bufferedRanges };
-  }, [videoRef]);
+    if (!video) return state;
+    return {
+      ...state,
+      currentTime: video.currentTime,
+      bufferedRanges: readBufferedRanges(video, state.bufferedRanges),
+    };
+  }, [store, videoRef]);
+
+  const getQoESummary = useCallback(
+    () => analyticsRef.current?.getSummary() ?? null,
+    [analyticsRef],
+  );
 
   const getVideoElement = useCallback(
     (): HTMLVideoElement | null => videoRef.current ?? null,
@@ -464,10 +1111,22 @@ export function useVideoPlayer(
       setPlaybackRate,
       setQualityLevel,
       seekToLive,
+      retry,
+      getLiveWindow,
+      getProgramDateTime,
       toggleFullscreen,
       togglePictureInPicture,
       toggleTheaterMode,
+      next: playlist.next,
+      previous: playlist.previous,
+      goTo: playlist.goTo,
+      setRepeatMode: playlist.setRepeatMode,
+      setShuffle: playlist.setShuffle,
+      seekToChapter,
+      setSubtitleTrack,
+      setAudioTrack,
       getState,
+      getQoESummary,
       getVideoElement,
     }),
     [
@@ -479,13 +1138,35 @@ export function useVideoPlayer(
       setPlaybackRate,
       setQualityLevel,
       seekToLive,
+      retry,
+      getLiveWindow,
+      getProgramDateTime,
       toggleFullscreen,
       togglePictureInPicture,
       toggleTheaterMode,
+      playlist.next,
+      playlist.previous,
+      playlist.goTo,
+      playlist.setRepeatMode,
+      playlist.setShuffle,
+      seekToChapter,
+      setSubtitleTrack,
+      setAudioTrack,
       getState,
+      getQoESummary,
       getVideoElement,
     ],
   );
 
-  return { state, ref, hlsRef, fullscreenContainerRef };
+  return {
+    store,
+    ref,
+    hlsRef,
+    fullscreenContainerRef,
+    activeSrc,
+    sidecarSubtitleTracks,
+    playlist,
+    resume,
+    ads,
+  };
 }
@@ -4,26 +4,154 @@ export { VideoPlayer };
 
 // Controls and Control Elements
 export { Controls } from "./components/Controls";
+export {
+  usePlayer,
+  usePlayerState,
+  usePlayerActions,
+  useCurrentTime,
+  DEFAULT_PLAYBACK_RATES,
+} from "./components/PlayerContext";
+export type { PlayerContextValue, UsePlayerResult } from "./components/PlayerContext";
+export { shallowEqual } from "./lib/store";
+export type { PlayerStore } from "./lib/store";
+
+// Headless player: the engine without the built-in UI
+export { PlayerProvider, PlayerVideo, PlayerCaptions } from "./components/PlayerProvider";
+export type { PlayerVideoProps, PlayerCaptionsProps } from "./components/PlayerProvider";
 export * as ControlElements from "./components/control-elements";
 
 // Types
 export type {
   VideoPlayerProps,
   VideoPlayerRef,
+  PlayerProviderProps,
   PlayerState,
   PlaybackRate,
   HLSQualityLevel,
   SubtitleTrack,
+  AudioTrack,
   BufferedRange,
+  LiveWindow,
+  LiveLatencyOptions,
+  MetadataCue,
+  ID3MetadataCue,
+  DateRangeMetadataCue,
+  ID3Frame,
   VideoError,
   VideoErrorCode,
   ContextMenuItem,
   ControlBarItem,
+  PlaylistItem,
+  RepeatMode,
+  Chapter,
+  CaptionStyle,
+  CaptionFontFamily,
+  CaptionEdgeStyle,
+  PlayerPreferences,
+  PersistPreferencesOptions,
+  ResumeProgress,
+  RetryPolicy,
+  RetryAction,
+  RetryEvent,
+  RetryErrorType,
+  DRMConfig,
+  DRMKeySystem,
+  DRMKeySystemConfig,
+  DRMLicenseRequest,
+  VideoSource,
+  SourceChangeReason,
+  ShortcutAction,
+  CustomShortcut,
+  KeyboardShortcutsOptions,
+  PlayerTheme,
+  PlayerThemeOptions,
+  ThemePreset,
+  BuiltInControl,
+  ControlsLayout,
+  ControlsLayoutItem,
 } from "./lib/types";
 
+// Playback analytics / QoE
+export type {
+  AnalyticsEvent,
+  AnalyticsEventType,
+  AnalyticsSink,
+  AnalyticsOptions,
+  AnalyticsSession,
+  BeaconSinkOptions,
+  QoESummary,
+} from "./lib/analytics";
+export { createBeaconSink, createAnalyticsSession } from "./lib/analytics";
+
+// Client-side ads (VAST / VMAP)
+export type {
+  AdsOptions,
+  AdBreakConfig,
+  AdOffset,
+  AdError,
+  AdMediaFile,
+  AdTracking,
+  AdTrackingEvent,
+  LinearAd,
+} from "./lib/ads";
+export { createAdTracker, expandMacros } from "./lib/ads";
+export { parseVAST, parseVMAP, resolveVASTAds } from "./lib/vast";
+
+// Stock control bar arrangement (to extend rather than replace a zone)
+export { DEFAULT_CONTROLS_LAYOUT } from "./lib/controlsLayout";
+
+// Keyboard shortcut defaults (for building your own help screen)
+export { DEFAULT_SHORTCUTS, SHORTCUT_LABELS } from "./lib/shortcuts";
+
+// Translations and right-to-left support
+export type { PlayerMessages, PlayerMessagesOverride } from "./lib/i18n";
+export {
+  DEFAULT_MESSAGES,
+  BUILT_IN_MESSAGES,
+  resolveMessages,
+  getTextDirection,
+  formatMessage,
+} from "./lib/i18n";
+
+// Source selection (codec support probing and ordering)
+export { rankSources, getCodecRank } from "./lib/sources";
+
+// Timed metadata (ID3 parsing for custom engine setups)
+export { parseID3 } from "./lib/metadata";
+
+// DRM helpers for custom engine setups
+export { KEY_SYSTEM_IDS, buildHLSDrmConfig } from "./lib/drm";
+
+// Pluggable storage for persisted user settings
+export type { PlayerStorage } from "./lib/storage";
+export { getLocalStorage } from "./lib/storage";
+
+// Theme presets and the `--helios-*` custom properties they set
+export { THEME_PRESETS, resolveTheme, getThemeStyle } from "./lib/theme";
+
+// Caption appearance helpers
+export { DEFAULT_CAPTION_STYLE, getCaptionCss } from "./lib/captionStyle";
+
+// WebVTT subtitle parser used by the built-in caption renderer
+export type { SubtitleCue, CueNode, CueAlign } from "./lib/subtitles";
+export { parseSubtitleVtt, parseCueText, findActiveCues } from "./lib/subtitles";
+
 // Utilities
-export { formatTime, isHLSUrl, getMimeType } from "./lib/format";
+export {
+  formatTime,
+  formatWallClock,
+  localizeDigits,
+  isHLSUrl,
+  isDASHUrl,
+  getMimeType,
+} from "./lib/format";
 
-// VTT thumbnail helpers (for custom integrations)
+// VTT thumbnail and chapter helpers (for custom integrations)
 export type { ThumbnailCue } from "./lib/vtt";
-export { parseThumbnailVtt, findThumbnailCue } from "./lib/vtt";
+export {
+  parseThumbnailVtt,
+  findThumbnailCue,
+  parseChapterVtt,
+  normalizeChapters,
+  findChapterIndex,
+} from "./lib/vtt";
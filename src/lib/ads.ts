@@ -0,0 +1,229 @@
+import { parseVMAP } from "./vast";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Seconds into the content, "start" (pre-roll), "end" (post-roll) or a share of the duration */
+export type AdOffset = number | "start" | "end" | `${number}%`;
+
+export interface AdBreakConfig {
+  id?: string;
+  offset: AdOffset;
+  /** VAST tag to request when the break starts */
+  vastUrl?: string;
+  /** Inline VAST document; wins over `vastUrl` */
+  vastXml?: string;
+  /** Break-level pixels, as declared in VMAP */
+  tracking?: { breakStart?: string[]; breakEnd?: string[]; error?: string[] };
+}
+
+export type AdTrackingEvent =
+  | "impression"
+  | "start"
+  | "firstQuartile"
+  | "midpoint"
+  | "thirdQuartile"
+  | "complete"
+  | "skip"
+  | "pause"
+  | "resume"
+  | "mute"
+  | "unmute"
+  | "clickThrough"
+  | "error";
+
+export type AdTracking = Partial<Record<AdTrackingEvent, string[]>>;
+
+export interface AdMediaFile {
+  src: string;
+  type: string;
+  delivery: string;
+  width: number;
+  height: number;
+  bitrate?: number;
+}
+
+/** A linear (video) ad, with its wrapper chain already resolved */
+export interface LinearAd {
+  id: string;
+  title: string;
+  adSystem: string;
+  /** Declared duration in seconds; the media file's own duration wins at playback */
+  duration: number;
+  /** Seconds after which the ad may be skipped; null when not skippable */
+  skipOffset: number | null;
+  mediaFiles: AdMediaFile[];
+  clickThrough: string | null;
+  tracking: AdTracking;
+}
+
+/**
+ * VAST error codes: 100 XML, 301–303 wrapper / empty response, 403–405
+ * media file, 900 anything else; 1000 when the VMAP schedule fails to load.
+ */
+export interface AdError {
+  code: number;
+  message: string;
+}
+
+export interface AdsOptions {
+  /** VMAP schedule to load for every source */
+  vmapUrl?: string;
+  /** Inline VMAP document; wins over `vmapUrl` */
+  vmapXml?: string;
+  /** Breaks declared directly; wins over VMAP */
+  breaks?: AdBreakConfig[];
+  /** Loads VAST / VMAP documents. Default: `fetch(url).then(r => r.text())` */
+  fetchXml?: (url: string) => Promise<string>;
+  /** Fires a tracking pixel. Default: an `Image` request */
+  trackPixel?: (url: string, event: AdTrackingEvent | "breakStart" | "breakEnd") => void;
+  /** Wrapper redirects followed before giving up. Default: 5 */
+  maxWrapperDepth?: number;
+  onAdStart?: (ad: LinearAd) => void;
+  onAdEnd?: (ad: LinearAd, reason: "complete" | "skip" | "error") => void;
+  onAdError?: (error: AdError) => void;
+}
+
+// ─── Schedule ─────────────────────────────────────────────────────────────────
+
+export const DEFAULT_MAX_WRAPPER_DEPTH = 5;
+
+export function defaultFetchXml(url: string): Promise<string> {
+  return fetch(url).then((res) => {
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.text();
+  });
+}
+
+export function defaultTrackPixel(url: string): void {
+  if (typeof Image === "undefined") return;
+  new Image().src = url;
+}
+
+/** The configured breaks: `breaks`, else the VMAP schedule (loaded via `fetchXml`) */
+export async function loadAdSchedule(options: AdsOptions): Promise<AdBreakConfig[]> {
+  if (options.breaks) return options.breaks;
+  if (options.vmapXml) return parseVMAP(options.vmapXml);
+  if (options.vmapUrl) {
+    const fetchXml = options.fetchXml ?? defaultFetchXml;
+    return parseVMAP(await fetchXml(options.vmapUrl));
+  }
+  return [];
+}
+
+/**
+ * Content time of a break in seconds: 0 for "start", Infinity for "end".
+ * Percentages need a known duration; null until then.
+ */
+export function resolveAdOffset(offset: AdOffset, duration: number): number | null {
+  if (offset === "start") return 0;
+  if (offset === "end") return Infinity;
+  if (typeof offset === "number") return offset;
+  if (!Number.isFinite(duration) || duration <= 0) return null;
+  return (parseFloat(offset) / 100) * duration;
+}
+
+/**
+ * Pick the progressive media file the browser can play whose width best
+ * fits `targetWidth`: the smallest at least that wide, else the widest.
+ */
+export function selectMediaFile(
+  files: AdMediaFile[],
+  video: HTMLVideoElement,
+  targetWidth: number,
+): AdMediaFile | null {
+  const playable = files
+    .filter((f) => f.delivery !== "streaming" && (!f.type || video.canPlayType(f.type) !== ""))
+    .sort((a, b) => a.width - b.width || (a.bitrate ?? 0) - (b.bitrate ?? 0));
+  return playable.find((f) => f.width >= targetWidth) ?? playable[playable.length - 1] ?? null;
+}
+
+// ─── Tracking ─────────────────────────────────────────────────────────────────
+
+/** "HH:MM:SS.mmm", the format VAST macros use for playheads */
+function formatPlayhead(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, len = 2) => String(n).padStart(len, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(
+    Math.floor(ms / 1000) % 60,
+  )}.${pad(ms % 1000, 3)}`;
+}
+
+export interface AdMacroValues {
+  errorCode?: number;
+  adPlayhead?: number;
+  contentPlayhead?: number;
+}
+
+/** Fill in the VAST 4 macros pixels commonly use; unknown macros are left alone */
+export function expandMacros(url: string, values: AdMacroValues = {}): string {
+  const macros: Record<string, string | undefined> = {
+    CACHEBUSTING: String(Math.floor(Math.random() * 1e8)).padStart(8, "0"),
+    TIMESTAMP: new Date().toISOString(),
+    ERRORCODE: values.errorCode !== undefined ? String(values.errorCode) : undefined,
+    ADPLAYHEAD: values.adPlayhead !== undefined ? formatPlayhead(values.adPlayhead) : undefined,
+    CONTENTPLAYHEAD:
+      values.contentPlayhead !== undefined ? formatPlayhead(values.contentPlayhead) : undefined,
+    MEDIAPLAYHEAD:
+      values.contentPlayhead !== undefined ? formatPlayhead(values.contentPlayhead) : undefined,
+  };
+  return url.replace(/\[([A-Z_]+)\]/g, (match, name: string) => {
+    const value = macros[name];
+    return value === undefined ? match : encodeURIComponent(value);
+  });
+}
+
+/** Events that are reported at most once per ad */
+const ONCE_EVENTS = new Set<AdTrackingEvent>([
+  "impression",
+  "start",
+  "firstQuartile",
+  "midpoint",
+  "thirdQuartile",
+  "complete",
+  "skip",
+  "error",
+]);
+
+const QUARTILES: [number, AdTrackingEvent][] = [
+  [0.25, "firstQuartile"],
+  [0.5, "midpoint"],
+  [0.75, "thirdQuartile"],
+];
+
+export interface AdTracker {
+  fire(event: AdTrackingEvent, adPlayhead: number, errorCode?: number): void;
+  /** Report playback progress; fires impression, start and quartiles as they are reached */
+  progress(time: number, duration: number): void;
+}
+
+/** Tracking pixels for one ad play */
+export function createAdTracker(
+  ad: LinearAd,
+  trackPixel: NonNullable<AdsOptions["trackPixel"]>,
+  contentPlayhead: number,
+): AdTracker {
+  const fired = new Set<AdTrackingEvent>();
+
+  const fire: AdTracker["fire"] = (event, adPlayhead, errorCode) => {
+    if (ONCE_EVENTS.has(event)) {
+      if (fired.has(event)) return;
+      fired.add(event);
+    }
+    for (const url of ad.tracking[event] ?? []) {
+      trackPixel(expandMacros(url, { adPlayhead, contentPlayhead, errorCode }), event);
+    }
+  };
+
+  return {
+    fire,
+    progress(time, duration) {
+      if (time <= 0) return;
+      fire("impression", time);
+      fire("start", time);
+      if (!(duration > 0)) return;
+      for (const [share, event] of QUARTILES) {
+        if (time >= duration * share) fire(event, time);
+      }
+    },
+  };
+}
@@ -0,0 +1,355 @@
+import type { HLSQualityLevel, VideoError } from "./types";
+
+// ─── Event types ──────────────────────────────────────────────────────────────
+
+interface BaseEvent {
+  sessionId: string;
+  /** ms since epoch */
+  timestamp: number;
+  /** Playback position in seconds when the event fired */
+  position: number;
+}
+
+/** Quality-of-experience totals for one session (one source load) */
+export interface QoESummary {
+  /** Seconds of actual playback — excludes paused and stalled time */
+  watchTime: number;
+  /** ms from the first play request to the first rendered frame; null until then */
+  timeToFirstFrame: number | null;
+  /** Stalls after the first frame, not counting waits caused by seeking */
+  rebufferCount: number;
+  /** Total ms spent stalled */
+  rebufferDuration: number;
+  /** rebufferDuration / (watch time + rebufferDuration), 0–1 */
+  rebufferRatio: number;
+  /** Watch-time-weighted rendition bitrate in bits/s; null when unknown (progressive) */
+  averageBitrate: number | null;
+  /** Measured segment download throughput in bits/s; null when unknown */
+  averageThroughput: number | null;
+  qualitySwitches: number;
+  errorCount: number;
+}
+
+export type AnalyticsEvent =
+  | (BaseEvent & { type: "session_start"; src: string })
+  | (BaseEvent & { type: "first_frame"; timeToFirstFrame: number })
+  | (BaseEvent & { type: "stall_start" })
+  | (BaseEvent & { type: "stall_end"; duration: number })
+  | (BaseEvent & { type: "quality_change"; level: HLSQualityLevel; previous: HLSQualityLevel | null })
+  | (BaseEvent & { type: "seek"; from: number; to: number })
+  | (BaseEvent & { type: "heartbeat"; summary: QoESummary })
+  | (BaseEvent & { type: "ended"; summary: QoESummary })
+  | (BaseEvent & { type: "error"; error: VideoError; fatal: boolean })
+  | (BaseEvent & { type: "session_end"; summary: QoESummary });
+
+export type AnalyticsEventType = AnalyticsEvent["type"];
+
+/**
+ * Destination for analytics events. `send` is called once per event;
+ * batching, if any, is up to the sink. `flush` is called when a session ends
+ * and the page is being hidden.
+ */
+export interface AnalyticsSink {
+  send(event: AnalyticsEvent): void;
+  flush?(): void;
+  /** Flush and release listeners; the player calls it when it unmounts or the sink changes */
+  dispose?(): void;
+}
+
+export interface AnalyticsOptions {
+  /** Where events go; see {@link createBeaconSink} */
+  sink?: AnalyticsSink;
+  /** Called for every event, in addition to the sink */
+  onEvent?: (event: AnalyticsEvent) => void;
+  /** Seconds between heartbeats while playing. Default: 30; 0 disables */
+  heartbeatInterval?: number;
+}
+
+// ─── Session tracker ──────────────────────────────────────────────────────────
+
+export const DEFAULT_HEARTBEAT_INTERVAL = 30;
+
+export interface AnalyticsSessionOptions {
+  src: string;
+  getPosition: () => number;
+  emit: (event: AnalyticsEvent) => void;
+  heartbeatInterval?: number;
+}
+
+export interface AnalyticsSession {
+  readonly sessionId: string;
+  /** A play was requested (`play` event) */
+  play(): void;
+  /** Frames are rendering (`playing` event) */
+  playing(): void;
+  pause(): void;
+  /** `waiting`; pass whether the element is seeking so seek waits aren't rebuffers */
+  waiting(seeking: boolean): void;
+  /** `seeking`; `from` is the last position reported before the seek */
+  seek(from: number, to: number): void;
+  qualityChange(level: HLSQualityLevel): void;
+  /** A media segment finished downloading */
+  fragLoaded(bytes: number, loadMs: number): void;
+  error(error: VideoError, fatal: boolean): void;
+  ended(): void;
+  /** Emit `session_end` and stop timers; later calls are ignored */
+  end(): void;
+  getSummary(): QoESummary;
+}
+
+const now = () =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+function createSessionId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Tracks one playback session and turns raw player / engine signals into
+ * typed analytics events. Plain object, no React or DOM dependencies beyond
+ * timers, so it can be driven directly in tests.
+ */
+export function createAnalyticsSession(options: AnalyticsSessionOptions): AnalyticsSession {
+  const sessionId = createSessionId();
+  const { getPosition, emit } = options;
+  const heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+
+  let ended = false;
+  let playRequestedAt: number | null = null;
+  let timeToFirstFrame: number | null = null;
+
+  // Watch time accrues between `playing` and the next pause / stall / end
+  let watchTime = 0;
+  let playingSince: number | null = null;
+
+  let stallStartedAt: number | null = null;
+  let rebufferCount = 0;
+  let rebufferDuration = 0;
+
+  let level: HLSQualityLevel | null = null;
+  let qualitySwitches = 0;
+  let bitrateWeighted = 0;
+  let bitrateTime = 0;
+
+  let fragBits = 0;
+  let fragMs = 0;
+  let errorCount = 0;
+
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  const base = () => ({ sessionId, timestamp: Date.now(), position: getPosition() });
+
+  /** Close the current playing segment into watch time and bitrate weighting */
+  const accrue = () => {
+    if (playingSince === null) return;
+    const seconds = (now() - playingSince) / 1000;
+    watchTime += seconds;
+    if (level?.bitrate) {
+      bitrateWeighted += level.bitrate * seconds;
+      bitrateTime += seconds;
+    }
+    playingSince = null;
+  };
+
+  const endStall = () => {
+    if (stallStartedAt === null) return;
+    const duration = now() - stallStartedAt;
+    stallStartedAt = null;
+    rebufferDuration += duration;
+    emit({ ...base(), type: "stall_end", duration });
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeat) clearInterval(heartbeat);
+    heartbeat = null;
+  };
+
+  const startHeartbeat = () => {
+    if (heartbeat || heartbeatInterval <= 0) return;
+    heartbeat = setInterval(() => {
+      emit({ ...base(), type: "heartbeat", summary: getSummary() });
+    }, heartbeatInterval * 1000);
+  };
+
+  const getSummary = (): QoESummary => {
+    const live = playingSince !== null ? (now() - playingSince) / 1000 : 0;
+    const stalled = stallStartedAt !== null ? now() - stallStartedAt : 0;
+    const totalWatch = watchTime + live;
+    const totalRebuffer = rebufferDuration + stalled;
+    const liveBitrate = live && level?.bitrate ? level.bitrate * live : 0;
+    const weightedTime = bitrateTime + (liveBitrate ? live : 0);
+    const denominator = totalWatch * 1000 + totalRebuffer;
+    return {
+      watchTime: totalWatch,
+      timeToFirstFrame,
+      rebufferCount,
+      rebufferDuration: totalRebuffer,
+      rebufferRatio: denominator > 0 ? totalRebuffer / denominator : 0,
+      averageBitrate: weightedTime > 0 ? (bitrateWeighted + liveBitrate) / weightedTime : level?.bitrate ?? null,
+      averageThroughput: fragMs > 0 ? (fragBits / fragMs) * 1000 : null,
+      qualitySwitches,
+      errorCount,
+    };
+  };
+
+  emit({ ...base(), type: "session_start", src: options.src });
+
+  return {
+    sessionId,
+
+    play() {
+      if (ended) return;
+      if (playRequestedAt === null) playRequestedAt = now();
+    },
+
+    playing() {
+      if (ended) return;
+      if (timeToFirstFrame === null) {
+        timeToFirstFrame = now() - (playRequestedAt ?? now());
+        emit({ ...base(), type: "first_frame", timeToFirstFrame });
+      }
+      endStall();
+      if (playingSince === null) playingSince = now();
+      startHeartbeat();
+    },
+
+    pause() {
+      if (ended) return;
+      accrue();
+      stopHeartbeat();
+    },
+
+    waiting(seeking) {
+      // Startup and seek waits are not rebuffers
+      if (ended || timeToFirstFrame === null || seeking || stallStartedAt !== null) return;
+      accrue();
+      stallStartedAt = now();
+      rebufferCount += 1;
+      emit({ ...base(), type: "stall_start" });
+    },
+
+    seek(from, to) {
+      if (ended) return;
+      emit({ ...base(), type: "seek", from, to });
+    },
+
+    qualityChange(next) {
+      if (ended || next.id === level?.id) return;
+      // Attribute the time so far to the outgoing rendition
+      if (playingSince !== null) {
+        accrue();
+        playingSince = now();
+      }
+      const previous = level;
+      level = next;
+      if (previous) qualitySwitches += 1;
+      emit({ ...base(), type: "quality_change", level: next, previous });
+    },
+
+    fragLoaded(bytes, loadMs) {
+      if (ended || bytes <= 0 || loadMs <= 0) return;
+      fragBits += bytes * 8;
+      fragMs += loadMs;
+    },
+
+    error(error, fatal) {
+      if (ended) return;
+      errorCount += 1;
+      emit({ ...base(), type: "error", error, fatal });
+    },
+
+    ended() {
+      if (ended) return;
+      endStall();
+      accrue();
+      stopHeartbeat();
+      emit({ ...base(), type: "ended", summary: getSummary() });
+    },
+
+    end() {
+      if (ended) return;
+      endStall();
+      accrue();
+      stopHeartbeat();
+      ended = true;
+      emit({ ...base(), type: "session_end", summary: getSummary() });
+    },
+
+    getSummary,
+  };
+}
+
+// ─── Beacon sink ──────────────────────────────────────────────────────────────
+
+export interface BeaconSinkOptions {
+  /** Collector endpoint; receives `{ events: AnalyticsEvent[] }` as JSON */
+  url: string;
+  /** Send once this many events are queued. Default: 20 */
+  batchSize?: number;
+  /** Also send whatever is queued every N seconds. Default: 10 */
+  flushInterval?: number;
+}
+
+/**
+ * Batching sink that POSTs events with `navigator.sendBeacon`, falling back
+ * to `fetch(..., { keepalive: true })`. The queue is also flushed when the
+ * page is hidden so the last batch survives navigation.
+ *
+ * The visibility listener is attached on the first queued event and removed
+ * by `dispose`, which also flushes. A disposed sink still works: the next
+ * event attaches the listener again, so one sink can outlive a player.
+ */
+export function createBeaconSink(options: BeaconSinkOptions): AnalyticsSink {
+  const batchSize = options.batchSize ?? 20;
+  const flushInterval = options.flushInterval ?? 10;
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (!queue.length) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+
+    if (typeof navigator !== "undefined" && typeof navigator.sendBeacon === "function") {
+      const blob = new Blob([body], { type: "application/json" });
+      if (navigator.sendBeacon(options.url, blob)) return;
+    }
+    if (typeof fetch === "function") {
+      fetch(options.url, {
+        method: "POST",
+        body,
+        keepalive: true,
+        headers: { "Content-Type": "application/json" },
+      }).catch(() => {});
+    }
+  };
+
+  let listening = false;
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+
+  return {
+    send(event) {
+      if (!listening && typeof document !== "undefined") {
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+        listening = true;
+      }
+      queue.push(event);
+      if (queue.length >= batchSize) flush();
+      else if (!timer && flushInterval > 0) timer = setTimeout(flush, flushInterval * 1000);
+    },
+    flush,
+    dispose() {
+      flush();
+      if (!listening) return;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      listening = false;
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import type { CSSProperties } from "react";
+import type { CaptionStyle, CaptionFontFamily, CaptionEdgeStyle } from "./types";
+import { readStoredJSON, type PlayerStorage } from "./storage";
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontSize: 1,
+  fontFamily: "proportionalSans",
+  textColor: "#ffffff",
+  backgroundColor: "#000000",
+  backgroundOpacity: 0.75,
+  edgeStyle: "none",
+  windowColor: "#000000",
+  windowOpacity: 0,
+};
+
+export const CAPTION_FONT_SIZES = [0.5, 0.75, 1, 1.5, 2, 3];
+
+export const CAPTION_OPACITIES = [0, 0.25, 0.5, 0.75, 1];
+
+export type CaptionColorName =
+  | "white"
+  | "yellow"
+  | "green"
+  | "cyan"
+  | "blue"
+  | "magenta"
+  | "red"
+  | "black";
+
+/** `name` keys the translated label in `PlayerMessages.captionColors` */
+export const CAPTION_COLORS: { name: CaptionColorName; label: string; value: string }[] = [
+  { name: "white", label: "White", value: "#ffffff" },
+  { name: "yellow", label: "Yellow", value: "#ffff00" },
+  { name: "green", label: "Green", value: "#00ff00" },
+  { name: "cyan", label: "Cyan", value: "#00ffff" },
+  { name: "blue", label: "Blue", value: "#0000ff" },
+  { name: "magenta", label: "Magenta", value: "#ff00ff" },
+  { name: "red", label: "Red", value: "#ff0000" },
+  { name: "black", label: "Black", value: "#000000" },
+];
+
+export const CAPTION_FONT_FAMILIES: Record<CaptionFontFamily, { label: string; css: string }> = {
+  proportionalSans: { label: "Proportional Sans-Serif", css: '"Helvetica Neue", Arial, Roboto, sans-serif' },
+  monospaceSans: { label: "Monospace Sans-Serif", css: '"Lucida Console", "DejaVu Sans Mono", Menlo, monospace' },
+  proportionalSerif: { label: "Proportional Serif", css: 'Georgia, "Times New Roman", serif' },
+  monospaceSerif: { label: "Monospace Serif", css: '"Courier New", Courier, monospace' },
+  casual: { label: "Casual", css: '"Comic Sans MS", "Comic Neue", cursive' },
+  cursive: { label: "Cursive", css: '"Monotype Corsiva", "URW Chancery L", "Apple Chancery", cursive' },
+  smallCaps: { label: "Small Capitals", css: '"Helvetica Neue", Arial, Roboto, sans-serif' },
+};
+
+export const CAPTION_EDGE_STYLES: Record<CaptionEdgeStyle, { label: string; shadow: string }> = {
+  none: { label: "None", shadow: "none" },
+  raised: { label: "Raised", shadow: "1px 1px 0 #000, 2px 2px 0 #000" },
+  depressed: { label: "Depressed", shadow: "-1px -1px 0 #000, 1px 1px 0 rgba(255,255,255,0.5)" },
+  uniform: { label: "Uniform", shadow: "0 0 2px #000, 0 0 2px #000, 0 0 2px #000, 0 0 2px #000" },
+  dropShadow: { label: "Drop Shadow", shadow: "2px 2px 4px rgba(0,0,0,0.9)" },
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+function isOpacity(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+/**
+ * Stored caption style with malformed fields dropped — unknown fonts or
+ * edges, sizes outside the panel's range, non-hex colors — so a stale entry
+ * can't break rendering.
+ */
+export function readCaptionStyle(storage: PlayerStorage | null, key: string): Partial<CaptionStyle> {
+  const raw = readStoredJSON<Record<string, unknown>>(storage, key);
+  if (!raw || typeof raw !== "object") return {};
+
+  const style: Partial<CaptionStyle> = {};
+  const minSize = CAPTION_FONT_SIZES[0];
+  const maxSize = CAPTION_FONT_SIZES[CAPTION_FONT_SIZES.length - 1];
+  if (typeof raw.fontSize === "number" && raw.fontSize >= minSize && raw.fontSize <= maxSize) {
+    style.fontSize = raw.fontSize;
+  }
+  if (typeof raw.fontFamily === "string" && Object.prototype.hasOwnProperty.call(CAPTION_FONT_FAMILIES, raw.fontFamily)) {
+    style.fontFamily = raw.fontFamily as CaptionFontFamily;
+  }
+  if (typeof raw.edgeStyle === "string" && Object.prototype.hasOwnProperty.call(CAPTION_EDGE_STYLES, raw.edgeStyle)) {
+    style.edgeStyle = raw.edgeStyle as CaptionEdgeStyle;
+  }
+  for (const field of ["textColor", "backgroundColor", "windowColor"] as const) {
+    const value = raw[field];
+    if (typeof value === "string" && HEX_COLOR.test(value)) style[field] = value;
+  }
+  if (isOpacity(raw.backgroundOpacity)) style.backgroundOpacity = raw.backgroundOpacity;
+  if (isOpacity(raw.windowOpacity)) style.windowOpacity = raw.windowOpacity;
+  return style;
+}
+
+/** "#rrggbb" (or "#rgb") + opacity → "rgba(r, g, b, a)" */
+export function toRgba(hex: string, opacity: number): string {
+  let h = hex.replace("#", "");
+  if (h.length === 3) h = h.split("").map((c) => c + c).join("");
+  const n = parseInt(h, 16);
+  if (h.length !== 6 || Number.isNaN(n)) return hex;
+  const a = Math.max(0, Math.min(1, opacity));
+  return `rgba(${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}, ${a})`;
+}
+
+/**
+ * Resolve a style into the inline styles used by SubtitleOverlay:
+ * `cue` for the text run, `window` for the box around the caption block.
+ */
+export function getCaptionCss(style: CaptionStyle): { cue: CSSProperties; window: CSSProperties } {
+  return {
+    cue: {
+      color: style.textColor,
+      backgroundColor: toRgba(style.backgroundColor, style.backgroundOpacity),
+      fontFamily: CAPTION_FONT_FAMILIES[style.fontFamily].css,
+      fontVariant: style.fontFamily === "smallCaps" ? "small-caps" : undefined,
+      textShadow: CAPTION_EDGE_STYLES[style.edgeStyle].shadow,
+    },
+    window: {
+      backgroundColor: toRgba(style.windowColor, style.windowOpacity),
+    },
+  };
+}
+
+/**
+ * Build a `::cue` rule so natively rendered `<track>` cues (e.g. iOS native
+ * fullscreen) match the custom overlay.
+ */
+export function getCaptionCueRule(selector: string, style: CaptionStyle): string {
+  const { cue } = getCaptionCss(style);
+  return (
+    `${selector}::cue {` +
+    ` color: ${cue.color};` +
+    ` background-color: ${cue.backgroundColor};` +
+    ` font-family: ${cue.fontFamily};` +
+    ` font-size: ${Math.round(style.fontSize * 100)}%;` +
+    ` text-shadow: ${cue.textShadow};` +
+    (cue.fontVariant ? ` font-variant: ${cue.fontVariant};` : "") +
+    " }"
+  );
+}
@@ -0,0 +1,22 @@
+import type { ControlsLayout } from "./types";
+
+/** The stock control bar */
+export const DEFAULT_CONTROLS_LAYOUT: ControlsLayout = {
+  top: [],
+  left: ["previous", "play", "next", "volume", "time"],
+  center: [],
+  right: ["live", "settings", "controlBarItems", "pictureInPicture", "theaterMode", "fullscreen"],
+  progressBar: true,
+};
+
+/** `controlsLayout` prop → full layout: given zones replace the defaults */
+export function resolveControlsLayout(layout?: Partial<ControlsLayout>): ControlsLayout {
+  if (!layout) return DEFAULT_CONTROLS_LAYOUT;
+  return {
+    top: layout.top ?? DEFAULT_CONTROLS_LAYOUT.top,
+    left: layout.left ?? DEFAULT_CONTROLS_LAYOUT.left,
+    center: layout.center ?? DEFAULT_CONTROLS_LAYOUT.center,
+    right: layout.right ?? DEFAULT_CONTROLS_LAYOUT.right,
+    progressBar: layout.progressBar ?? DEFAULT_CONTROLS_LAYOUT.progressBar,
+  };
+}
@@ -0,0 +1,160 @@
+import type { MediaPlayerClass, MediaPlayerSettingClass, BitrateInfo } from "dashjs";
+import type { DRMConfig, HLSQualityLevel, VideoError, VideoErrorCode } from "./types";
+import {
+  buildDASHProtectionData,
+  registerDASHLicenseFilters,
+  mapDASHDrmErrorCode,
+  createDRMError,
+  DRM_ERROR_MESSAGES,
+} from "./drm";
+import { createVideoError } from "./errors";
+
+type DashModule = typeof import("dashjs");
+
+let dashModule: Promise<DashModule | null> | null = null;
+
+/**
+ * Load dash.js on first use. It is a required peer dependency — bundlers
+ * resolve this import at build time — but it lands in its own chunk, so HLS
+ * and progressive-only pages never download it. Resolves null when the
+ * chunk fails to load.
+ */
+export function loadDashJS(): Promise<DashModule | null> {
+  if (!dashModule) {
+    dashModule = import("dashjs")
+      // UMD build: the namespace may arrive as the default export
+      .then((mod) => ((mod as { default?: DashModule }).default ?? mod) as DashModule)
+      .catch((err) => {
+        console.error("[dash] failed to load dash.js", err);
+        dashModule = null;
+        return null;
+      });
+  }
+  return dashModule;
+}
+
+/**
+ * Map dash.js video representations to the shared quality-level shape, so
+ * the settings menu and `setQualityLevel` work the same as for HLS.
+ */
+export function buildDASHQualityLevels(infos: BitrateInfo[]): HLSQualityLevel[] {
+  return infos.map((info, i) => ({
+    id: info.qualityIndex ?? i,
+    height: info.height ?? 0,
+    width: info.width ?? 0,
+    bitrate: info.bitrate ?? 0,
+    name: info.height ? `${info.height}p` : `Level ${i + 1}`,
+  }));
+}
+
+const NETWORK_ERROR_CODES = new Set([11, 12, 17, 19, 25, 26, 27, 28, 29]);
+const MEDIA_ERROR_CODES = new Set([20, 21, 23, 35]);
+/** Errors dash.js reports but keeps playing through (e.g. a bad subtitle file) */
+const NON_FATAL_ERROR_CODES = new Set([33]);
+
+/** Map a dash.js error code onto our error codes */
+export function mapDASHErrorCode(code: number | null | undefined): VideoErrorCode {
+  const drmCode = code != null ? mapDASHDrmErrorCode(code) : null;
+  if (drmCode) return drmCode;
+  if (code != null && NETWORK_ERROR_CODES.has(code)) return "DASH_NETWORK_ERROR";
+  if (code != null && MEDIA_ERROR_CODES.has(code)) return "DASH_MEDIA_ERROR";
+  return "DASH_FATAL_ERROR";
+}
+
+const DASH_ERROR_MESSAGES: Partial<Record<VideoErrorCode, string>> = {
+  DASH_NETWORK_ERROR: "Failed to load the DASH stream.",
+  DASH_MEDIA_ERROR: "The DASH stream could not be decoded.",
+  DASH_FATAL_ERROR: "An unrecoverable DASH error occurred.",
+};
+
+export interface DASHControllerOptions {
+  autoplay?: boolean;
+  /** Passed to `player.updateSettings()` */
+  settings?: MediaPlayerSettingClass;
+  drm?: DRMConfig;
+  onQualityLevels: (levels: HLSQualityLevel[]) => void;
+  onLevelSwitched: (level: number) => void;
+  /** Fired once the manifest is parsed; true for dynamic (live) MPDs */
+  onLiveChange: (isLive: boolean) => void;
+  onFatalError: (error: VideoError) => void;
+}
+
+export interface DASHController {
+  player: MediaPlayerClass;
+  /** -1 restores automatic bitrate switching */
+  setQualityLevel: (level: number) => void;
+  /** Reset the player and detach it from the video element */
+  destroy: () => void;
+}
+
+/**
+ * DASH counterpart of `createHLSController`: lazy-loads dash.js, attaches it
+ * to `video` and reports quality levels, live state and errors through the
+ * same callbacks the hook uses for HLS. Resolves null when dash.js is
+ * unavailable or DRM setup fails (the error has already been reported
+ * through `onFatalError`).
+ */
+export async function createDASHController(
+  video: HTMLVideoElement,
+  src: string,
+  options: DASHControllerOptions,
+): Promise<DASHController | null> {
+  const dashjs = await loadDashJS();
+  if (!dashjs) {
+    options.onFatalError(
+      createVideoError("DASH_FATAL_ERROR", "dash.js could not be loaded."),
+    );
+    return null;
+  }
+
+  const player = dashjs.MediaPlayer().create();
+  const events = dashjs.MediaPlayer.events;
+  if (options.settings) player.updateSettings(options.settings);
+
+  player.on(events.STREAM_INITIALIZED, () => {
+    options.onLiveChange(player.isDynamic());
+    options.onQualityLevels(buildDASHQualityLevels(player.getBitrateInfoListFor("video")));
+  });
+
+  player.on(events.QUALITY_CHANGE_RENDERED, (e) => {
+    if (e.mediaType === "video") options.onLevelSwitched(e.newQuality);
+  });
+
+  player.on(events.ERROR, (e) => {
+    const code = typeof e.error === "object" ? e.error.code : null;
+    if (code != null && NON_FATAL_ERROR_CODES.has(code)) {
+      console.warn("[dash] non-fatal:", e.error);
+      return;
+    }
+    console.error("[dash] fatal error:", e.error);
+    const mapped = mapDASHErrorCode(code);
+    const message = DASH_ERROR_MESSAGES[mapped] ?? DRM_ERROR_MESSAGES[mapped]!;
+    options.onFatalError(createVideoError(mapped, message, code != null ? String(code) : undefined));
+  });
+
+  if (options.drm) {
+    try {
+      player.setProtectionData(await buildDASHProtectionData(options.drm));
+    } catch (err) {
+      console.error("[dash] DRM setup failed:", err);
+      player.reset();
+      options.onFatalError(createDRMError("DRM_CERTIFICATE_REQUEST_FAILED", String(err)));
+      return null;
+    }
+    registerDASHLicenseFilters(player, options.drm);
+  }
+
+  player.initialize(video, src, !!options.autoplay);
+
+  return {
+    player,
+    setQualityLevel: (level) => {
+      const auto = level === -1;
+      player.updateSettings({
+        streaming: { abr: { autoSwitchBitrate: { video: auto } } },
+      });
+      if (!auto) player.setQualityFor("video", level, true);
+    },
+    destroy: () => player.reset(),
+  };
+}
@@ -0,0 +1,389 @@
+import type { HlsConfig } from "hls.js";
+import type { MediaPlayerClass, ProtectionDataSet } from "dashjs";
+import type {
+  DRMConfig,
+  DRMKeySystem,
+  DRMKeySystemConfig,
+  DRMLicenseRequest,
+  VideoError,
+  VideoErrorCode,
+} from "./types";
+import { createVideoError } from "./errors";
+
+/** EME key-system strings for each `drm` key */
+export const KEY_SYSTEM_IDS: Record<DRMKeySystem, string> = {
+  widevine: "com.widevine.alpha",
+  playready: "com.microsoft.playready",
+  fairplay: "com.apple.fps",
+  clearkey: "org.w3.clearkey",
+};
+
+export const DRM_ERROR_MESSAGES: Partial<Record<VideoErrorCode, string>> = {
+  DRM_KEY_SYSTEM_UNSUPPORTED: "This browser does not support the protection used by this video.",
+  DRM_LICENSE_REQUEST_FAILED: "The playback license could not be obtained.",
+  DRM_CERTIFICATE_REQUEST_FAILED: "The DRM server certificate could not be loaded.",
+  DRM_KEY_SESSION_FAILED: "The protected video could not be decrypted.",
+  DRM_OUTPUT_RESTRICTED: "This video can't be shown on the current display.",
+};
+
+export function createDRMError(code: VideoErrorCode, details?: string): VideoError {
+  return createVideoError(code, DRM_ERROR_MESSAGES[code] ?? "A DRM error occurred.", details);
+}
+
+/** Configured key systems in the host's order of preference */
+function getKeySystems(drm: DRMConfig): [DRMKeySystem, DRMKeySystemConfig][] {
+  return (Object.keys(drm) as DRMKeySystem[])
+    .filter((ks) => KEY_SYSTEM_IDS[ks] && drm[ks]?.licenseUrl)
+    .map((ks) => [ks, drm[ks]!]);
+}
+
+/** Config for a request URL; falls back to the first key system for rewritten URLs */
+function findConfigByUrl(drm: DRMConfig, url: string): DRMKeySystemConfig | undefined {
+  const systems = getKeySystems(drm);
+  return systems.find(([, c]) => c.licenseUrl === url)?.[1] ?? systems[0]?.[1];
+}
+
+function prepareLicenseRequest(
+  config: DRMKeySystemConfig,
+  url: string,
+  body: Uint8Array,
+): Promise<DRMLicenseRequest> {
+  const request: DRMLicenseRequest = { url, headers: { ...config.headers }, body };
+  return Promise.resolve(config.transformRequest ? config.transformRequest(request) : request);
+}
+
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+async function fetchCertificate(config: DRMKeySystemConfig): Promise<ArrayBuffer> {
+  const res = await fetch(config.certificateUrl!, {
+    credentials: config.withCredentials ? "include" : "same-origin",
+  });
+  if (!res.ok) throw new Error(`certificate request failed: HTTP ${res.status}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * POST a license challenge for `config` and return the (transformed)
+ * license. Used for native EME; hls.js and dash.js send their own requests
+ * and apply the same transforms through their hooks.
+ */
+export async function requestLicense(
+  config: DRMKeySystemConfig,
+  challenge: Uint8Array,
+): Promise<ArrayBuffer> {
+  const req = await prepareLicenseRequest(config, config.licenseUrl, challenge);
+  const res = await fetch(req.url, {
+    method: "POST",
+    headers: req.headers,
+    body: req.body as Uint8Array<ArrayBuffer>,
+    credentials: config.withCredentials ? "include" : "same-origin",
+  });
+  if (!res.ok) throw new Error(`license request failed: HTTP ${res.status}`);
+  const data = await res.arrayBuffer();
+  return config.transformResponse ? config.transformResponse(data) : data;
+}
+
+// ─── hls.js ───────────────────────────────────────────────────────────────────
+
+/**
+ * hls.js config enabling EME for the configured key systems. License
+ * headers, credentials and transforms go through `licenseXhrSetup` /
+ * `licenseResponseCallback`; certificates are fetched by hls.js itself.
+ */
+export function buildHLSDrmConfig(drm: DRMConfig): Partial<HlsConfig> {
+  const systems = getKeySystems(drm);
+  const byId = new Map(systems.map(([ks, config]) => [KEY_SYSTEM_IDS[ks], config]));
+  const drmSystems: Record<string, { licenseUrl: string; serverCertificateUrl?: string }> = {};
+  for (const [ks, config] of systems) {
+    drmSystems[KEY_SYSTEM_IDS[ks]] = {
+      licenseUrl: config.licenseUrl,
+      serverCertificateUrl: config.certificateUrl,
+    };
+  }
+
+  return {
+    emeEnabled: true,
+    drmSystems: drmSystems as HlsConfig["drmSystems"],
+    licenseXhrSetup(xhr, url, keyContext, licenseChallenge) {
+      const config = byId.get(keyContext.keySystem) ?? findConfigByUrl(drm, url);
+      if (!config) {
+        xhr.open("POST", url, true);
+        return;
+      }
+      return prepareLicenseRequest(config, url, licenseChallenge).then((req) => {
+        xhr.open("POST", req.url, true);
+        xhr.withCredentials = !!config.withCredentials;
+        for (const [name, value] of Object.entries(req.headers)) xhr.setRequestHeader(name, value);
+        return req.body;
+      });
+    },
+    licenseResponseCallback(xhr, url, keyContext) {
+      const config = byId.get(keyContext.keySystem) ?? findConfigByUrl(drm, url);
+      const data = xhr.response as ArrayBuffer;
+      return config?.transformResponse ? config.transformResponse(data) : data;
+    },
+  };
+}
+
+/** Map an hls.js `keySystemError` detail onto our DRM error codes */
+export function mapHLSKeySystemError(details: string): VideoErrorCode {
+  switch (details) {
+    case "keySystemNoKeys":
+    case "keySystemNoAccess":
+    case "keySystemNoConfiguredLicense":
+      return "DRM_KEY_SYSTEM_UNSUPPORTED";
+    case "keySystemLicenseRequestFailed":
+      return "DRM_LICENSE_REQUEST_FAILED";
+    case "keySystemServerCertificateRequestFailed":
+    case "keySystemServerCertificateUpdateFailed":
+      return "DRM_CERTIFICATE_REQUEST_FAILED";
+    case "keySystemStatusOutputRestricted":
+      return "DRM_OUTPUT_RESTRICTED";
+    default:
+      return "DRM_KEY_SESSION_FAILED";
+  }
+}
+
+// ─── dash.js ──────────────────────────────────────────────────────────────────
+
+const DASH_DRM_ERROR_CODES: Record<number, VideoErrorCode> = {
+  24: "DRM_KEY_SYSTEM_UNSUPPORTED", // CAPABILITY_MEDIAKEYS
+  112: "DRM_KEY_SYSTEM_UNSUPPORTED", // KEY_SYSTEM_ACCESS_DENIED
+  109: "DRM_CERTIFICATE_REQUEST_FAILED", // SERVER_CERTIFICATE_UPDATED
+  107: "DRM_LICENSE_REQUEST_FAILED", // MEDIA_KEY_MESSAGE
+  108: "DRM_LICENSE_REQUEST_FAILED", // MEDIA_KEY_MESSAGE_NO_CHALLENGE
+  111: "DRM_LICENSE_REQUEST_FAILED", // MEDIA_KEY_MESSAGE_NO_LICENSE_SERVER_URL
+  114: "DRM_LICENSE_REQUEST_FAILED", // MEDIA_KEY_MESSAGE_LICENSER
+  104: "DRM_OUTPUT_RESTRICTED", // MEDIA_KEYERR_OUTPUT
+};
+
+/** Map a dash.js protection error code (24, 100–114) onto our codes; null for other errors */
+export function mapDASHDrmErrorCode(code: number): VideoErrorCode | null {
+  if (DASH_DRM_ERROR_CODES[code]) return DASH_DRM_ERROR_CODES[code];
+  return code >= 100 && code <= 114 ? "DRM_KEY_SESSION_FAILED" : null;
+}
+
+/**
+ * dash.js protection data for the configured key systems, in order of
+ * preference. dash.js wants certificates inline, so they are fetched here;
+ * a key system whose certificate fails to load is left out. Rejects when
+ * that leaves nothing to play with.
+ */
+export async function buildDASHProtectionData(drm: DRMConfig): Promise<ProtectionDataSet> {
+  const data: ProtectionDataSet = {};
+  const systems = getKeySystems(drm);
+  let certificateError: unknown = null;
+
+  for (const [priority, [ks, config]] of systems.entries()) {
+    let serverCertificate: string | undefined;
+    if (config.certificateUrl) {
+      try {
+        serverCertificate = toBase64(await fetchCertificate(config));
+      } catch (err) {
+        console.warn(`[drm] ${ks} certificate unavailable:`, err);
+        certificateError = err;
+        continue;
+      }
+    }
+    data[KEY_SYSTEM_IDS[ks]] = {
+      serverURL: config.licenseUrl,
+      httpRequestHeaders: config.headers,
+      withCredentials: !!config.withCredentials,
+      serverCertificate,
+      priority,
+    };
+  }
+
+  if (!Object.keys(data).length && certificateError) throw certificateError;
+  return data;
+}
+
+/** Apply each key system's request / response transforms to dash.js license traffic */
+export function registerDASHLicenseFilters(player: MediaPlayerClass, drm: DRMConfig): void {
+  const systems = getKeySystems(drm);
+  if (!systems.some(([, c]) => c.transformRequest || c.transformResponse)) return;
+
+  player.registerLicenseRequestFilter(async (request) => {
+    const config = findConfigByUrl(drm, request.url);
+    if (!config?.transformRequest) return;
+    const req = await prepareLicenseRequest(config, request.url, new Uint8Array(request.data));
+    request.url = req.url;
+    request.headers = req.headers;
+    request.data = req.body.slice().buffer;
+  });
+
+  player.registerLicenseResponseFilter(async (response) => {
+    const config = findConfigByUrl(drm, response.url);
+    if (config?.transformResponse) response.data = config.transformResponse(response.data);
+  });
+}
+
+// ─── Native EME ───────────────────────────────────────────────────────────────
+
+/** Broad enough that requestMediaKeySystemAccess succeeds for typical content */
+function getKeySystemConfiguration(initDataType: string): MediaKeySystemConfiguration {
+  return {
+    initDataTypes: [initDataType],
+    videoCapabilities: [
+      { contentType: 'video/mp4; codecs="avc1.42E01E"' },
+      { contentType: 'video/webm; codecs="vp9"' },
+    ],
+    audioCapabilities: [
+      { contentType: 'audio/mp4; codecs="mp4a.40.2"' },
+      { contentType: 'audio/webm; codecs="opus"' },
+    ],
+  };
+}
+
+/** A failed EME step, tagged with the error code it should surface as */
+class DRMError extends Error {
+  readonly code: VideoErrorCode;
+  readonly cause: unknown;
+
+  constructor(code: VideoErrorCode, cause?: unknown) {
+    super(cause !== undefined ? `${code}: ${String(cause)}` : code);
+    this.name = "DRMError";
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** Tags a failed EME step with `code`, unless it already carries one */
+function step<T>(code: VideoErrorCode, promise: Promise<T>): Promise<T> {
+  return promise.catch((cause) => {
+    throw cause instanceof DRMError ? cause : new DRMError(code, cause);
+  });
+}
+
+/**
+ * ClearKey licenses are a JSON Web Key set. Checked before `update()` so a
+ * stand-in server answering with the wrong body fails as a license error
+ * naming the problem, rather than an opaque session error.
+ */
+function verifyClearKeyLicense(license: ArrayBuffer): ArrayBuffer {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(license));
+  } catch {
+    throw new DRMError("DRM_LICENSE_REQUEST_FAILED", "ClearKey license is not JSON");
+  }
+  const keys = (parsed as { keys?: unknown } | null)?.keys;
+  const valid =
+    Array.isArray(keys) &&
+    keys.length > 0 &&
+    keys.every((k) => typeof k?.kid === "string" && typeof k?.k === "string");
+  if (!valid) {
+    throw new DRMError("DRM_LICENSE_REQUEST_FAILED", "ClearKey license has no { kid, k } keys");
+  }
+  return license;
+}
+
+/**
+ * Handle `encrypted` events on `video` with the browser's own EME — used for
+ * native HLS (Safari / FairPlay) and progressive sources, where no engine
+ * manages keys for us. The first configured key system the browser supports
+ * wins; each new init data gets its own session, licensed via
+ * {@link requestLicense}. Attach before setting `src`.
+ *
+ * Errors are reported once through `onError`. Returns a cleanup function.
+ */
+export function attachNativeEME(
+  video: HTMLVideoElement,
+  drm: DRMConfig,
+  onError: (error: VideoError) => void,
+): () => void {
+  const systems = getKeySystems(drm);
+  const seenInitData = new Set<string>();
+  const sessions: MediaKeySession[] = [];
+  let keys: Promise<{
+    keySystem: DRMKeySystem;
+    config: DRMKeySystemConfig;
+    mediaKeys: MediaKeys;
+  }> | null = null;
+  let disposed = false;
+  let failed = false;
+
+  const fail = (err: unknown) => {
+    if (disposed || failed) return;
+    failed = true;
+    console.error("[drm]", err);
+    const { code, cause } = err instanceof DRMError ? err : new DRMError("DRM_KEY_SESSION_FAILED", err);
+    onError(createDRMError(code, cause !== undefined ? String(cause) : undefined));
+  };
+
+  const setupMediaKeys = async (initDataType: string) => {
+    if (typeof navigator === "undefined" || !navigator.requestMediaKeySystemAccess) {
+      throw new DRMError("DRM_KEY_SYSTEM_UNSUPPORTED", "EME unavailable");
+    }
+    for (const [ks, config] of systems) {
+      let access: MediaKeySystemAccess;
+      try {
+        access = await navigator.requestMediaKeySystemAccess(KEY_SYSTEM_IDS[ks], [
+          getKeySystemConfiguration(initDataType),
+        ]);
+      } catch {
+        continue;
+      }
+      const mediaKeys = await step("DRM_KEY_SESSION_FAILED", access.createMediaKeys());
+      if (config.certificateUrl) {
+        const certificate = await step("DRM_CERTIFICATE_REQUEST_FAILED", fetchCertificate(config));
+        await step("DRM_CERTIFICATE_REQUEST_FAILED", mediaKeys.setServerCertificate(certificate));
+      }
+      await step("DRM_KEY_SESSION_FAILED", video.setMediaKeys(mediaKeys));
+      return { keySystem: ks, config, mediaKeys };
+    }
+    throw new DRMError("DRM_KEY_SYSTEM_UNSUPPORTED", "no configured key system is supported");
+  };
+
+  const handleEncrypted = (e: MediaEncryptedEvent) => {
+    if (!e.initData || failed) return;
+    // Fired once per track and again on seeks; one session per init data
+    const id = `${e.initDataType}:${toBase64(e.initData)}`;
+    if (seenInitData.has(id)) return;
+    seenInitData.add(id);
+
+    const { initDataType, initData } = e;
+    keys ??= setupMediaKeys(initDataType);
+    keys
+      .then(({ keySystem, config, mediaKeys }) => {
+        if (disposed) return;
+        const session = mediaKeys.createSession();
+        sessions.push(session);
+
+        session.addEventListener("message", (msg) => {
+          step("DRM_LICENSE_REQUEST_FAILED", requestLicense(config, new Uint8Array(msg.message)))
+            .then((license) => (keySystem === "clearkey" ? verifyClearKeyLicense(license) : license))
+            .then((license) =>
+              disposed ? undefined : step("DRM_KEY_SESSION_FAILED", session.update(license)),
+            )
+            .catch(fail);
+        });
+
+        session.addEventListener("keystatuseschange", () => {
+          session.keyStatuses.forEach((status) => {
+            if (status === "output-restricted") fail(new DRMError("DRM_OUTPUT_RESTRICTED", status));
+            else if (status === "internal-error") fail(new DRMError("DRM_KEY_SESSION_FAILED", status));
+          });
+        });
+
+        return step("DRM_KEY_SESSION_FAILED", session.generateRequest(initDataType, initData));
+      })
+      .catch(fail);
+  };
+
+  video.addEventListener("encrypted", handleEncrypted);
+
+  return () => {
+    disposed = true;
+    video.removeEventListener("encrypted", handleEncrypted);
+    for (const session of sessions) session.close().catch(() => {});
+    keys
+      ?.then(({ mediaKeys }) => (video.mediaKeys === mediaKeys ? video.setMediaKeys(null) : undefined))
+      .catch(() => {});
+  };
+}
@@ -0,0 +1,39 @@
+import type { VideoError, VideoErrorCode } from "./types";
+
+/** Reloading the same source can't fix these: the browser, key system or stream stays the same */
+const UNRECOVERABLE_CODES = new Set<VideoErrorCode>([
+  "MEDIA_ERR_SRC_NOT_SUPPORTED",
+  "HLS_FATAL_ERROR",
+  "DASH_FATAL_ERROR",
+  "DRM_KEY_SYSTEM_UNSUPPORTED",
+  "DRM_OUTPUT_RESTRICTED",
+]);
+
+/** Lost connectivity: the browser's `online` event is worth a retry */
+const NETWORK_CODES = new Set<VideoErrorCode>([
+  "MEDIA_ERR_NETWORK",
+  "HLS_NETWORK_ERROR",
+  "DASH_NETWORK_ERROR",
+]);
+
+export function createVideoError(
+  code: VideoErrorCode,
+  message: string,
+  details?: string,
+): VideoError {
+  return { code, message, details, recoverable: !UNRECOVERABLE_CODES.has(code) };
+}
+
+export function isNetworkError(error: VideoError): boolean {
+  return error.recoverable === true && NETWORK_CODES.has(error.code);
+}
+
+/** Which heading the error overlay shows; see `PlayerMessages.errorTitles` */
+export type ErrorKind = "unsupportedFormat" | "protectedContent" | "stream" | "playback";
+
+export function getErrorKind(error: VideoError): ErrorKind {
+  if (error.code === "MEDIA_ERR_SRC_NOT_SUPPORTED") return "unsupportedFormat";
+  if (error.code.startsWith("DRM")) return "protectedContent";
+  if (error.code.startsWith("HLS") || error.code.startsWith("DASH")) return "stream";
+  return "playback";
+}
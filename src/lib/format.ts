@@ -1,8 +1,32 @@
+const digitCache = new Map<string, string[] | null>();
+
+/** The locale's numerals for 0–9; null when they are the Latin ones */
+function getDigits(locale: string): string[] | null {
+  let digits = digitCache.get(locale);
+  if (digits === undefined) {
+    try {
+      const format = new Intl.NumberFormat(locale, { useGrouping: false });
+      const mapped = Array.from({ length: 10 }, (_, i) => format.format(i));
+      digits = mapped.every((d, i) => d === String(i)) ? null : mapped;
+    } catch {
+      digits = null;
+    }
+    digitCache.set(locale, digits);
+  }
+  return digits;
+}
+
+/** "12:05" → "١٢:٠٥" for locales with their own numerals */
+export function localizeDigits(text: string, locale?: string): string {
+  const digits = locale ? getDigits(locale) : null;
+  return digits ? text.replace(/[0-9]/g, (d) => digits[Number(d)]) : text;
+}
+
 /**
- * Format seconds → MM:SS or HH:MM:SS
+ * Format seconds → MM:SS or HH:MM:SS, in `locale`'s numerals
  */
-export function formatTime(seconds: number): string {
-  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+export function formatTime(seconds: number, locale?: string): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return localizeDigits("0:00", locale);
 
   const total = Math.floor(seconds);
   const h = Math.floor(total / 3600);
@@ -10,9 +34,9 @@ export function formatTime(seconds: number): string {
   const s = total % 60;
 
   if (h > 0) {
-    return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+    return localizeDigits(`${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`, locale);
   }
-  return `${m}:${String(s).padStart(2, "0")}`;
+  return localizeDigits(`${m}:${String(s).padStart(2, "0")}`, locale);
 }
 
 /**
@@ -31,11 +55,23 @@ export function isHLSUrl(url: string): boolean {
   }
 }
 
+/**
+ * Detect an MPEG-DASH manifest URL regardless of query-string parameters.
+ */
+export function isDASHUrl(url: string): boolean {
+  try {
+    return new URL(url, "https://x").pathname.toLowerCase().endsWith(".mpd");
+  } catch {
+    return url.toLowerCase().split("?")[0].endsWith(".mpd");
+  }
+}
+
 /**
  * Return the MIME type for a given video URL.
  */
 export function getMimeType(url: string): string {
   if (isHLSUrl(url)) return "application/x-mpegURL";
+  if (isDASHUrl(url)) return "application/dash+xml";
 
   const lower = url.toLowerCase().split("?")[0];
   if (lower.endsWith(".mp4")) return "video/mp4";
@@ -45,3 +81,16 @@ export function getMimeType(url: string): string {
 
   return "video/mp4";
 }
+
+/**
+ * Format a wall-clock time → "14:03:27" in `locale`, else the viewer's
+ */
+export function formatWallClock(date: Date, locale?: string): string {
+  const options: Intl.DateTimeFormatOptions = { hour: "2-digit", minute: "2-digit", second: "2-digit" };
+  try {
+    return date.toLocaleTimeString(locale, options);
+  } catch {
+    // Malformed tags ("en_US") throw a RangeError
+    return date.toLocaleTimeString(undefined, options);
+  }
+}
@@ -1,51 +1,241 @@
 import HLS, { type HlsConfig, Events } from "hls.js";
-import type { HLSQualityLevel, PlayerError } from "./types";
+import type {
+  HLSQualityLevel,
+  AudioTrack,
+  SubtitleTrack,
+  VideoError,
+  RetryPolicy,
+  RetryEvent,
+  RetryErrorType,
+} from "./types";
+import { createDRMError, mapHLSKeySystemError } from "./drm";
+import { createVideoError } from "./errors";
 
-const MAX_NETWORK_RETRIES = 3;
+/** Production defaults; `hlsConfig` is spread on top */
+export const DEFAULT_HLS_CONFIG: Partial<HlsConfig> = {
+  autoStartLoad: true,
+  startLevel: -1,              // start with auto ABR
+  capLevelOnFPSDrop: true,
+  capLevelToPlayerSize: true,
+  enableWorker: true,
+
+  // ABR tuning
+  abrEwmaFastLive: 3,
+  abrEwmaSlowLive: 9,
+  abrEwmaFastVoD: 3,
+  abrEwmaSlowVoD: 9,
+  abrBandWidthFactor: 0.95,
+
+  // Buffer tuning
+  maxBufferLength: 30,
+  maxMaxBufferLength: 600,
+  maxBufferSize: 60 * 1000 * 1000, // 60 MB
+
+  // Low-latency live
+  liveBackBufferLength: 30,
+  liveSyncDurationCount: 3,
+};
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.3,
+  network: "retry",
+  media: "retry",
+  other: "fail",
+};
+
+/** Steps tried in order for repeated fatal media errors */
+const MEDIA_ESCALATION: RetryEvent["action"][] = ["recoverMediaError", "swapAudioCodec", "reload"];
+
+/**
+ * Delay before retry `attempt` (1-based): exponential from `baseDelay`,
+ * capped at `maxDelay`, then spread by ±`jitter` so many players recovering
+ * from the same outage don't retry in lockstep.
+ */
+export function getRetryDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const exp = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  const spread = 1 + (Math.random() * 2 - 1) * policy.jitter;
+  return Math.max(0, Math.round(exp * spread));
+}
+
+function classifyError(type: string): RetryErrorType {
+  if (type === HLS.ErrorTypes.NETWORK_ERROR) return "network";
+  if (type === HLS.ErrorTypes.MEDIA_ERROR) return "media";
+  return "other";
+}
+
+export interface HLSControllerOptions {
+  config?: Partial<HlsConfig>;
+  retryPolicy?: RetryPolicy;
+  onRetry?: (event: RetryEvent) => void;
+  /** Recovery gave up; for "other" errors the instance is already destroyed */
+  onFatalError: (error: VideoError, errorType: RetryErrorType) => void;
+}
+
+export interface HLSController {
+  hls: HLS;
+  /** Destroy the instance and cancel any scheduled retry */
+  destroy: () => void;
+}
 
 /**
- * Initialize an HLS.js instance with sensible production defaults.
+ * Create an HLS.js instance for `src` on `video`, with error recovery per
+ * `retryPolicy`:
+ *
+ * - network — `startLoad()` after an exponential, jittered delay
+ * - media — `recoverMediaError()`, then `swapAudioCodec()` + recover, then a
+ *   full reload of the source from the current position
+ * - other (mux, …) — fail unless the policy says "retry", in which case the
+ *   source is reloaded
+ * - key system — always fail with a `DRM_*` code; a reload won't fix a
+ *   refused license
+ *
+ * Retry counters reset once a fragment loads / buffers again, so a long
+ * session can survive several separate outages.
  * Returns null when HLS.js is not supported (caller should fall back to native).
  */
-export function initializeHLS(
+export function createHLSController(
   video: HTMLVideoElement,
-  hlsUrl: string,
-  config?: Partial<HlsConfig>,
-): HLS | null {
+  src: string,
+  options: HLSControllerOptions,
+): HLSController | null {
   if (!HLS.isSupported()) {
     return null;
   }
 
-  const hls = new HLS({
-    autoStartLoad: true,
-    startLevel: -1,              // start with auto ABR
-    capLevelOnFPSDrop: true,
-    capLevelToPlayerSize: true,
-    enableWorker: true,
-
-    // ABR tuning
-    abrEwmaFastLive: 3,
-    abrEwmaSlowLive: 9,
-    abrEwmaFastVoD: 3,
-    abrEwmaSlowVoD: 9,
-    abrBandWidthFactor: 0.95,
-
-    // Buffer tuning
-    maxBufferLength: 30,
-    maxMaxBufferLength: 600,
-    maxBufferSize: 60 * 1000 * 1000, // 60 MB
-
-    // Low-latency live
-    liveBackBufferLength: 30,
-    liveSyncDurationCount: 3,
-
-    ...config,
+  const policy: Required<RetryPolicy> = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  const hls = new HLS({ ...DEFAULT_HLS_CONFIG, ...options.config });
+  let destroyed = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let networkRetries = 0;
+  let mediaStage = 0;
+  let otherReloaded = false;
+
+  const destroy = () => {
+    destroyed = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    hls.destroy();
+  };
+
+  /** Tear down the MediaSource and load the manifest again from the current position */
+  const reload = () => {
+    const position = video.currentTime;
+    hls.detachMedia();
+    hls.config.startPosition = position > 0 ? position : -1;
+    hls.attachMedia(video);
+    hls.loadSource(src);
+  };
+
+  const fail = (errorType: RetryErrorType, details: string, keySystem = false) => {
+    console.error(`[hls] fatal ${errorType} error:`, details);
+    const error: VideoError = keySystem
+      ? createDRMError(mapHLSKeySystemError(details), details)
+      : errorType === "network"
+        ? createVideoError("HLS_NETWORK_ERROR", "Failed to load stream after multiple retries.", details)
+        : errorType === "media"
+          ? createVideoError("HLS_MEDIA_ERROR", "The stream could not be decoded.", details)
+          : createVideoError("HLS_FATAL_ERROR", "An unrecoverable HLS error occurred.", details);
+    if (errorType === "other") destroy();
+    options.onFatalError(error, errorType);
+  };
+
+  // A successful load means the last recovery worked
+  hls.on(Events.FRAG_LOADED, () => {
+    networkRetries = 0;
+  });
+  hls.on(Events.FRAG_BUFFERED, () => {
+    mediaStage = 0;
+    otherReloaded = false;
+  });
+
+  hls.on(Events.ERROR, (_, data) => {
+    if (!data.fatal) {
+      // Non-fatal: log and let HLS.js auto-recover
+      console.warn("[hls] non-fatal:", data.details);
+      return;
+    }
+    const errorType = classifyError(data.type);
+    if (data.type === HLS.ErrorTypes.KEY_SYSTEM_ERROR) {
+      fail(errorType, data.details, true);
+      return;
+    }
+    if (policy[errorType] === "fail") {
+      fail(errorType, data.details);
+      return;
+    }
+
+    switch (errorType) {
+      case "network": {
+        if (networkRetries >= policy.maxRetries) {
+          fail(errorType, data.details);
+          return;
+        }
+        networkRetries += 1;
+        const delay = getRetryDelay(networkRetries, policy);
+        console.warn(
+          `[hls] network error – retry ${networkRetries}/${policy.maxRetries} in ${delay}ms`,
+        );
+        options.onRetry?.({
+          errorType,
+          action: "startLoad",
+          attempt: networkRetries,
+          maxRetries: policy.maxRetries,
+          delay,
+          details: data.details,
+        });
+        timer = setTimeout(() => {
+          timer = null;
+          if (!destroyed) hls.startLoad();
+        }, delay);
+        return;
+      }
+      case "media": {
+        const action = MEDIA_ESCALATION[mediaStage];
+        if (!action) {
+          fail(errorType, data.details);
+          return;
+        }
+        mediaStage += 1;
+        console.warn(`[hls] media error – ${action}`);
+        options.onRetry?.({
+          errorType,
+          action,
+          attempt: mediaStage,
+          maxRetries: MEDIA_ESCALATION.length,
+          delay: 0,
+          details: data.details,
+        });
+        if (action === "swapAudioCodec") hls.swapAudioCodec();
+        if (action === "reload") reload();
+        else hls.recoverMediaError();
+        return;
+      }
+      default:
+        // One reload per failure; the same error again right after ends here
+        if (otherReloaded) {
+          fail(errorType, data.details);
+          return;
+        }
+        otherReloaded = true;
+        options.onRetry?.({
+          errorType,
+          action: "reload",
+          attempt: 1,
+          maxRetries: 1,
+          delay: 0,
+          details: data.details,
+        });
+        reload();
+    }
   });
 
   hls.attachMedia(video);
-  hls.loadSource(hlsUrl);
+  hls.loadSource(src);
 
-  return hls;
+  return { hls, destroy };
 }
 
 /**
@@ -62,58 +252,36 @@ export function buildQualityLevels(levels: HLS["levels"]): HLSQualityLevel[] {
 }
 
 /**
- * Attach a robust error-recovery handler to an HLS instance.
- * Returns the retry-count object so callers can inspect / reset it.
+ * Map HLS.js audio renditions to our audio-track shape.
  */
-export function attachHLSErrorHandler(
-  hls: HLS,
-  onFatalError: (err: PlayerError) => void,
-): { retries: number } {
-  const state = { retries: 0 };
-
-  hls.on(Events.ERROR, (_, data) => {
-    if (!data.fatal) {
-      // Non-fatal: log and let HLS.js auto-recover
-      console.warn("[hls] non-fatal error:", data.type, data.details);
-      return;
-    }
-
-    switch (data.type) {
-      case HLS.ErrorTypes.NETWORK_ERROR:
-        if (state.retries < MAX_NETWORK_RETRIES) {
-          state.retries += 1;
-          console.warn(
-            `[hls] network error – retry ${state.retries}/${MAX_NETWORK_RETRIES}`,
-          );
-          // Exponential back-off before retrying
-          setTimeout(() => hls.startLoad(), 1000 * state.retries);
-        } else {
-          console.error("[hls] fatal network error after retries:", data);
-          onFatalError({
-            code: "HLS_NETWORK_ERROR",
-            message: "Failed to load video stream after multiple retries.",
-            details: data.details,
-          });
-        }
-        break;
-
-      case HLS.ErrorTypes.MEDIA_ERROR:
-        console.warn("[hls] media error – attempting recovery");
-        hls.recoverMediaError();
-        break;
+export function buildAudioTracks(tracks: HLS["audioTracks"]): AudioTrack[] {
+  return tracks.map((t, i) => ({
+    id: i,
+    name: t.name || t.lang || `Audio ${i + 1}`,
+    lang: t.lang ?? "",
+    default: t.default,
+  }));
+}
 
-      default:
-        console.error("[hls] unrecoverable fatal error:", data);
-        hls.destroy();
-        onFatalError({
-          code: "HLS_FATAL_ERROR",
-          message: "An unrecoverable HLS error occurred.",
-          details: data.details,
-        });
-    }
-  });
+/**
+ * Map HLS.js subtitle renditions to embedded subtitle tracks.
+ * The id encodes the HLS.js track index — see {@link parseHLSSubtitleId}.
+ */
+export function buildSubtitleTracks(tracks: HLS["subtitleTracks"]): SubtitleTrack[] {
+  return tracks.map((t, i) => ({
+    id: `hls-${i}`,
+    src: "",
+    label: t.name || t.lang || `Subtitles ${i + 1}`,
+    srclang: t.lang ?? "",
+    default: t.default,
+    embedded: true,
+  }));
+}
 
-  return state;
+/** HLS.js subtitle track index for an id from {@link buildSubtitleTracks}, else -1 */
+export function parseHLSSubtitleId(id: string | null): number {
+  const m = id ? /^hls-(\d+)$/.exec(id) : null;
+  return m ? Number(m[1]) : -1;
 }
 
 /** Safely destroy an HLS instance */
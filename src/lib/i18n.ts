@@ -0,0 +1,159 @@
+import type { CaptionEdgeStyle, CaptionFontFamily, ShortcutAction } from "./types";
+import type { CaptionColorName } from "./captionStyle";
+import type { ErrorKind } from "./errors";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+import { de } from "./locales/de";
+import { ar } from "./locales/ar";
+
+/**
+ * Every user-facing string in the player. Placeholders in braces —
+ * `{seconds}`, `{time}` — are filled in by `formatMessage`; numbers and
+ * times arrive already formatted for the locale.
+ */
+export interface PlayerMessages {
+  // ── Control bar ──
+  play: string;
+  pause: string;
+  mute: string;
+  unmute: string;
+  volume: string;
+  fullscreen: string;
+  exitFullscreen: string;
+  pictureInPicture: string;
+  exitPictureInPicture: string;
+  theaterMode: string;
+  exitTheaterMode: string;
+  previous: string;
+  next: string;
+  settings: string;
+  /** Label of the control bar region */
+  controls: string;
+  /** Label of the progress slider */
+  progress: string;
+  /** Badge on live streams */
+  live: string;
+  /** Live button while behind the edge */
+  goLive: string;
+  /** Live button tooltip */
+  goToLive: string;
+  /** Time display / tooltip at the live edge */
+  livePosition: string;
+
+  // ── Settings menu ──
+  speed: string;
+  quality: string;
+  subtitles: string;
+  audio: string;
+  playbackSpeed: string;
+  normalSpeed: string;
+  auto: string;
+  subtitlesOff: string;
+  captionStyle: string;
+  /** `{kbps}` */
+  bitrate: string;
+
+  // ── Caption style ──
+  fontSize: string;
+  fontFamily: string;
+  textColor: string;
+  edgeStyle: string;
+  background: string;
+  backgroundOpacity: string;
+  window: string;
+  windowOpacity: string;
+  resetCaptionStyle: string;
+  captionColors: Record<CaptionColorName, string>;
+  captionFonts: Record<CaptionFontFamily, string>;
+  captionEdges: Record<CaptionEdgeStyle, string>;
+
+  // ── Context menu ──
+  loop: string;
+  copyVideoUrl: string;
+  copyVideoUrlAtTime: string;
+
+  // ── Overlays ──
+  /** `{seconds}` */
+  upNextIn: string;
+  /** Playlist item without a title: `{number}` */
+  untitledVideo: string;
+  cancel: string;
+  playNow: string;
+  resumePlayback: string;
+  /** `{time}` */
+  resumeFrom: string;
+  startOver: string;
+
+  // ── Ads ──
+  ad: string;
+  /** `{index}`, `{count}` */
+  adOfPod: string;
+  learnMore: string;
+  playAd: string;
+  pauseAd: string;
+  muteAd: string;
+  unmuteAd: string;
+  /** `{seconds}` */
+  skipIn: string;
+  skipAd: string;
+
+  // ── Errors ──
+  errorTitles: Record<ErrorKind, string>;
+  retry: string;
+
+  // ── Keyboard shortcuts ──
+  keyboardShortcuts: string;
+  close: string;
+  shortcuts: Record<ShortcutAction, string>;
+}
+
+/** `messages` prop: any subset, groups (`captionColors`, `shortcuts`, …) merged key by key */
+export type PlayerMessagesOverride = {
+  [K in keyof PlayerMessages]?: PlayerMessages[K] extends string
+    ? string
+    : Partial<PlayerMessages[K]>;
+};
+
+export const DEFAULT_MESSAGES: PlayerMessages = en;
+
+/** Built-in catalogs by language subtag */
+export const BUILT_IN_MESSAGES: Record<string, PlayerMessages> = { en, es, fr, de, ar };
+
+const RTL_LANGUAGES = new Set(["ar", "he", "fa", "ur", "ps", "yi", "dv", "ckb", "sd", "ug"]);
+
+function getLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * The catalog for `locale` — an exact built-in match, then its language
+ * ("fr-CA" → fr), else English — with `overrides` on top.
+ */
+export function resolveMessages(locale?: string, overrides?: PlayerMessagesOverride): PlayerMessages {
+  const base =
+    (locale && (BUILT_IN_MESSAGES[locale] ?? BUILT_IN_MESSAGES[getLanguage(locale)])) ||
+    DEFAULT_MESSAGES;
+  if (!overrides) return base;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = typeof value === "object" && typeof current === "object"
+      ? { ...current, ...value }
+      : value;
+  }
+  return merged as unknown as PlayerMessages;
+}
+
+/** Writing direction of `locale`'s script; the layout mirrors for "rtl" */
+export function getTextDirection(locale?: string): "ltr" | "rtl" {
+  return locale && RTL_LANGUAGES.has(getLanguage(locale)) ? "rtl" : "ltr";
+}
+
+/** Fill `{name}` placeholders; unknown ones are left as they are */
+export function formatMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match,
+  );
+}
@@ -0,0 +1,158 @@
+import type HLS from "hls.js";
+import type { HlsConfig } from "hls.js";
+import type { MediaPlayerSettingClass } from "dashjs";
+import type { LiveLatencyOptions, LiveWindow } from "./types";
+import { formatTime } from "./format";
+
+/** Edge tolerance when the segment duration is unknown (native HLS, DASH) */
+const DEFAULT_EDGE_TOLERANCE = 10;
+
+export interface LiveWindowSources {
+  hls?: HLS | null;
+  /** dash.js target live delay in seconds; 0 / undefined for other engines */
+  dashLiveDelay?: number;
+}
+
+/**
+ * The seekable window of a live stream, from whichever engine plays it:
+ *
+ * - hls.js: `video.seekable` (its live seekable range), else the playlist's
+ *   first fragment; the edge is `liveSyncPosition`.
+ * - dash.js: `video.seekable`; the edge sits `dashLiveDelay` behind its end.
+ * - Native HLS (Safari): `video.seekable`; its end already honours HOLD-BACK.
+ *
+ * Returns null until the engine has reported a window.
+ */
+export function getLiveWindow(
+  video: HTMLVideoElement,
+  { hls, dashLiveDelay = 0 }: LiveWindowSources = {},
+): LiveWindow | null {
+  const seekable = video.seekable;
+  const last = seekable.length - 1;
+  let start = last >= 0 ? seekable.start(last) : NaN;
+  let end = last >= 0 ? seekable.end(last) : NaN;
+  let tolerance = DEFAULT_EDGE_TOLERANCE;
+
+  if (hls) {
+    const details = hls.latestLevelDetails;
+    if (details?.live) {
+      if (!Number.isFinite(start) && details.fragments.length) start = details.fragments[0].start;
+      if (!Number.isFinite(end)) end = details.edge;
+      // hls.js moves the edge a segment at a time; stay "live" across one jump
+      tolerance = Math.max(3, details.targetduration * 1.5);
+    }
+    const sync = hls.liveSyncPosition;
+    if (sync != null && Number.isFinite(sync)) end = sync;
+  } else if (dashLiveDelay > 0 && Number.isFinite(end)) {
+    end -= dashLiveDelay;
+  }
+
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+  return { start, end: Math.max(start, end), edgeTolerance: tolerance };
+}
+
+/** Seconds the playhead is behind the live edge; 0 at or past it */
+export function getLiveLatency(live: LiveWindow, currentTime: number): number {
+  return Math.max(0, live.end - currentTime);
+}
+
+/** Without a known window (still loading) the stream counts as at the edge */
+export function isAtLiveEdge(live: LiveWindow | null, currentTime: number): boolean {
+  return !live || getLiveLatency(live, currentTime) <= live.edgeTolerance;
+}
+
+/** "Live" at the edge, else how far behind it: "-0:42" */
+export function formatLivePosition(
+  live: LiveWindow,
+  currentTime: number,
+  liveLabel = "Live",
+  locale?: string,
+): string {
+  return isAtLiveEdge(live, currentTime)
+    ? liveLabel
+    : `-${formatTime(getLiveLatency(live, currentTime), locale)}`;
+}
+
+// ─── Low-latency catch-up ─────────────────────────────────────────────────────
+
+export const DEFAULT_LIVE_LATENCY_TARGET = 3;
+
+/** Within this many seconds of the target the rate goes back to 1 */
+const CATCH_UP_DEADZONE = 0.25;
+/** Rate change per second of distance past the deadzone: 2 s behind → 1.1× */
+const CATCH_UP_GAIN = 0.05;
+
+/** `liveLatency` with defaults filled in; null when the option is off */
+export function resolveLiveLatency(
+  option: boolean | LiveLatencyOptions | undefined,
+): Required<LiveLatencyOptions> | null {
+  if (!option) return null;
+  const opts = option === true ? {} : option;
+  const target = opts.target ?? DEFAULT_LIVE_LATENCY_TARGET;
+  return {
+    target,
+    max: Math.max(target + 1, opts.max ?? target * 3),
+    minRate: opts.minRate ?? 0.95,
+    maxRate: opts.maxRate ?? 1.1,
+  };
+}
+
+/**
+ * hls.js settings for a latency target: low-latency mode (LL-HLS parts and
+ * blocking reloads) and a sync point `target` seconds from the edge. hls.js'
+ * own rate control stays off — the player does the catch-up.
+ */
+export function buildHLSLatencyConfig(latency: Required<LiveLatencyOptions>): Partial<HlsConfig> {
+  return {
+    lowLatencyMode: true,
+    // hls.js rejects a config that mixes the *Count and seconds variants
+    liveSyncDurationCount: undefined,
+    liveSyncDuration: latency.target,
+    maxLiveSyncPlaybackRate: 1,
+  };
+}
+
+/** dash.js equivalent: live delay at the target, its built-in catch-up off */
+export function buildDASHLatencySettings(
+  latency: Required<LiveLatencyOptions>,
+): MediaPlayerSettingClass {
+  return {
+    streaming: {
+      delay: { liveDelay: latency.target },
+      liveCatchup: { enabled: false },
+    },
+  };
+}
+
+/**
+ * Seconds between the playhead and the live edge: hls.js' `latency`,
+ * dash.js' `getCurrentLiveLatency()`, else the end of `video.seekable`.
+ * Null when the engine can't tell yet.
+ */
+export function measureLiveLatency(
+  video: HTMLVideoElement,
+  { hls, dashLatency }: { hls?: HLS | null; dashLatency?: number },
+): number | null {
+  let latency = NaN;
+  if (hls) {
+    if (hls.latestLevelDetails) latency = hls.latency;
+  } else if (dashLatency !== undefined) {
+    latency = dashLatency;
+  } else if (video.seekable.length) {
+    latency = video.seekable.end(video.seekable.length - 1) - video.currentTime;
+  }
+  return Number.isFinite(latency) && latency >= 0 ? latency : null;
+}
+
+/**
+ * Playback rate that steers `latency` towards the target: proportional to
+ * the distance past the deadzone, so it eases away from 1 and back again,
+ * clamped to [minRate, maxRate]. Rounded to 0.01 so small jitter doesn't
+ * fire a `ratechange` every tick.
+ */
+export function getCatchUpRate(latency: number, config: Required<LiveLatencyOptions>): number {
+  const distance = latency - config.target;
+  if (Math.abs(distance) < CATCH_UP_DEADZONE) return 1;
+  const rate = 1 + CATCH_UP_GAIN * (distance - Math.sign(distance) * CATCH_UP_DEADZONE);
+  return Math.min(config.maxRate, Math.max(config.minRate, Math.round(rate * 100) / 100));
+}
@@ -0,0 +1,127 @@
+import type { PlayerMessages } from "../i18n";
+
+export const ar: PlayerMessages = {
+  play: "تشغيل",
+  pause: "إيقاف مؤقت",
+  mute: "كتم الصوت",
+  unmute: "إلغاء كتم الصوت",
+  volume: "مستوى الصوت",
+  fullscreen: "ملء الشاشة",
+  exitFullscreen: "الخروج من ملء الشاشة",
+  pictureInPicture: "صورة داخل صورة",
+  exitPictureInPicture: "الخروج من صورة داخل صورة",
+  theaterMode: "وضع المسرح",
+  exitTheaterMode: "الخروج من وضع المسرح",
+  previous: "السابق",
+  next: "التالي",
+  settings: "الإعدادات",
+  controls: "عناصر التحكم في مشغل الفيديو",
+  progress: "تقدم الفيديو",
+  live: "مباشر",
+  goLive: "إلى المباشر",
+  goToLive: "الانتقال إلى البث المباشر",
+  livePosition: "مباشر",
+
+  speed: "السرعة",
+  quality: "الجودة",
+  subtitles: "الترجمة",
+  audio: "الصوت",
+  playbackSpeed: "سرعة التشغيل",
+  normalSpeed: "عادية",
+  auto: "تلقائي",
+  subtitlesOff: "إيقاف",
+  captionStyle: "نمط الترجمة",
+  bitrate: "{kbps} كيلوبت/ث",
+
+  fontSize: "حجم الخط",
+  fontFamily: "نوع الخط",
+  textColor: "لون النص",
+  edgeStyle: "نمط الحواف",
+  background: "الخلفية",
+  backgroundOpacity: "شفافية الخلفية",
+  window: "النافذة",
+  windowOpacity: "شفافية النافذة",
+  resetCaptionStyle: "إعادة التعيين إلى الافتراضي",
+  captionColors: {
+    white: "أبيض",
+    yellow: "أصفر",
+    green: "أخضر",
+    cyan: "سماوي",
+    blue: "أزرق",
+    magenta: "أرجواني",
+    red: "أحمر",
+    black: "أسود",
+  },
+  captionFonts: {
+    proportionalSans: "Sans-Serif متناسب",
+    monospaceSans: "Sans-Serif أحادي المسافة",
+    proportionalSerif: "Serif متناسب",
+    monospaceSerif: "Serif أحادي المسافة",
+    casual: "غير رسمي",
+    cursive: "مخطوط",
+    smallCaps: "أحرف كبيرة صغيرة",
+  },
+  captionEdges: {
+    none: "بلا",
+    raised: "بارز",
+    depressed: "غائر",
+    uniform: "موحد",
+    dropShadow: "ظل",
+  },
+
+  loop: "تكرار",
+  copyVideoUrl: "نسخ رابط الفيديو",
+  copyVideoUrlAtTime: "نسخ رابط الفيديو عند الوقت الحالي",
+
+  upNextIn: "التالي خلال {seconds}",
+  untitledVideo: "فيديو {number}",
+  cancel: "إلغاء",
+  playNow: "تشغيل الآن",
+  resumePlayback: "استئناف التشغيل",
+  resumeFrom: "الاستئناف من {time}",
+  startOver: "البدء من جديد",
+
+  ad: "إعلان",
+  adOfPod: "إعلان {index} من {count}",
+  learnMore: "مزيد من المعلومات",
+  playAd: "تشغيل الإعلان",
+  pauseAd: "إيقاف الإعلان مؤقتًا",
+  muteAd: "كتم صوت الإعلان",
+  unmuteAd: "إلغاء كتم صوت الإعلان",
+  skipIn: "التخطي خلال {seconds}",
+  skipAd: "تخطي الإعلان",
+
+  errorTitles: {
+    unsupportedFormat: "تنسيق غير مدعوم",
+    protectedContent: "خطأ في المحتوى المحمي",
+    stream: "خطأ في البث",
+    playback: "خطأ في التشغيل",
+  },
+  retry: "إعادة المحاولة",
+
+  keyboardShortcuts: "اختصارات لوحة المفاتيح",
+  close: "إغلاق",
+  shortcuts: {
+    togglePlay: "تشغيل / إيقاف مؤقت",
+    seekBackward: "رجوع 5 ثوانٍ",
+    seekForward: "تقديم 5 ثوانٍ",
+    rewind: "رجوع 10 ثوانٍ",
+    fastForward: "تقديم 10 ثوانٍ",
+    volumeUp: "رفع الصوت",
+    volumeDown: "خفض الصوت",
+    toggleMute: "كتم / إلغاء كتم الصوت",
+    toggleFullscreen: "ملء الشاشة",
+    togglePictureInPicture: "صورة داخل صورة",
+    toggleTheaterMode: "وضع المسرح",
+    toggleCaptions: "تشغيل / إيقاف الترجمة",
+    seekToLive: "الانتقال إلى البث المباشر",
+    previous: "الفيديو السابق",
+    next: "الفيديو التالي",
+    slowDown: "إبطاء",
+    speedUp: "تسريع",
+    previousFrame: "الإطار السابق",
+    nextFrame: "الإطار التالي",
+    seekToPercent: "الانتقال إلى 0% – 90%",
+    showShortcuts: "اختصارات لوحة المفاتيح",
+  },
+};
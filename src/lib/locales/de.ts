@@ -0,0 +1,127 @@
+import type { PlayerMessages } from "../i18n";
+
+export const de: PlayerMessages = {
+  play: "Wiedergabe",
+  pause: "Pause",
+  mute: "Stummschalten",
+  unmute: "Stummschaltung aufheben",
+  volume: "Lautstärke",
+  fullscreen: "Vollbild",
+  exitFullscreen: "Vollbild beenden",
+  pictureInPicture: "Bild-im-Bild",
+  exitPictureInPicture: "Bild-im-Bild beenden",
+  theaterMode: "Kinomodus",
+  exitTheaterMode: "Kinomodus beenden",
+  previous: "Zurück",
+  next: "Weiter",
+  settings: "Einstellungen",
+  controls: "Steuerelemente des Videoplayers",
+  progress: "Videofortschritt",
+  live: "LIVE",
+  goLive: "ZU LIVE",
+  goToLive: "Zur Live-Position",
+  livePosition: "Live",
+
+  speed: "Geschwindigkeit",
+  quality: "Qualität",
+  subtitles: "Untertitel",
+  audio: "Audio",
+  playbackSpeed: "Wiedergabegeschwindigkeit",
+  normalSpeed: "Normal",
+  auto: "Automatisch",
+  subtitlesOff: "Aus",
+  captionStyle: "Untertitelstil",
+  bitrate: "{kbps} kbit/s",
+
+  fontSize: "Schriftgröße",
+  fontFamily: "Schriftart",
+  textColor: "Textfarbe",
+  edgeStyle: "Kantenstil",
+  background: "Hintergrund",
+  backgroundOpacity: "Deckkraft des Hintergrunds",
+  window: "Fenster",
+  windowOpacity: "Deckkraft des Fensters",
+  resetCaptionStyle: "Zurücksetzen",
+  captionColors: {
+    white: "Weiß",
+    yellow: "Gelb",
+    green: "Grün",
+    cyan: "Cyan",
+    blue: "Blau",
+    magenta: "Magenta",
+    red: "Rot",
+    black: "Schwarz",
+  },
+  captionFonts: {
+    proportionalSans: "Proportional, serifenlos",
+    monospaceSans: "Festbreite, serifenlos",
+    proportionalSerif: "Proportional, mit Serifen",
+    monospaceSerif: "Festbreite, mit Serifen",
+    casual: "Informell",
+    cursive: "Schreibschrift",
+    smallCaps: "Kapitälchen",
+  },
+  captionEdges: {
+    none: "Keiner",
+    raised: "Erhaben",
+    depressed: "Vertieft",
+    uniform: "Kontur",
+    dropShadow: "Schlagschatten",
+  },
+
+  loop: "Endlosschleife",
+  copyVideoUrl: "Video-URL kopieren",
+  copyVideoUrlAtTime: "Video-URL ab aktueller Zeit kopieren",
+
+  upNextIn: "Als Nächstes in {seconds}",
+  untitledVideo: "Video {number}",
+  cancel: "Abbrechen",
+  playNow: "Jetzt abspielen",
+  resumePlayback: "Wiedergabe fortsetzen",
+  resumeFrom: "Fortsetzen ab {time}",
+  startOver: "Von vorn beginnen",
+
+  ad: "Werbung",
+  adOfPod: "Werbung {index} von {count}",
+  learnMore: "Mehr erfahren",
+  playAd: "Werbung abspielen",
+  pauseAd: "Werbung pausieren",
+  muteAd: "Werbung stummschalten",
+  unmuteAd: "Stummschaltung der Werbung aufheben",
+  skipIn: "Überspringen in {seconds}",
+  skipAd: "Werbung überspringen",
+
+  errorTitles: {
+    unsupportedFormat: "Nicht unterstütztes Format",
+    protectedContent: "Fehler bei geschützten Inhalten",
+    stream: "Streamfehler",
+    playback: "Wiedergabefehler",
+  },
+  retry: "Erneut versuchen",
+
+  keyboardShortcuts: "Tastenkombinationen",
+  close: "Schließen",
+  shortcuts: {
+    togglePlay: "Wiedergabe / Pause",
+    seekBackward: "5 Sekunden zurück",
+    seekForward: "5 Sekunden vor",
+    rewind: "10 Sekunden zurück",
+    fastForward: "10 Sekunden vor",
+    volumeUp: "Lauter",
+    volumeDown: "Leiser",
+    toggleMute: "Stummschalten / aufheben",
+    toggleFullscreen: "Vollbild",
+    togglePictureInPicture: "Bild-im-Bild",
+    toggleTheaterMode: "Kinomodus",
+    toggleCaptions: "Untertitel ein / aus",
+    seekToLive: "Zur Live-Position",
+    previous: "Vorheriges Video",
+    next: "Nächstes Video",
+    slowDown: "Langsamer",
+    speedUp: "Schneller",
+    previousFrame: "Vorheriges Bild",
+    nextFrame: "Nächstes Bild",
+    seekToPercent: "Zu 0 % – 90 % springen",
+    showShortcuts: "Tastenkombinationen",
+  },
+};
@@ -0,0 +1,106 @@
+import type { PlayerMessages } from "../i18n";
+import { SHORTCUT_LABELS } from "../shortcuts";
+
+export const en: PlayerMessages = {
+  play: "Play",
+  pause: "Pause",
+  mute: "Mute",
+  unmute: "Unmute",
+  volume: "Volume",
+  fullscreen: "Fullscreen",
+  exitFullscreen: "Exit Fullscreen",
+  pictureInPicture: "Picture-in-Picture",
+  exitPictureInPicture: "Exit Picture-in-Picture",
+  theaterMode: "Theater Mode",
+  exitTheaterMode: "Exit Theater Mode",
+  previous: "Previous",
+  next: "Next",
+  settings: "Settings",
+  controls: "Video player controls",
+  progress: "Video progress",
+  live: "LIVE",
+  goLive: "GO LIVE",
+  goToLive: "Go to live",
+  livePosition: "Live",
+
+  speed: "Speed",
+  quality: "Quality",
+  subtitles: "Subtitles",
+  audio: "Audio",
+  playbackSpeed: "Playback Speed",
+  normalSpeed: "Normal",
+  auto: "Auto",
+  subtitlesOff: "Off",
+  captionStyle: "Caption style",
+  bitrate: "{kbps} kbps",
+
+  fontSize: "Font size",
+  fontFamily: "Font family",
+  textColor: "Text color",
+  edgeStyle: "Edge style",
+  background: "Background",
+  backgroundOpacity: "Background opacity",
+  window: "Window",
+  windowOpacity: "Window opacity",
+  resetCaptionStyle: "Reset to default",
+  captionColors: {
+    white: "White",
+    yellow: "Yellow",
+    green: "Green",
+    cyan: "Cyan",
+    blue: "Blue",
+    magenta: "Magenta",
+    red: "Red",
+    black: "Black",
+  },
+  captionFonts: {
+    proportionalSans: "Proportional Sans-Serif",
+    monospaceSans: "Monospace Sans-Serif",
+    proportionalSerif: "Proportional Serif",
+    monospaceSerif: "Monospace Serif",
+    casual: "Casual",
+    cursive: "Cursive",
+    smallCaps: "Small Capitals",
+  },
+  captionEdges: {
+    none: "None",
+    raised: "Raised",
+    depressed: "Depressed",
+    uniform: "Uniform",
+    dropShadow: "Drop Shadow",
+  },
+
+  loop: "Loop",
+  copyVideoUrl: "Copy video URL",
+  copyVideoUrlAtTime: "Copy video URL at current time",
+
+  upNextIn: "Up next in {seconds}",
+  untitledVideo: "Video {number}",
+  cancel: "Cancel",
+  playNow: "Play now",
+  resumePlayback: "Resume playback",
+  resumeFrom: "Resume from {time}",
+  startOver: "Start over",
+
+  ad: "Ad",
+  adOfPod: "Ad {index} of {count}",
+  learnMore: "Learn more",
+  playAd: "Play ad",
+  pauseAd: "Pause ad",
+  muteAd: "Mute ad",
+  unmuteAd: "Unmute ad",
+  skipIn: "Skip in {seconds}",
+  skipAd: "Skip ad",
+
+  errorTitles: {
+    unsupportedFormat: "Unsupported Format",
+    protectedContent: "Protected Content Error",
+    stream: "Stream Error",
+    playback: "Playback Error",
+  },
+  retry: "Retry",
+
+  keyboardShortcuts: "Keyboard shortcuts",
+  close: "Close",
+  shortcuts: SHORTCUT_LABELS,
+};
@@ -0,0 +1,127 @@
+import type { PlayerMessages } from "../i18n";
+
+export const es: PlayerMessages = {
+  play: "Reproducir",
+  pause: "Pausa",
+  mute: "Silenciar",
+  unmute: "Activar sonido",
+  volume: "Volumen",
+  fullscreen: "Pantalla completa",
+  exitFullscreen: "Salir de pantalla completa",
+  pictureInPicture: "Imagen en imagen",
+  exitPictureInPicture: "Salir de imagen en imagen",
+  theaterMode: "Modo cine",
+  exitTheaterMode: "Salir del modo cine",
+  previous: "Anterior",
+  next: "Siguiente",
+  settings: "Configuración",
+  controls: "Controles del reproductor",
+  progress: "Progreso del vídeo",
+  live: "EN DIRECTO",
+  goLive: "IR AL DIRECTO",
+  goToLive: "Ir al directo",
+  livePosition: "En directo",
+
+  speed: "Velocidad",
+  quality: "Calidad",
+  subtitles: "Subtítulos",
+  audio: "Audio",
+  playbackSpeed: "Velocidad de reproducción",
+  normalSpeed: "Normal",
+  auto: "Automática",
+  subtitlesOff: "Desactivados",
+  captionStyle: "Estilo de subtítulos",
+  bitrate: "{kbps} kbps",
+
+  fontSize: "Tamaño de fuente",
+  fontFamily: "Fuente",
+  textColor: "Color del texto",
+  edgeStyle: "Estilo del borde",
+  background: "Fondo",
+  backgroundOpacity: "Opacidad del fondo",
+  window: "Ventana",
+  windowOpacity: "Opacidad de la ventana",
+  resetCaptionStyle: "Restablecer",
+  captionColors: {
+    white: "Blanco",
+    yellow: "Amarillo",
+    green: "Verde",
+    cyan: "Cian",
+    blue: "Azul",
+    magenta: "Magenta",
+    red: "Rojo",
+    black: "Negro",
+  },
+  captionFonts: {
+    proportionalSans: "Sans serif proporcional",
+    monospaceSans: "Sans serif monoespaciada",
+    proportionalSerif: "Serif proporcional",
+    monospaceSerif: "Serif monoespaciada",
+    casual: "Informal",
+    cursive: "Cursiva",
+    smallCaps: "Versalitas",
+  },
+  captionEdges: {
+    none: "Ninguno",
+    raised: "Elevado",
+    depressed: "Hundido",
+    uniform: "Uniforme",
+    dropShadow: "Sombra",
+  },
+
+  loop: "Repetir",
+  copyVideoUrl: "Copiar URL del vídeo",
+  copyVideoUrlAtTime: "Copiar URL del vídeo en el momento actual",
+
+  upNextIn: "A continuación en {seconds}",
+  untitledVideo: "Vídeo {number}",
+  cancel: "Cancelar",
+  playNow: "Reproducir ahora",
+  resumePlayback: "Reanudar reproducción",
+  resumeFrom: "Reanudar desde {time}",
+  startOver: "Empezar de nuevo",
+
+  ad: "Anuncio",
+  adOfPod: "Anuncio {index} de {count}",
+  learnMore: "Más información",
+  playAd: "Reproducir anuncio",
+  pauseAd: "Pausar anuncio",
+  muteAd: "Silenciar anuncio",
+  unmuteAd: "Activar sonido del anuncio",
+  skipIn: "Omitir en {seconds}",
+  skipAd: "Omitir anuncio",
+
+  errorTitles: {
+    unsupportedFormat: "Formato no compatible",
+    protectedContent: "Error de contenido protegido",
+    stream: "Error de transmisión",
+    playback: "Error de reproducción",
+  },
+  retry: "Reintentar",
+
+  keyboardShortcuts: "Atajos de teclado",
+  close: "Cerrar",
+  shortcuts: {
+    togglePlay: "Reproducir / pausar",
+    seekBackward: "Retroceder 5 segundos",
+    seekForward: "Avanzar 5 segundos",
+    rewind: "Retroceder 10 segundos",
+    fastForward: "Avanzar 10 segundos",
+    volumeUp: "Subir volumen",
+    volumeDown: "Bajar volumen",
+    toggleMute: "Silenciar / activar sonido",
+    toggleFullscreen: "Pantalla completa",
+    togglePictureInPicture: "Imagen en imagen",
+    toggleTheaterMode: "Modo cine",
+    toggleCaptions: "Activar / desactivar subtítulos",
+    seekToLive: "Ir al directo",
+    previous: "Vídeo anterior",
+    next: "Vídeo siguiente",
+    slowDown: "Reducir velocidad",
+    speedUp: "Aumentar velocidad",
+    previousFrame: "Fotograma anterior",
+    nextFrame: "Fotograma siguiente",
+    seekToPercent: "Saltar al 0 % – 90 %",
+    showShortcuts: "Atajos de teclado",
+  },
+};
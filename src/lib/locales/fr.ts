@@ -0,0 +1,127 @@
+import type { PlayerMessages } from "../i18n";
+
+export const fr: PlayerMessages = {
+  play: "Lecture",
+  pause: "Pause",
+  mute: "Couper le son",
+  unmute: "Activer le son",
+  volume: "Volume",
+  fullscreen: "Plein écran",
+  exitFullscreen: "Quitter le plein écran",
+  pictureInPicture: "Picture-in-Picture",
+  exitPictureInPicture: "Quitter Picture-in-Picture",
+  theaterMode: "Mode cinéma",
+  exitTheaterMode: "Quitter le mode cinéma",
+  previous: "Précédent",
+  next: "Suivant",
+  settings: "Paramètres",
+  controls: "Commandes du lecteur vidéo",
+  progress: "Progression de la vidéo",
+  live: "EN DIRECT",
+  goLive: "REVENIR AU DIRECT",
+  goToLive: "Revenir au direct",
+  livePosition: "En direct",
+
+  speed: "Vitesse",
+  quality: "Qualité",
+  subtitles: "Sous-titres",
+  audio: "Audio",
+  playbackSpeed: "Vitesse de lecture",
+  normalSpeed: "Normale",
+  auto: "Auto",
+  subtitlesOff: "Désactivés",
+  captionStyle: "Style des sous-titres",
+  bitrate: "{kbps} kbit/s",
+
+  fontSize: "Taille de police",
+  fontFamily: "Police",
+  textColor: "Couleur du texte",
+  edgeStyle: "Style de contour",
+  background: "Arrière-plan",
+  backgroundOpacity: "Opacité de l'arrière-plan",
+  window: "Fenêtre",
+  windowOpacity: "Opacité de la fenêtre",
+  resetCaptionStyle: "Rétablir les valeurs par défaut",
+  captionColors: {
+    white: "Blanc",
+    yellow: "Jaune",
+    green: "Vert",
+    cyan: "Cyan",
+    blue: "Bleu",
+    magenta: "Magenta",
+    red: "Rouge",
+    black: "Noir",
+  },
+  captionFonts: {
+    proportionalSans: "Sans empattement proportionnelle",
+    monospaceSans: "Sans empattement à chasse fixe",
+    proportionalSerif: "Avec empattement proportionnelle",
+    monospaceSerif: "Avec empattement à chasse fixe",
+    casual: "Décontractée",
+    cursive: "Cursive",
+    smallCaps: "Petites capitales",
+  },
+  captionEdges: {
+    none: "Aucun",
+    raised: "En relief",
+    depressed: "En creux",
+    uniform: "Uniforme",
+    dropShadow: "Ombre portée",
+  },
+
+  loop: "Lire en boucle",
+  copyVideoUrl: "Copier l'URL de la vidéo",
+  copyVideoUrlAtTime: "Copier l'URL de la vidéo à partir de maintenant",
+
+  upNextIn: "À suivre dans {seconds}",
+  untitledVideo: "Vidéo {number}",
+  cancel: "Annuler",
+  playNow: "Lire maintenant",
+  resumePlayback: "Reprendre la lecture",
+  resumeFrom: "Reprendre à {time}",
+  startOver: "Recommencer",
+
+  ad: "Annonce",
+  adOfPod: "Annonce {index} sur {count}",
+  learnMore: "En savoir plus",
+  playAd: "Lire l'annonce",
+  pauseAd: "Mettre l'annonce en pause",
+  muteAd: "Couper le son de l'annonce",
+  unmuteAd: "Activer le son de l'annonce",
+  skipIn: "Passer dans {seconds}",
+  skipAd: "Passer l'annonce",
+
+  errorTitles: {
+    unsupportedFormat: "Format non pris en charge",
+    protectedContent: "Erreur de contenu protégé",
+    stream: "Erreur de flux",
+    playback: "Erreur de lecture",
+  },
+  retry: "Réessayer",
+
+  keyboardShortcuts: "Raccourcis clavier",
+  close: "Fermer",
+  shortcuts: {
+    togglePlay: "Lecture / pause",
+    seekBackward: "Reculer de 5 secondes",
+    seekForward: "Avancer de 5 secondes",
+    rewind: "Reculer de 10 secondes",
+    fastForward: "Avancer de 10 secondes",
+    volumeUp: "Augmenter le volume",
+    volumeDown: "Baisser le volume",
+    toggleMute: "Couper / activer le son",
+    toggleFullscreen: "Plein écran",
+    togglePictureInPicture: "Picture-in-Picture",
+    toggleTheaterMode: "Mode cinéma",
+    toggleCaptions: "Activer / désactiver les sous-titres",
+    seekToLive: "Revenir au direct",
+    previous: "Vidéo précédente",
+    next: "Vidéo suivante",
+    slowDown: "Ralentir",
+    speedUp: "Accélérer",
+    previousFrame: "Image précédente",
+    nextFrame: "Image suivante",
+    seekToPercent: "Aller à 0 % – 90 %",
+    showShortcuts: "Raccourcis clavier",
+  },
+};
@@ -0,0 +1,223 @@
+import type HLS from "hls.js";
+import type { DateRange } from "hls.js";
+import type { ID3Frame, DateRangeMetadataCue, ID3MetadataCue, MetadataCue } from "./types";
+
+// ─── ID3 ──────────────────────────────────────────────────────────────────────
+
+/** ID3v2.4 sizes are "syncsafe": 7 bits per byte */
+function readSyncsafe(data: Uint8Array, offset: number): number {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+const TEXT_ENCODINGS = ["iso-8859-1", "utf-16", "utf-16be", "utf-8"];
+
+function decodeText(bytes: Uint8Array, encoding: number): string {
+  const label = TEXT_ENCODINGS[encoding] ?? "utf-8";
+  // Strings are often NUL-terminated; some encoders pad with several
+  return new TextDecoder(label).decode(bytes).replace(/\0+$/, "");
+}
+
+/** Index of the terminator that ends a string in `encoding`, or -1 */
+function findTerminator(bytes: Uint8Array, start: number, encoding: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return -1;
+}
+
+/** Split "description\0value" as used by TXXX / WXXX */
+function splitDescribed(body: Uint8Array, encoding: number): [string, Uint8Array] {
+  const end = findTerminator(body, 0, encoding);
+  if (end === -1) return [decodeText(body, encoding), new Uint8Array(0)];
+  const width = encoding === 1 || encoding === 2 ? 2 : 1;
+  return [decodeText(body.subarray(0, end), encoding), body.subarray(end + width)];
+}
+
+function parseFrame(id: string, body: Uint8Array): ID3Frame {
+  if (id === "TXXX") {
+    const [info, value] = splitDescribed(body.subarray(1), body[0]);
+    return { id, info, value: decodeText(value, body[0]) };
+  }
+  if (id === "WXXX") {
+    const [info, url] = splitDescribed(body.subarray(1), body[0]);
+    return { id, info, value: decodeText(url, 0) };
+  }
+  if (id === "PRIV") {
+    const [owner, data] = splitDescribed(body, 0);
+    return { id, info: owner, value: data.slice() };
+  }
+  if (id[0] === "T") return { id, value: decodeText(body.subarray(1), body[0]) };
+  if (id[0] === "W") return { id, value: decodeText(body, 0) };
+  return { id, value: body.slice() };
+}
+
+/**
+ * Parse the ID3v2.3 / v2.4 tags in a timed-metadata sample — one or more
+ * tags back to back, as HLS segments carry them. Text and URL frames are
+ * decoded to strings (`TXXX` / `WXXX` with their description in `info`);
+ * `PRIV` keeps its owner in `info` and its bytes in `value`.
+ */
+export function parseID3(data: Uint8Array): ID3Frame[] {
+  const frames: ID3Frame[] = [];
+  let offset = 0;
+
+  while (
+    offset + 10 <= data.length &&
+    data[offset] === 0x49 && data[offset + 1] === 0x44 && data[offset + 2] === 0x33 // "ID3"
+  ) {
+    const version = data[offset + 3];
+    const flags = data[offset + 5];
+    const tagEnd = Math.min(data.length, offset + 10 + readSyncsafe(data, offset + 6));
+    let pos = offset + 10;
+    // Extended header: skipped; its size field is synchsafe in v2.4 only
+    if (flags & 0x40 && pos + 4 <= tagEnd) {
+      pos += version === 4 ? readSyncsafe(data, pos) : readUint32(data, pos) + 4;
+    }
+
+    while (pos + 10 <= tagEnd) {
+      const id = String.fromCharCode(data[pos], data[pos + 1], data[pos + 2], data[pos + 3]);
+      if (!/^[A-Z0-9]{4}$/.test(id)) break; // padding
+      const size = version === 4 ? readSyncsafe(data, pos + 4) : readUint32(data, pos + 4);
+      const start = pos + 10;
+      if (start + size > tagEnd) break;
+      frames.push(parseFrame(id, data.subarray(start, start + size)));
+      pos = start + size;
+    }
+
+    // A footer (v2.4) repeats the header after the tag
+    offset = tagEnd + (flags & 0x10 ? 10 : 0);
+  }
+  return frames;
+}
+
+// ─── Cues ─────────────────────────────────────────────────────────────────────
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** An `EXT-X-DATERANGE` tag as hls.js parsed it; null until it is placed on the timeline */
+export function buildDateRangeCue(range: DateRange): DateRangeMetadataCue | null {
+  if (!range.isValid || !Number.isFinite(range.startTime)) return null;
+  const attributes: Record<string, string> = {};
+  for (const key of Object.keys(range.attr)) {
+    if (typeof range.attr[key] === "string") attributes[key] = range.attr[key];
+  }
+  return createDateRangeCue(range.id, range.startTime, range.startDate, attributes);
+}
+
+export function createDateRangeCue(
+  id: string,
+  time: number,
+  startDate: Date | null,
+  attributes: Record<string, string>,
+): DateRangeMetadataCue {
+  const endDate = attributes["END-DATE"] ? new Date(attributes["END-DATE"]) : null;
+  return {
+    type: "daterange",
+    time,
+    id,
+    class: attributes.CLASS,
+    startDate,
+    endDate: endDate && !isNaN(endDate.getTime()) ? endDate : null,
+    duration: parseNumber(attributes.DURATION),
+    plannedDuration: parseNumber(attributes["PLANNED-DURATION"]),
+    scte35: {
+      cmd: attributes["SCTE35-CMD"],
+      out: attributes["SCTE35-OUT"],
+      in: attributes["SCTE35-IN"],
+    },
+    attributes,
+  };
+}
+
+export function createID3Cue(time: number, data: Uint8Array): ID3MetadataCue | null {
+  const frames = parseID3(data);
+  return frames.length ? { type: "id3", time, frames } : null;
+}
+
+/** Safari's DataCue; not in the TypeScript DOM lib */
+interface NativeDataCue extends TextTrackCue {
+  type?: string;
+  value?: { key?: string; info?: string; data?: unknown };
+}
+
+/** DATERANGE attributes arrive as separate cues of this type, sharing the range's id */
+const NATIVE_DATERANGE_TYPE = "com.apple.quicktime.HLS";
+
+/**
+ * Metadata cues from Safari's native HLS engine: ID3 frames come as one
+ * DataCue per frame and DATERANGE tags as one per attribute, so cues that
+ * start together (ID3) or share an id (DATERANGE) are grouped back up.
+ */
+export function groupNativeMetadataCues(
+  cues: TextTrackCue[],
+  startDate: Date | null,
+): MetadataCue[] {
+  const id3 = new Map<number, ID3Frame[]>();
+  const ranges = new Map<string, { time: number; attributes: Record<string, string> }>();
+
+  for (const cue of cues as NativeDataCue[]) {
+    const key = cue.value?.key;
+    if (!key) continue;
+    const data = cue.value?.data;
+    if (cue.type === NATIVE_DATERANGE_TYPE) {
+      const range = ranges.get(cue.id) ?? { time: cue.startTime, attributes: {} };
+      range.attributes[key] = String(data ?? "");
+      ranges.set(cue.id, range);
+      continue;
+    }
+    const frames = id3.get(cue.startTime) ?? [];
+    frames.push({
+      id: key,
+      info: cue.value?.info,
+      value: data instanceof ArrayBuffer ? new Uint8Array(data) : String(data ?? ""),
+    });
+    id3.set(cue.startTime, frames);
+  }
+
+  const toDate = (time: number) =>
+    startDate ? new Date(startDate.getTime() + time * 1000) : null;
+  return [
+    ...Array.from(id3, ([time, frames]): MetadataCue => ({ type: "id3", time, frames })),
+    ...Array.from(ranges, ([id, { time, attributes }]) =>
+      createDateRangeCue(id, time, toDate(time), attributes),
+    ),
+  ];
+}
+
+// ─── Program date time ────────────────────────────────────────────────────────
+
+/** Safari's wall-clock anchor for HLS with EXT-X-PROGRAM-DATE-TIME */
+export function getNativeStartDate(video: HTMLVideoElement): Date | null {
+  const date = (video as any).getStartDate?.() as Date | undefined;
+  return date && Number.isFinite(date.getTime()) ? date : null;
+}
+
+/**
+ * Wall-clock time of the frame on screen: hls.js' `playingDate`
+ * (EXT-X-PROGRAM-DATE-TIME), dash.js' `timeAsUTC()` (availabilityStartTime)
+ * or Safari's `getStartDate()` plus `currentTime`. Null for streams that
+ * carry no date.
+ */
+export function getProgramDateTime(
+  video: HTMLVideoElement,
+  { hls, dashUTC }: { hls?: HLS | null; dashUTC?: number },
+): Date | null {
+  if (hls) return hls.playingDate;
+  if (dashUTC !== undefined) return Number.isFinite(dashUTC) && dashUTC > 0 ? new Date(dashUTC * 1000) : null;
+  const start = getNativeStartDate(video);
+  return start ? new Date(start.getTime() + video.currentTime * 1000) : null;
+}
@@ -0,0 +1,50 @@
+import type { RepeatMode } from "./types";
+
+/**
+ * Build a playback order for `length` items.
+ * Sequential unless `shuffle` is set, in which case the order is a
+ * Fisher–Yates shuffle with `first` pinned to the front so toggling shuffle
+ * never interrupts the item that is currently playing.
+ */
+export function createPlaybackOrder(
+  length: number,
+  shuffle: boolean,
+  first = 0,
+): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+  if (!shuffle || length < 2) return order;
+
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const pos = order.indexOf(first);
+  if (pos > 0) [order[0], order[pos]] = [order[pos], order[0]];
+  return order;
+}
+
+/**
+ * Resolve the item index one step forward (`1`) or back (`-1`) in `order`.
+ * Returns null at either end of the list unless `repeatMode` is "all".
+ */
+export function getAdjacentIndex(
+  order: number[],
+  current: number,
+  direction: 1 | -1,
+  repeatMode: RepeatMode,
+): number | null {
+  if (!order.length) return null;
+  const pos = order.indexOf(current);
+  let next = (pos === -1 ? 0 : pos) + direction;
+
+  if (next < 0 || next >= order.length) {
+    if (repeatMode !== "all") return null;
+    next = (next + order.length) % order.length;
+  }
+  return order[next];
+}
+
+export function clampIndex(index: number, length: number): number {
+  if (length <= 0) return -1;
+  return Math.max(0, Math.min(Math.floor(index), length - 1));
+}
@@ -0,0 +1,82 @@
+import type {
+  PlayerPreferences,
+  PersistPreferencesOptions,
+  HLSQualityLevel,
+  SubtitleTrack,
+} from "./types";
+import { getLocalStorage, readStoredJSON, writeStoredJSON, type PlayerStorage } from "./storage";
+
+export const DEFAULT_PREFERENCES_KEY = "react-helios";
+
+export interface PreferenceStore {
+  storage: PlayerStorage;
+  key: string;
+}
+
+/**
+ * Resolve the `persistPreferences` prop into a storage + key pair, or null
+ * when persistence is off or storage is unavailable (SSR, private mode).
+ */
+export function resolvePreferenceStore(
+  option: boolean | PersistPreferencesOptions | undefined,
+): PreferenceStore | null {
+  if (!option) return null;
+  const opts = option === true ? {} : option;
+  const storage = opts.storage ?? getLocalStorage();
+  if (!storage) return null;
+  return { storage, key: `${opts.key ?? DEFAULT_PREFERENCES_KEY}:preferences` };
+}
+
+/** Stored preferences with malformed fields dropped */
+export function readPreferences(store: PreferenceStore): Partial<PlayerPreferences> {
+  const raw = readStoredJSON<Record<string, unknown>>(store.storage, store.key);
+  if (!raw || typeof raw !== "object") return {};
+
+  const prefs: Partial<PlayerPreferences> = {};
+  if (typeof raw.volume === "number" && raw.volume >= 0 && raw.volume <= 1) prefs.volume = raw.volume;
+  if (typeof raw.muted === "boolean") prefs.muted = raw.muted;
+  if (typeof raw.playbackRate === "number" && raw.playbackRate > 0) prefs.playbackRate = raw.playbackRate;
+  if (raw.qualityHeight === null || typeof raw.qualityHeight === "number") {
+    prefs.qualityHeight = raw.qualityHeight;
+  }
+  if (raw.subtitleLanguage === null || typeof raw.subtitleLanguage === "string") {
+    prefs.subtitleLanguage = raw.subtitleLanguage;
+  }
+  return prefs;
+}
+
+export function writePreferences(store: PreferenceStore, prefs: Partial<PlayerPreferences>): void {
+  writeStoredJSON(store.storage, store.key, prefs);
+}
+
+/**
+ * Level to restore for a preferred height: the tallest rendition at or
+ * below it, else the shortest one above. -1 (Auto) when nothing has a height.
+ */
+export function pickQualityLevel(levels: HLSQualityLevel[], height: number): number {
+  let below: HLSQualityLevel | null = null;
+  let above: HLSQualityLevel | null = null;
+  for (const l of levels) {
+    if (!l.height) continue;
+    if (l.height <= height) {
+      if (!below || l.height > below.height || (l.height === below.height && l.bitrate > below.bitrate)) below = l;
+    } else if (!above || l.height < above.height) {
+      above = l;
+    }
+  }
+  return (below ?? above)?.id ?? -1;
+}
+
+/**
+ * Track matching a preferred language. Exact `srclang` first, then the
+ * primary subtag ("en" matches "en-US").
+ */
+export function pickSubtitleTrack(tracks: SubtitleTrack[], language: string): SubtitleTrack | null {
+  const lang = language.toLowerCase();
+  const primary = lang.split("-")[0];
+  return (
+    tracks.find((t) => t.srclang.toLowerCase() === lang) ??
+    tracks.find((t) => t.srclang.toLowerCase().split("-")[0] === primary) ??
+    null
+  );
+}
@@ -0,0 +1,98 @@
+import type HLS from "hls.js";
+
+/** Prefetch stops topping up once this much is buffered ahead of the playhead */
+export const PREFETCH_TARGET_AHEAD = 60;
+/** Below this amount of buffered-ahead media a re-check triggers loading again */
+export const PREFETCH_MIN_AHEAD = 30;
+const PREFETCH_CHECK_INTERVAL = 5000;
+
+export interface PrefetchProgress {
+  isPrefetching: boolean;
+  /** Seconds buffered ahead of the current position */
+  bufferedAhead: number;
+}
+
+/**
+ * True when the user has asked the browser to reduce data usage
+ * (Chrome "Lite mode", Android Data Saver, …).
+ */
+export function isSaveDataEnabled(): boolean {
+  if (typeof navigator === "undefined") return false;
+  return (navigator as any).connection?.saveData === true;
+}
+
+/**
+ * Seconds of contiguous media buffered ahead of `video.currentTime`.
+ */
+export function getBufferedAhead(video: HTMLVideoElement): number {
+  const ct = video.currentTime;
+  const { buffered } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= ct + 0.5 && buffered.end(i) >= ct) {
+      return Math.max(0, buffered.end(i) - ct);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Buffer ahead of the playhead while playback is paused.
+ *
+ * HLS: raises the hls.js buffer targets to {@link PREFETCH_TARGET_AHEAD} and
+ * calls `startLoad()` so fragment loading continues while paused.
+ * Progressive: switches the element to `preload="auto"` so the browser keeps
+ * downloading.
+ *
+ * Returns a stop function that restores the original buffer settings.
+ * Call it as soon as playback resumes, the source changes or the player unmounts.
+ */
+export function startPrefetch(
+  video: HTMLVideoElement,
+  hls: HLS | null,
+  onProgress: (progress: PrefetchProgress) => void,
+): () => void {
+  const originalPreload = video.preload;
+  const originalMaxBuffer = hls?.config.maxBufferLength;
+  const originalMaxMaxBuffer = hls?.config.maxMaxBufferLength;
+  let stopped = false;
+
+  if (hls) {
+    hls.config.maxBufferLength = Math.max(originalMaxBuffer ?? 0, PREFETCH_TARGET_AHEAD);
+    hls.config.maxMaxBufferLength = Math.max(originalMaxMaxBuffer ?? 0, PREFETCH_TARGET_AHEAD);
+  }
+
+  const check = () => {
+    if (stopped) return;
+    const ahead = getBufferedAhead(video);
+    const end = Number.isFinite(video.duration) ? video.duration : Infinity;
+    const reachedEnd = video.currentTime + ahead >= end - 0.5;
+    const needsMore = ahead < PREFETCH_MIN_AHEAD && !reachedEnd;
+
+    if (needsMore) {
+      if (hls) hls.startLoad(-1);
+      else if (video.preload !== "auto") video.preload = "auto";
+    }
+
+    onProgress({
+      isPrefetching: ahead < PREFETCH_TARGET_AHEAD && !reachedEnd,
+      bufferedAhead: ahead,
+    });
+  };
+
+  video.addEventListener("progress", check);
+  const interval = setInterval(check, PREFETCH_CHECK_INTERVAL);
+  check();
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    video.removeEventListener("progress", check);
+    if (hls) {
+      if (originalMaxBuffer !== undefined) hls.config.maxBufferLength = originalMaxBuffer;
+      if (originalMaxMaxBuffer !== undefined) hls.config.maxMaxBufferLength = originalMaxMaxBuffer;
+    } else if (video.preload !== originalPreload) {
+      video.preload = originalPreload;
+    }
+    onProgress({ isPrefetching: false, bufferedAhead: getBufferedAhead(video) });
+  };
+}
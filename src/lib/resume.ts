@@ -0,0 +1,73 @@
+import { readStoredJSON, writeStoredJSON, type PlayerStorage } from "./storage";
+
+export const RESUME_STORAGE_KEY = "react-helios:resume";
+/** Seconds of wall-clock time between periodic saves during playback */
+export const RESUME_SAVE_INTERVAL = 5;
+/** Positions earlier than this aren't worth resuming */
+export const RESUME_MIN_TIME = 10;
+/** Positions this close to the end count as finished (seconds, or 5% of the duration if larger) */
+export const RESUME_END_MARGIN = 15;
+/** Least recently watched entries beyond this are dropped */
+export const RESUME_MAX_ENTRIES = 100;
+
+export interface ResumeEntry {
+  time: number;
+  duration: number;
+  /** ms since epoch; drives LRU eviction */
+  updatedAt: number;
+}
+
+type ResumeMap = Record<string, ResumeEntry>;
+
+/**
+ * Whether `time` is far enough from both ends of the video to be worth
+ * saving or restoring. Live streams (duration 0 / Infinity) never are.
+ */
+export function isResumable(time: number, duration: number): boolean {
+  if (!Number.isFinite(duration) || duration <= 0) return false;
+  const endMargin = Math.max(RESUME_END_MARGIN, duration * 0.05);
+  return time >= RESUME_MIN_TIME && time <= duration - endMargin;
+}
+
+function readMap(storage: PlayerStorage | null): ResumeMap {
+  const map = readStoredJSON<ResumeMap>(storage, RESUME_STORAGE_KEY);
+  return map && typeof map === "object" ? map : {};
+}
+
+export function readResumePosition(storage: PlayerStorage | null, key: string): number | null {
+  const entry = readMap(storage)[key];
+  return entry && typeof entry.time === "number" ? entry.time : null;
+}
+
+/**
+ * Save a position, evicting the least recently updated entries once the
+ * map grows past `maxEntries`.
+ */
+export function saveResumePosition(
+  storage: PlayerStorage | null,
+  key: string,
+  time: number,
+  duration: number,
+  maxEntries = RESUME_MAX_ENTRIES,
+): void {
+  if (!storage) return;
+  const map = readMap(storage);
+  map[key] = { time, duration, updatedAt: Date.now() };
+
+  const keys = Object.keys(map);
+  if (keys.length > maxEntries) {
+    keys
+      .sort((a, b) => (map[a].updatedAt ?? 0) - (map[b].updatedAt ?? 0))
+      .slice(0, keys.length - maxEntries)
+      .forEach((k) => delete map[k]);
+  }
+  writeStoredJSON(storage, RESUME_STORAGE_KEY, map);
+}
+
+export function clearResumePosition(storage: PlayerStorage | null, key: string): void {
+  if (!storage) return;
+  const map = readMap(storage);
+  if (!(key in map)) return;
+  delete map[key];
+  writeStoredJSON(storage, RESUME_STORAGE_KEY, map);
+}
@@ -0,0 +1,190 @@
+import type { CustomShortcut, KeyboardShortcutsOptions, ShortcutAction } from "./types";
+
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string[]> = {
+  togglePlay: ["Space", "k"],
+  seekBackward: ["ArrowLeft"],
+  seekForward: ["ArrowRight"],
+  rewind: ["j"],
+  fastForward: ["l"],
+  volumeUp: ["ArrowUp"],
+  volumeDown: ["ArrowDown"],
+  toggleMute: ["m"],
+  toggleFullscreen: ["f"],
+  togglePictureInPicture: ["p"],
+  toggleTheaterMode: ["t"],
+  toggleCaptions: ["c"],
+  seekToLive: ["End"],
+  previous: ["Shift+p"],
+  next: ["Shift+n"],
+  slowDown: ["<"],
+  speedUp: [">"],
+  previousFrame: [","],
+  nextFrame: ["."],
+  seekToPercent: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"],
+  showShortcuts: ["Shift+/"],
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  togglePlay: "Play / pause",
+  seekBackward: "Back 5 seconds",
+  seekForward: "Forward 5 seconds",
+  rewind: "Back 10 seconds",
+  fastForward: "Forward 10 seconds",
+  volumeUp: "Volume up",
+  volumeDown: "Volume down",
+  toggleMute: "Mute / unmute",
+  toggleFullscreen: "Fullscreen",
+  togglePictureInPicture: "Picture-in-Picture",
+  toggleTheaterMode: "Theater mode",
+  toggleCaptions: "Captions on / off",
+  seekToLive: "Go to live",
+  previous: "Previous video",
+  next: "Next video",
+  slowDown: "Slow down",
+  speedUp: "Speed up",
+  previousFrame: "Previous frame",
+  nextFrame: "Next frame",
+  seekToPercent: "Jump to 0% – 90%",
+  showShortcuts: "Keyboard shortcuts",
+};
+
+export interface ResolvedShortcut {
+  action: ShortcutAction | CustomShortcut;
+  /** Normalised with `normalizeShortcutKey` */
+  keys: string[];
+  label: string;
+}
+
+const MODIFIER_ORDER = ["Ctrl", "Alt", "Meta", "Shift"] as const;
+type Modifier = (typeof MODIFIER_ORDER)[number];
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+  ctrl: "Ctrl",
+  control: "Ctrl",
+  alt: "Alt",
+  option: "Alt",
+  meta: "Meta",
+  cmd: "Meta",
+  shift: "Shift",
+};
+
+/** Physical keys whose name isn't derivable from `KeyboardEvent.code` */
+const CODE_KEYS: Record<string, string> = {
+  Space: "Space",
+  Slash: "/",
+  Comma: ",",
+  Period: ".",
+  Minus: "-",
+  Equal: "=",
+  Semicolon: ";",
+  Quote: "'",
+  Backquote: "`",
+  BracketLeft: "[",
+  BracketRight: "]",
+  Backslash: "\\",
+};
+
+function normalizeKeyName(key: string): string {
+  if (key === " ") return "Space";
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function formatCombo(modifiers: Set<Modifier>, key: string): string {
+  return [...MODIFIER_ORDER.filter((m) => modifiers.has(m)), key].join("+");
+}
+
+/** "shift+N" → "Shift+n": modifiers in a fixed order, letters lower-case */
+export function normalizeShortcutKey(combo: string): string {
+  const modifiers = new Set<Modifier>();
+  let rest = combo;
+  for (;;) {
+    const match = /^(ctrl|control|alt|option|meta|cmd|shift)\+(.+)$/i.exec(rest);
+    if (!match) break;
+    modifiers.add(MODIFIER_ALIASES[match[1].toLowerCase()]);
+    rest = match[2];
+  }
+  return formatCombo(modifiers, normalizeKeyName(rest));
+}
+
+/**
+ * The combinations a key press can match: the character the layout
+ * produced ("?", ">", "k") and the physical key with its modifiers
+ * ("Shift+/", "Shift+."). Symbols already reflect Shift, so it is dropped
+ * from the first form; letters and named keys keep it ("Shift+n").
+ */
+export function getEventShortcutKeys(e: KeyboardEvent): string[] {
+  const modifiers = new Set<Modifier>();
+  if (e.ctrlKey) modifiers.add("Ctrl");
+  if (e.altKey) modifiers.add("Alt");
+  if (e.metaKey) modifiers.add("Meta");
+  if (e.shiftKey) modifiers.add("Shift");
+
+  const keys: string[] = [];
+  if (e.key && e.key !== "Unidentified" && e.key !== "Dead") {
+    const symbol = e.key.length === 1 && e.key !== " " && e.key.toLowerCase() === e.key.toUpperCase();
+    const own = new Set(modifiers);
+    if (symbol) own.delete("Shift");
+    keys.push(formatCombo(own, normalizeKeyName(e.key)));
+  }
+  const physical = e.code.startsWith("Key")
+    ? e.code.slice(3).toLowerCase()
+    : e.code.startsWith("Digit")
+      ? e.code.slice(5)
+      : CODE_KEYS[e.code];
+  if (physical) keys.push(formatCombo(modifiers, physical));
+  return keys;
+}
+
+/** Built-in bindings with `options` applied, custom shortcuts first; `labels` translate the built-in ones */
+export function resolveShortcuts(
+  options: KeyboardShortcutsOptions = {},
+  labels: Record<ShortcutAction, string> = SHORTCUT_LABELS,
+): ResolvedShortcut[] {
+  const custom: ResolvedShortcut[] = (options.custom ?? []).map((shortcut) => ({
+    action: shortcut,
+    keys: (Array.isArray(shortcut.keys) ? shortcut.keys : [shortcut.keys]).map(normalizeShortcutKey),
+    label: shortcut.label,
+  }));
+  const builtIn: ResolvedShortcut[] = [];
+  for (const action of Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]) {
+    const binding = options.bindings?.[action] ?? DEFAULT_SHORTCUTS[action];
+    if (binding === false) continue;
+    const keys = (Array.isArray(binding) ? binding : [binding]).map(normalizeShortcutKey);
+    if (keys.length) builtIn.push({ action, keys, label: labels[action] });
+  }
+  return [...custom, ...builtIn];
+}
+
+/** The shortcut `e` triggers, and the key combination that matched */
+export function findShortcut(
+  shortcuts: ResolvedShortcut[],
+  e: KeyboardEvent,
+): { shortcut: ResolvedShortcut; key: string } | null {
+  for (const key of getEventShortcutKeys(e)) {
+    for (const shortcut of shortcuts) {
+      if (shortcut.keys.includes(key)) return { shortcut, key };
+    }
+  }
+  return null;
+}
+
+/** `seekToPercent` target of a key: its final digit × 10 ("Shift+4" → 40), null without one */
+export function getSeekPercent(key: string): number | null {
+  const digit = /\d$/.exec(key);
+  return digit ? Number(digit[0]) * 10 : null;
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+/** "Shift+n" → "Shift + N", "ArrowLeft" → "←" */
+export function formatShortcutKey(key: string): string {
+  return key
+    .split(/\+(?=.)/)
+    .map((part) => KEY_LABELS[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join(" + ");
+}
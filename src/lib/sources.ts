@@ -0,0 +1,139 @@
+import type { VideoSource } from "./types";
+import { isHLSUrl, isDASHUrl, getMimeType } from "./format";
+
+/** Higher is better: AV1 > HEVC / VP9 > H.264 > unknown */
+export function getCodecRank(codecs: string | undefined): number {
+  if (!codecs) return 0;
+  const c = codecs.toLowerCase();
+  if (/\bav01\b/.test(c)) return 3;
+  if (/\b(hvc1|hev1|vp09|vp9)\b/.test(c)) return 2;
+  if (/\b(avc1|avc3)\b/.test(c)) return 1;
+  return 0;
+}
+
+/** The video entry of a codecs string such as "avc1.64001f,mp4a.40.2" */
+function getVideoCodec(codecs: string): string | undefined {
+  return codecs
+    .split(",")
+    .map((c) => c.trim())
+    .find((c) => /^(av01|hvc1|hev1|vp09|vp9|vp8|avc1|avc3)\b/i.test(c));
+}
+
+export type SourceKind = "hls" | "dash" | "file";
+
+/** Which engine plays `source`: its `type` when given, else the URL decides */
+export function getSourceKind(source: Pick<VideoSource, "src" | "type">): SourceKind {
+  const type = source.type?.toLowerCase() ?? "";
+  if (type.includes("mpegurl") || (!type && isHLSUrl(source.src))) return "hls";
+  if (type === "application/dash+xml" || (!type && isDASHUrl(source.src))) return "dash";
+  return "file";
+}
+
+export interface SourceSupportOptions {
+  enableHLS?: boolean;
+  enableDASH?: boolean;
+}
+
+interface SourceSupport {
+  playable: boolean;
+  /** Decodes without dropping frames; false for software fallbacks that can't keep up */
+  smooth: boolean;
+  powerEfficient: boolean;
+}
+
+const hasMSE = () => typeof window !== "undefined" && typeof window.MediaSource !== "undefined";
+
+/**
+ * Whether `video` can play `source` through the engine the player would use
+ * for it, checked with `canPlayType` / `MediaSource.isTypeSupported`, then
+ * refined with `MediaCapabilities` when the source declares its codecs.
+ */
+export async function getSourceSupport(
+  video: HTMLVideoElement,
+  source: VideoSource,
+  options: SourceSupportOptions = {},
+): Promise<SourceSupport> {
+  const unsupported: SourceSupport = { playable: false, smooth: false, powerEfficient: false };
+  const kind = getSourceKind(source);
+  const nativeHLS = kind === "hls" && !!video.canPlayType("application/vnd.apple.mpegurl");
+  const mse =
+    hasMSE() &&
+    ((kind === "hls" && options.enableHLS !== false && !nativeHLS) ||
+      (kind === "dash" && options.enableDASH !== false));
+
+  if (kind === "hls" && !mse && !nativeHLS) return unsupported;
+  if (kind === "dash" && !mse) return unsupported;
+
+  // Adaptive manifests carry fMP4 (or TS) segments; the codecs describe those
+  const container = kind === "file" ? source.type ?? getMimeType(source.src) : "video/mp4";
+  if (kind === "file" && !video.canPlayType(container)) return unsupported;
+  if (!source.codecs) return { playable: true, smooth: true, powerEfficient: false };
+
+  const contentType = `${container}; codecs="${source.codecs}"`;
+  const typeSupported = mse
+    ? window.MediaSource.isTypeSupported(contentType)
+    : video.canPlayType(contentType) !== "";
+  if (!typeSupported) return unsupported;
+
+  const videoCodec = getVideoCodec(source.codecs);
+  if (typeof navigator === "undefined" || !navigator.mediaCapabilities || !videoCodec) {
+    return { playable: true, smooth: true, powerEfficient: false };
+  }
+  try {
+    const info = await navigator.mediaCapabilities.decodingInfo({
+      type: mse ? "media-source" : "file",
+      video: {
+        contentType: `${container}; codecs="${videoCodec}"`,
+        width: 1920,
+        height: 1080,
+        bitrate: 5_000_000,
+        framerate: 30,
+      },
+    });
+    return { playable: info.supported, smooth: info.smooth, powerEfficient: info.powerEfficient };
+  } catch {
+    // Some browsers reject configurations they can't describe; the type check passed
+    return { playable: true, smooth: true, powerEfficient: false };
+  }
+}
+
+/**
+ * Playable `sources` in the order they should be tried: by `priority`
+ * (higher first), then codec (AV1 > HEVC > H.264, counting codecs that
+ * can't decode smoothly as unknown), then power efficiency, then the order
+ * given. Sources sharing a rank — the same rendition on several CDNs — keep
+ * their order, so the list doubles as the failover sequence.
+ *
+ * When nothing is known to be playable, every source is returned in that
+ * order so the browser can report a real error.
+ */
+export async function rankSources(
+  video: HTMLVideoElement,
+  sources: VideoSource[],
+  options: SourceSupportOptions = {},
+): Promise<VideoSource[]> {
+  const support = await Promise.all(sources.map((s) => getSourceSupport(video, s, options)));
+  const ranked = sources
+    .map((source, i) => ({
+      source,
+      i,
+      playable: support[i].playable,
+      priority: source.priority ?? 0,
+      codec: support[i].smooth ? getCodecRank(source.codecs) : 0,
+      efficient: support[i].powerEfficient ? 1 : 0,
+    }))
+    .sort(
+      (a, b) =>
+        b.priority - a.priority || b.codec - a.codec || b.efficient - a.efficient || a.i - b.i,
+    );
+  const playable = ranked.filter((r) => r.playable);
+  return (playable.length ? playable : ranked).map((r) => r.source);
+}
+
+/** Stable identity for a `sources` array, so inline arrays don't re-probe every render */
+export function getSourcesKey(sources: VideoSource[] | undefined): string {
+  if (!sources?.length) return "";
+  return sources
+    .map((s) => [s.src, s.type ?? "", s.codecs ?? "", s.priority ?? 0].join("|"))
+    .join("\n");
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal key/value storage the player persists user settings through.
+ * `window.localStorage` satisfies it as-is; pass your own adapter to store
+ * settings in a cookie, IndexedDB mirror or user profile instead.
+ */
+export interface PlayerStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * `window.localStorage`, or null during SSR and where access throws
+ * (Safari private mode, sandboxed iframes, disabled cookies).
+ */
+export function getLocalStorage(): PlayerStorage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const storage = window.localStorage;
+    const probe = "__react-helios__";
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+}
+
+/** Read and JSON-parse a stored value; null when missing or malformed */
+export function readStoredJSON<T>(storage: PlayerStorage | null, key: string): T | null {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** JSON-serialise and store a value; quota and access errors are ignored */
+export function writeStoredJSON(storage: PlayerStorage | null, key: string, value: unknown): void {
+  if (!storage) return;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage revoked — persistence is best effort
+  }
+}
+
+export function removeStored(storage: PlayerStorage | null, key: string): void {
+  if (!storage) return;
+  try {
+    storage.removeItem(key);
+  } catch {
+    // ignore
+  }
+}
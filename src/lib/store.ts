@@ -0,0 +1,84 @@
+import type { PlayerState } from "./types";
+
+export const DEFAULT_PLAYER_STATE: PlayerState = {
+  isPlaying: false,
+  currentTime: 0,
+  duration: 0,
+  volume: 1,
+  isMuted: false,
+  playbackRate: 1,
+  bufferedRanges: [],
+  isBuffering: false,
+  error: null,
+  isFullscreen: false,
+  isPictureInPicture: false,
+  isTheaterMode: false,
+  isLive: false,
+  isAtLiveEdge: false,
+  liveLatency: null,
+  qualityLevels: [],
+  currentQualityLevel: -1,
+  isPrefetching: false,
+  prefetchedAhead: 0,
+  playlistIndex: -1,
+  repeatMode: "off",
+  isShuffled: false,
+  chapters: [],
+  currentChapterIndex: -1,
+  subtitleTracks: [],
+  activeSubtitleTrack: null,
+  audioTracks: [],
+  currentAudioTrack: -1,
+};
+
+export type PlayerStateUpdate =
+  | Partial<PlayerState>
+  | ((prev: PlayerState) => Partial<PlayerState>);
+
+/**
+ * The player's state outside React. Components read it through
+ * `useSyncExternalStore` with a selector, so a volume change re-renders the
+ * volume control and nothing else.
+ */
+export interface PlayerStore {
+  getState: () => PlayerState;
+  /** Shallow-merges `update`; listeners only run when a field actually changed */
+  setState: (update: PlayerStateUpdate) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/** Same keys with `Object.is`-equal values; for selectors that return a new object */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) return false;
+  const keys = Object.keys(a) as (keyof T)[];
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.is(a[key], b[key]));
+}
+
+export function createPlayerStore(initial: PlayerState): PlayerStore {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const patch = typeof update === "function" ? update(state) : update;
+      let changed = false;
+      for (const key of Object.keys(patch) as (keyof PlayerState)[]) {
+        if (!Object.is(patch[key], state[key])) {
+          changed = true;
+          break;
+        }
+      }
+      if (!changed) return;
+      state = { ...state, ...patch };
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,217 @@
+export type CueAlign = "start" | "center" | "end" | "left" | "right";
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  /** Raw cue payload, tags included */
+  text: string;
+  /**
+   * `line` setting. A number is a line index (negative counts up from the
+   * bottom) unless `lineIsPercent` is set. "auto" stacks cues at the bottom.
+   */
+  line: number | "auto";
+  lineIsPercent: boolean;
+  /** `position` setting in percent; "auto" derives it from `align` */
+  position: number | "auto";
+  /** `size` setting in percent of the video width */
+  size: number;
+  align: CueAlign;
+}
+
+export type CueNode =
+  | { type: "text"; text: string }
+  | {
+      type: "tag";
+      /** b | i | u | c | v | lang | ruby | rt — anything else is kept as a span */
+      tag: string;
+      classes: string[];
+      /** Voice name for `<v>`, language for `<lang>` */
+      annotation?: string;
+      children: CueNode[];
+    };
+
+function parseTimestamp(s: string): number {
+  const parts = s.trim().split(":");
+  if (parts.length === 3) {
+    return +parts[0] * 3600 + +parts[1] * 60 + parseFloat(parts[2]);
+  }
+  return +parts[0] * 60 + parseFloat(parts[1]);
+}
+
+function parsePercent(value: string): number | null {
+  if (!value.endsWith("%")) return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? Math.max(0, Math.min(100, n)) : null;
+}
+
+function applySettings(cue: SubtitleCue, settings: string): void {
+  for (const setting of settings.split(/\s+/)) {
+    const colon = setting.indexOf(":");
+    if (colon <= 0) continue;
+    const key = setting.slice(0, colon);
+    // `line` and `position` may carry a ",alignment" suffix we don't use
+    const value = setting.slice(colon + 1).split(",")[0];
+
+    switch (key) {
+      case "line": {
+        const pct = parsePercent(value);
+        if (pct !== null) {
+          cue.line = pct;
+          cue.lineIsPercent = true;
+        } else if (/^-?\d+$/.test(value)) {
+          cue.line = parseInt(value, 10);
+          cue.lineIsPercent = false;
+        }
+        break;
+      }
+      case "position": {
+        const pct = parsePercent(value);
+        if (pct !== null) cue.position = pct;
+        break;
+      }
+      case "size": {
+        const pct = parsePercent(value);
+        if (pct !== null) cue.size = pct;
+        break;
+      }
+      case "align":
+        if (["start", "center", "end", "left", "right"].includes(value)) {
+          cue.align = value as CueAlign;
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Parse a WebVTT subtitle / caption file into cues, honouring the
+ * `line`, `position`, `size` and `align` cue settings.
+ *
+ * NOTE, STYLE and REGION blocks are skipped. Cue payloads are kept raw —
+ * run them through {@link parseCueText} to get a renderable tree.
+ */
+export function parseSubtitleVtt(text: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const blocks = text.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIdx = lines.findIndex((l) => l.includes("-->"));
+    if (timingIdx === -1) continue;
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const timing = lines[timingIdx];
+    const arrow = timing.indexOf("-->");
+    const [endStr, ...settings] = timing.slice(arrow + 3).trim().split(/\s+/);
+
+    const cue: SubtitleCue = {
+      start: parseTimestamp(timing.slice(0, arrow)),
+      end: parseTimestamp(endStr),
+      text: lines.slice(timingIdx + 1).join("\n"),
+      line: "auto",
+      lineIsPercent: false,
+      position: "auto",
+      size: 100,
+      align: "center",
+    };
+    applySettings(cue, settings.join(" "));
+    cues.push(cue);
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&nbsp;": "\u00A0",
+  "&lrm;": "\u200E",
+  "&rlm;": "\u200F",
+};
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (m) => ENTITIES[m] ?? m);
+}
+
+/**
+ * Tokenise a cue payload into a tree of text and tag nodes.
+ *
+ * Handles `<b>`, `<i>`, `<u>`, `<c.class1.class2>`, `<v Speaker>` and
+ * `<lang xx>`. Karaoke timestamps (`<00:00:01.000>`) are dropped; unclosed
+ * tags are closed at the end of the cue.
+ */
+export function parseCueText(text: string): CueNode[] {
+  const root: CueNode[] = [];
+  const stack: Extract<CueNode, { type: "tag" }>[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].children : root);
+
+  const re = /<([^>]*)>/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(text))) {
+    if (m.index > last) {
+      current().push({ type: "text", text: decodeEntities(text.slice(last, m.index)) });
+    }
+    last = re.lastIndex;
+
+    const raw = m[1].trim();
+    if (!raw || /^\d/.test(raw)) continue; // timestamp tag
+
+    if (raw.startsWith("/")) {
+      const name = raw.slice(1).split(".")[0];
+      const at = stack.map((n) => n.tag).lastIndexOf(name);
+      if (at !== -1) stack.length = at;
+      continue;
+    }
+
+    const space = raw.search(/\s/);
+    const head = space === -1 ? raw : raw.slice(0, space);
+    const annotation = space === -1 ? undefined : raw.slice(space + 1).trim();
+    const [tag, ...classes] = head.split(".");
+
+    const node: CueNode = { type: "tag", tag: tag.toLowerCase(), classes, annotation, children: [] };
+    current().push(node);
+    stack.push(node);
+  }
+
+  if (last < text.length) {
+    current().push({ type: "text", text: decodeEntities(text.slice(last)) });
+  }
+
+  return root;
+}
+
+/**
+ * All cues active at `time`. Cues are sorted by start, so the scan stops at
+ * the first cue that begins after `time`.
+ */
+export function findActiveCues(cues: SubtitleCue[], time: number): SubtitleCue[] {
+  const active: SubtitleCue[] = [];
+  for (const cue of cues) {
+    if (cue.start > time) break;
+    if (cue.end > time) active.push(cue);
+  }
+  return active;
+}
+
+/**
+ * Convert a browser `VTTCue` (from an in-band or hls.js-managed TextTrack)
+ * into the parser's cue shape so both render through the same overlay.
+ */
+export function fromTextTrackCue(cue: TextTrackCue): SubtitleCue {
+  const vtt = cue as VTTCue;
+  const line = vtt.line ?? "auto";
+  const align = vtt.align ?? "center";
+  return {
+    start: cue.startTime,
+    end: cue.endTime,
+    text: vtt.text ?? "",
+    line: typeof line === "number" ? line : "auto",
+    lineIsPercent: vtt.snapToLines === false,
+    position: typeof vtt.position === "number" ? vtt.position : "auto",
+    size: typeof vtt.size === "number" ? vtt.size : 100,
+    align: (["start", "center", "end", "left", "right"].includes(align) ? align : "center") as CueAlign,
+  };
+}
@@ -0,0 +1,114 @@
+import type { CSSProperties } from "react";
+import type { PlayerTheme, PlayerThemeOptions, ThemePreset } from "./types";
+
+/** The built-in look; also the fallback of every `var()` in the stylesheets */
+const DARK_THEME: PlayerTheme = {
+  accent: "#60a5fa",
+  controlColor: "#ffffff",
+  controlBackground:
+    "linear-gradient(to top, rgba(0,0,0,0.75) 0%, rgba(0,0,0,0.2) 60%, transparent 100%)",
+  controlBackgroundTop: "linear-gradient(to bottom, rgba(0,0,0,0.6) 0%, transparent 100%)",
+  background: "#000",
+  menuBackground: "rgba(15, 15, 15, 0.95)",
+  menuColor: "#ffffff",
+  progressTrack: "rgba(255, 255, 255, 0.25)",
+  progressBuffered: "rgba(255, 255, 255, 0.45)",
+  progressPlayed: "#3b82f6",
+  live: "#e53935",
+  liveBehind: "rgba(80, 80, 80, 0.85)",
+  liveColor: "#fff",
+  spinnerColor: "#fff",
+  fontFamily: "inherit",
+  radius: 4,
+  iconSize: 20,
+};
+
+export const THEME_PRESETS: Record<ThemePreset, PlayerTheme> = {
+  dark: DARK_THEME,
+  light: {
+    accent: "#2563eb",
+    controlColor: "#111827",
+    controlBackground:
+      "linear-gradient(to top, rgba(255,255,255,0.92) 0%, rgba(255,255,255,0.5) 60%, transparent 100%)",
+    controlBackgroundTop: "linear-gradient(to bottom, rgba(255,255,255,0.8) 0%, transparent 100%)",
+    background: "#000",
+    menuBackground: "rgba(255, 255, 255, 0.97)",
+    menuColor: "#111827",
+    progressTrack: "rgba(17, 24, 39, 0.2)",
+    progressBuffered: "rgba(17, 24, 39, 0.35)",
+    progressPlayed: "#2563eb",
+    live: "#dc2626",
+    liveBehind: "rgba(17, 24, 39, 0.7)",
+    liveColor: "#fff",
+    spinnerColor: "#fff",
+    fontFamily: "inherit",
+    radius: 6,
+    iconSize: 20,
+  },
+  minimal: {
+    accent: "#ffffff",
+    controlColor: "#ffffff",
+    controlBackground: "transparent",
+    controlBackgroundTop: "transparent",
+    background: "#000",
+    menuBackground: "rgba(0, 0, 0, 0.8)",
+    menuColor: "#ffffff",
+    progressTrack: "rgba(255, 255, 255, 0.2)",
+    progressBuffered: "rgba(255, 255, 255, 0.35)",
+    progressPlayed: "#ffffff",
+    live: "#e53935",
+    liveBehind: "rgba(80, 80, 80, 0.85)",
+    liveColor: "#fff",
+    spinnerColor: "#fff",
+    fontFamily: "inherit",
+    radius: 0,
+    iconSize: 18,
+  },
+};
+
+const THEME_VARS: Record<keyof PlayerTheme, string> = {
+  accent: "--helios-accent",
+  controlColor: "--helios-control-color",
+  controlBackground: "--helios-control-background",
+  controlBackgroundTop: "--helios-control-background-top",
+  background: "--helios-background",
+  menuBackground: "--helios-menu-background",
+  menuColor: "--helios-menu-color",
+  progressTrack: "--helios-progress-track",
+  progressBuffered: "--helios-progress-buffered",
+  progressPlayed: "--helios-progress-played",
+  live: "--helios-live",
+  liveBehind: "--helios-live-behind",
+  liveColor: "--helios-live-color",
+  spinnerColor: "--helios-spinner-color",
+  fontFamily: "--helios-font-family",
+  radius: "--helios-radius",
+  iconSize: "--helios-icon-size",
+};
+
+/** `theme` prop → full theme: the preset with the given values on top */
+export function resolveTheme(theme: ThemePreset | PlayerThemeOptions): PlayerTheme {
+  if (typeof theme === "string") return THEME_PRESETS[theme] ?? DARK_THEME;
+  const { preset = "dark", ...overrides } = theme;
+  const merged: PlayerTheme = { ...(THEME_PRESETS[preset] ?? DARK_THEME) };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) Object.assign(merged, { [key]: value });
+  }
+  return merged;
+}
+
+/**
+ * Inline style setting the `--helios-*` custom properties. Being inline,
+ * they stay scoped to one player; no `theme` returns none so stylesheet
+ * values apply.
+ */
+export function getThemeStyle(theme?: ThemePreset | PlayerThemeOptions): CSSProperties {
+  if (!theme) return {};
+  const resolved = resolveTheme(theme);
+  const style: Record<string, string> = {};
+  for (const key of Object.keys(THEME_VARS) as (keyof PlayerTheme)[]) {
+    const value = resolved[key];
+    style[THEME_VARS[key]] = typeof value === "number" ? `${value}px` : value;
+  }
+  return style as CSSProperties;
+}
@@ -0,0 +1,102 @@
+import type { AudioTrack, SubtitleTrack } from "./types";
+
+/**
+ * Helpers for the browser's own track lists, used when the engine is the
+ * native HLS implementation (Safari) and there is no hls.js instance.
+ *
+ * `HTMLMediaElement.audioTracks` is missing from the TypeScript DOM lib, so it
+ * is read through a minimal structural type.
+ */
+interface NativeAudioTrack {
+  id: string;
+  label: string;
+  language: string;
+  kind: string;
+  enabled: boolean;
+}
+
+interface NativeAudioTrackList extends EventTarget {
+  readonly length: number;
+  [index: number]: NativeAudioTrack;
+}
+
+export function getNativeAudioTrackList(video: HTMLVideoElement): NativeAudioTrackList | null {
+  return ((video as any).audioTracks as NativeAudioTrackList | undefined) ?? null;
+}
+
+export function readNativeAudioTracks(video: HTMLVideoElement): {
+  tracks: AudioTrack[];
+  current: number;
+} {
+  const list = getNativeAudioTrackList(video);
+  const tracks: AudioTrack[] = [];
+  let current = -1;
+  if (!list) return { tracks, current };
+
+  for (let i = 0; i < list.length; i++) {
+    const t = list[i];
+    tracks.push({
+      id: i,
+      name: t.label || t.language || `Audio ${i + 1}`,
+      lang: t.language,
+      default: t.kind === "main",
+    });
+    if (t.enabled && current === -1) current = i;
+  }
+  return { tracks, current };
+}
+
+export function selectNativeAudioTrack(video: HTMLVideoElement, id: number): void {
+  const list = getNativeAudioTrackList(video);
+  if (!list || id < 0 || id >= list.length) return;
+  for (let i = 0; i < list.length; i++) list[i].enabled = i === id;
+}
+
+/** TextTracks that belong to the player's own `<track>` children */
+function getSidecarTextTracks(video: HTMLVideoElement): Set<TextTrack> {
+  const set = new Set<TextTrack>();
+  video.querySelectorAll("track").forEach((el) => set.add(el.track));
+  return set;
+}
+
+/**
+ * In-band subtitle / caption tracks — anything on `video.textTracks` that
+ * did not come from a `<track>` element. Ids are `native-<index>`.
+ */
+export function readNativeSubtitleTracks(video: HTMLVideoElement): SubtitleTrack[] {
+  const sidecar = getSidecarTextTracks(video);
+  const tracks: SubtitleTrack[] = [];
+  for (let i = 0; i < video.textTracks.length; i++) {
+    const t = video.textTracks[i];
+    if (sidecar.has(t) || (t.kind !== "subtitles" && t.kind !== "captions")) continue;
+    tracks.push({
+      id: `native-${i}`,
+      src: "",
+      label: t.label || t.language || `Subtitles ${tracks.length + 1}`,
+      srclang: t.language,
+      embedded: true,
+    });
+  }
+  return tracks;
+}
+
+/**
+ * Find the TextTrack that carries the cues for an embedded subtitle track.
+ * Native ids map straight to an index; hls.js-created tracks are matched on
+ * label and language because hls.js names its TextTracks after the rendition.
+ */
+export function findEmbeddedTextTrack(
+  video: HTMLVideoElement,
+  track: SubtitleTrack,
+): TextTrack | null {
+  const native = /^native-(\d+)$/.exec(track.id);
+  if (native) return video.textTracks[Number(native[1])] ?? null;
+
+  const sidecar = getSidecarTextTracks(video);
+  for (let i = 0; i < video.textTracks.length; i++) {
+    const t = video.textTracks[i];
+    if (sidecar.has(t)) continue;
+    if (t.label === track.label && (t.language || "") === track.srclang) return t;
+  }
+  return null;
+}
@@ -1,25 +1,169 @@
-import type { ReactNode } from "react";
+import type { ReactElement, ReactNode } from "react";
 import type { HlsConfig } from "hls.js";
+import type { PlayerStorage } from "./storage";
+import type { AnalyticsOptions, QoESummary } from "./analytics";
+import type { AdsOptions } from "./ads";
+import type { PlayerMessagesOverride } from "./i18n";
 
 export interface BufferedRange {
   start: number;
   end: number;
 }
 
+/** The seekable span of a live stream, in media time */
+export interface LiveWindow {
+  start: number;
+  /** The live edge: where "Go live" seeks to */
+  end: number;
+  /** Seconds behind `end` that still count as being at the live edge */
+  edgeTolerance: number;
+}
+
 export type VideoErrorCode =
   | "MEDIA_ERR_ABORTED"
   | "MEDIA_ERR_NETWORK"
   | "MEDIA_ERR_DECODE"
   | "MEDIA_ERR_SRC_NOT_SUPPORTED"
   | "HLS_NETWORK_ERROR"
+  | "HLS_MEDIA_ERROR"
   | "HLS_FATAL_ERROR"
+  | "DASH_NETWORK_ERROR"
+  | "DASH_MEDIA_ERROR"
+  | "DASH_FATAL_ERROR"
+  | "DRM_KEY_SYSTEM_UNSUPPORTED"
+  | "DRM_LICENSE_REQUEST_FAILED"
+  | "DRM_CERTIFICATE_REQUEST_FAILED"
+  | "DRM_KEY_SESSION_FAILED"
+  | "DRM_OUTPUT_RESTRICTED"
   | "UNKNOWN";
 
 export interface VideoError {
   code: VideoErrorCode;
   message: string;
+  /** What the engine reported: hls.js' `details` ("manifestLoadError", …), the dash.js error code or the EME failure */
+  details?: string;
+  /**
+   * Reloading the source might fix it; false for unsupported formats and key
+   * systems. Always set on the player's own errors; unset counts as false.
+   */
+  recoverable?: boolean;
+}
+
+export type RetryErrorType = "network" | "media" | "other";
+
+/** "retry" recovers per the policy; "fail" surfaces the error immediately */
+export type RetryAction = "retry" | "fail";
+
+/** One ID3v2 frame from a timed-metadata sample */
+export interface ID3Frame {
+  /** Four-character frame id: "TXXX", "TIT2", "PRIV", "WXXX", … */
+  id: string;
+  /** `TXXX` / `WXXX` description, `PRIV` owner */
+  info?: string;
+  /** Text and URL frames decoded to a string; other frames as raw bytes */
+  value: string | Uint8Array;
+}
+
+/** ID3 tags carried in the stream (HLS timed metadata, emsg ID3) */
+export interface ID3MetadataCue {
+  type: "id3";
+  /** Media time the cue belongs to, in seconds */
+  time: number;
+  frames: ID3Frame[];
+}
+
+/** An `EXT-X-DATERANGE` tag — ad markers (SCTE-35), chapter and event signals */
+export interface DateRangeMetadataCue {
+  type: "daterange";
+  time: number;
+  id: string;
+  class?: string;
+  /** Wall-clock start; null when the stream has no program date time */
+  startDate: Date | null;
+  endDate: Date | null;
+  /** Seconds */
+  duration?: number;
+  plannedDuration?: number;
+  /** Hex-encoded splice info from the SCTE35-CMD / -OUT / -IN attributes */
+  scte35: { cmd?: string; out?: string; in?: string };
+  /** Every attribute as written, `X-` client attributes included */
+  attributes: Record<string, string>;
+}
+
+export type MetadataCue = ID3MetadataCue | DateRangeMetadataCue;
+
+/**
+ * Low-latency live: the player holds playback `target` seconds behind the
+ * live edge by nudging the playback rate between `minRate` and `maxRate`.
+ */
+export interface LiveLatencyOptions {
+  /** Latency to hold, in seconds. Default 3 */
+  target?: number;
+  /** Drifting further behind than this (e.g. after stalls) jumps back to the edge. Default 3 × `target` */
+  max?: number;
+  /** Slowest catch-up rate, used when ahead of target. Default 0.95 */
+  minRate?: number;
+  /** Fastest catch-up rate, used when behind target. Default 1.1 */
+  maxRate?: number;
+}
+
+/** How fatal HLS errors are recovered from */
+export interface RetryPolicy {
+  /** Network retries before giving up. Default: 3 */
+  maxRetries?: number;
+  /** Delay before the first network retry, in ms; doubles each attempt. Default: 1000 */
+  baseDelay?: number;
+  /** Upper bound on the retry delay, in ms. Default: 30000 */
+  maxDelay?: number;
+  /** Random spread applied to each delay, as a fraction (0.3 = ±30%). Default: 0.3 */
+  jitter?: number;
+  /** Default: "retry" */
+  network?: RetryAction;
+  /** Default: "retry" — recoverMediaError → swapAudioCodec → reload */
+  media?: RetryAction;
+  /** Mux and other errors; "retry" reloads the source once. Key-system errors always fail. Default: "fail" */
+  other?: RetryAction;
+}
+
+export interface RetryEvent {
+  errorType: RetryErrorType;
+  action: "startLoad" | "recoverMediaError" | "swapAudioCodec" | "reload";
+  /** 1-based attempt within the current escalation */
+  attempt: number;
+  maxRetries: number;
+  /** ms until the action runs */
+  delay: number;
+  /** hls.js error details, e.g. "manifestLoadError" */
+  details: string;
+}
+
+export type DRMKeySystem = "widevine" | "playready" | "fairplay" | "clearkey";
+
+/** A license request about to be sent; `transformRequest` may rewrite any field */
+export interface DRMLicenseRequest {
+  url: string;
+  headers: Record<string, string>;
+  /** The CDM's license challenge */
+  body: Uint8Array;
 }
 
+export interface DRMKeySystemConfig {
+  licenseUrl: string;
+  /** Server certificate, required by FairPlay and optional for Widevine */
+  certificateUrl?: string;
+  /** Extra headers sent with every license request (auth tokens, …) */
+  headers?: Record<string, string>;
+  /** Send cookies with license and certificate requests. Default: false */
+  withCredentials?: boolean;
+  /** Wrap or replace the challenge before it is POSTed, e.g. as JSON */
+  transformRequest?: (request: DRMLicenseRequest) => DRMLicenseRequest | Promise<DRMLicenseRequest>;
+  /** Unwrap the license server's response into what the CDM expects. Must be synchronous */
+  transformResponse?: (response: ArrayBuffer) => ArrayBuffer;
+}
+
+/** Key systems to offer, in order of preference; the first one the browser supports is used */
+export type DRMConfig = Partial<Record<DRMKeySystem, DRMKeySystemConfig>>;
+
 /** Display name e.g. "1080p", "720p", "Auto" */
 export interface HLSQualityLevel {
   id: number;
@@ -35,6 +179,186 @@ export interface SubtitleTrack {
   label: string;
   srclang: string;
   default?: boolean;
+  /**
+   * Set by the player for renditions declared inside the stream (HLS
+   * `EXT-X-MEDIA` subtitles, or in-band tracks on Safari). Their cues come
+   * from the media engine, so `src` is empty.
+   */
+  embedded?: boolean;
+}
+
+/** Alternate audio rendition (HLS `EXT-X-MEDIA TYPE=AUDIO` or native `audioTracks`) */
+export interface AudioTrack {
+  id: number;
+  name: string;
+  lang: string;
+  default?: boolean;
+}
+
+/** One candidate for `VideoPlayerProps.sources` */
+export interface VideoSource {
+  src: string;
+  /** MIME type; inferred from the URL when omitted */
+  type?: string;
+  /** RFC 6381 codecs, e.g. 'av01.0.05M.08' or 'avc1.64001f,mp4a.40.2' */
+  codecs?: string;
+  /** Shown to hosts through `onSourceChange`, e.g. "CDN A · AV1" */
+  label?: string;
+  /** Higher is tried first, ahead of codec preference. Default: 0 */
+  priority?: number;
+}
+
+/** "initial" when a source list is (re)selected, "failover" after a network failure */
+export type SourceChangeReason = "initial" | "failover";
+
+export interface PlaylistItem {
+  src: string;
+  poster?: string;
+  title?: string;
+  subtitles?: SubtitleTrack[];
+  thumbnailVtt?: string;
+  /** Saved-position id for this item; see `VideoPlayerProps.resumeKey` */
+  resumeKey?: string;
+}
+
+export interface Chapter {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds; defaults to the next chapter's start (or the duration) */
+  end?: number;
+  title: string;
+}
+
+/** "one" replays the current item, "all" wraps from the last item to the first */
+export type RepeatMode = "off" | "one" | "all";
+
+export type CaptionFontFamily =
+  | "proportionalSans"
+  | "monospaceSans"
+  | "proportionalSerif"
+  | "monospaceSerif"
+  | "casual"
+  | "cursive"
+  | "smallCaps";
+
+export type CaptionEdgeStyle = "none" | "raised" | "depressed" | "uniform" | "dropShadow";
+
+/** Caption appearance, modelled on the FCC caption display settings */
+export interface CaptionStyle {
+  /** Multiplier on the default caption size, e.g. 1.5 = 150% */
+  fontSize: number;
+  fontFamily: CaptionFontFamily;
+  /** CSS hex color, e.g. "#ffffff" */
+  textColor: string;
+  backgroundColor: string;
+  /** 0–1 */
+  backgroundOpacity: number;
+  edgeStyle: CaptionEdgeStyle;
+  /** Color of the box drawn around the whole caption block */
+  windowColor: string;
+  /** 0–1; 0 hides the window */
+  windowOpacity: number;
+}
+
+/**
+ * Player look, applied as `--helios-*` CSS custom properties on the player
+ * container. Colors take any CSS color; sizes are px when given as numbers.
+ */
+export interface PlayerTheme {
+  /** Highlights: volume fill, selected menu options, focus rings */
+  accent: string;
+  /** Icons and text on the control bar */
+  controlColor: string;
+  /** CSS `background` of the control bar, a gradient by default */
+  controlBackground: string;
+  /** CSS `background` of the top control zone (`controlsLayout.top`) */
+  controlBackgroundTop: string;
+  /** Behind the video: letterboxing and before the first frame */
+  background: string;
+  /** Settings and context menus */
+  menuBackground: string;
+  menuColor: string;
+  progressTrack: string;
+  progressBuffered: string;
+  progressPlayed: string;
+  /** LIVE badge and the live-edge dot */
+  live: string;
+  /** LIVE badge while behind the live edge */
+  liveBehind: string;
+  /** Text of the LIVE badge */
+  liveColor: string;
+  /** Buffering spinner */
+  spinnerColor: string;
+  fontFamily: string;
+  /** Corner radius of buttons, menus and badges */
+  radius: string | number;
+  iconSize: string | number;
+}
+
+export type ThemePreset = "dark" | "light" | "minimal";
+
+/** A preset (default "dark") with any of its values replaced */
+export interface PlayerThemeOptions extends Partial<PlayerTheme> {
+  preset?: ThemePreset;
+}
+
+/** Built-in controls that `controlsLayout` can place; `controlBarItems` stands for those buttons */
+export type BuiltInControl =
+  | "previous"
+  | "play"
+  | "next"
+  | "volume"
+  | "time"
+  | "live"
+  | "settings"
+  | "controlBarItems"
+  | "pictureInPicture"
+  | "theaterMode"
+  | "fullscreen";
+
+/**
+ * One entry of a control bar zone: a built-in control, any React element
+ * (it can read the player with `usePlayer`), or a nested array rendered as
+ * a tight group.
+ */
+export type ControlsLayoutItem = BuiltInControl | ReactElement | ControlsLayoutItem[];
+
+export interface ControlsLayout {
+  /** Bar along the top edge, shown and hidden with the controls */
+  top: ControlsLayoutItem[];
+  left: ControlsLayoutItem[];
+  center: ControlsLayoutItem[];
+  right: ControlsLayoutItem[];
+  /** The progress bar above the bottom row */
+  progressBar: boolean;
+}
+
+/** User settings restored across mounts by `persistPreferences` */
+export interface PlayerPreferences {
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+  /** Preferred rendition height in pixels; null = Auto (ABR) */
+  qualityHeight: number | null;
+  /** Preferred subtitle `srclang`; null = captions off. Unset until the user picks. */
+  subtitleLanguage?: string | null;
+}
+
+export interface PersistPreferencesOptions {
+  /** Namespace for the storage key; preferences are saved under `<key>:preferences`. Default "react-helios" */
+  key?: string;
+  /** Defaults to `localStorage` */
+  storage?: PlayerStorage;
+}
+
+/** Payload of `onProgressSave` */
+export interface ResumeProgress {
+  key: string;
+  /** Playback position in seconds */
+  time: number;
+  duration: number;
+  /** True when the video was watched to (near) the end and the entry was cleared */
+  completed: boolean;
 }
 
 export interface PlayerState {
@@ -51,8 +375,31 @@ export interface PlayerState {
   isPictureInPicture: boolean;
   isTheaterMode: boolean;
   isLive: boolean;
+  /** Live stream playing within `edgeTolerance` of the edge; false for VOD */
+  isAtLiveEdge: boolean;
+  /** Measured seconds behind the live edge, updated about once a second; null for VOD */
+  liveLatency: number | null;
   qualityLevels: HLSQualityLevel[];
   currentQualityLevel: number;
+  /** True while background prefetch is topping up the buffer (paused only) */
+  isPrefetching: boolean;
+  /** Seconds buffered ahead of the playhead, updated while prefetching */
+  prefetchedAhead: number;
+  /** Index into `playlist`; -1 when no playlist is set */
+  playlistIndex: number;
+  repeatMode: RepeatMode;
+  isShuffled: boolean;
+  /** Sorted chapters with resolved end times; empty when none are set */
+  chapters: Required<Chapter>[];
+  /** Index into `chapters` under the playhead; -1 when none */
+  currentChapterIndex: number;
+  /** Sidecar `subtitles` followed by any renditions found in the stream */
+  subtitleTracks: SubtitleTrack[];
+  /** `id` of the subtitle track being rendered; null when captions are off */
+  activeSubtitleTrack: string | null;
+  audioTracks: AudioTrack[];
+  /** `id` of the enabled audio track; -1 when the stream has no alternates */
+  currentAudioTrack: number;
 }
 
 export type PlaybackRate = 0.25 | 0.5 | 0.75 | 1 | 1.25 | 1.5 | 1.75 | 2;
@@ -66,10 +413,29 @@ export interface VideoPlayerRef {
   setPlaybackRate: (rate: PlaybackRate) => void;
   setQualityLevel: (level: number) => void;
   seekToLive: () => void;
+  /** Reload the current source after an error and continue from the last position */
+  retry: () => void;
+  /** Seekable window of a live stream; null for VOD or before it is known */
+  getLiveWindow: () => LiveWindow | null;
+  /** Wall-clock time of the current frame; null when the stream carries no date */
+  getProgramDateTime: () => Date | null;
   toggleFullscreen: () => Promise<void>;
   togglePictureInPicture: () => Promise<void>;
   toggleTheaterMode: () => void;
+  /** Advance to the next playlist item (respects shuffle and repeat-all) */
+  next: () => void;
+  /** Restart the current item if past 3 s, otherwise go to the previous item */
+  previous: () => void;
+  goTo: (index: number) => void;
+  setRepeatMode: (mode: RepeatMode) => void;
+  setShuffle: (shuffle: boolean) => void;
+  seekToChapter: (index: number) => void;
+  /** Show a subtitle track by `id`, or pass null to turn captions off */
+  setSubtitleTrack: (id: string | null) => void;
+  setAudioTrack: (id: number) => void;
   getState: () => PlayerState;
+  /** QoE totals for the current source; null when `analytics` is off */
+  getQoESummary: () => QoESummary | null;
   getVideoElement: () => HTMLVideoElement | null;
 }
 
@@ -86,18 +452,111 @@ export interface ControlBarItem {
   onClick: () => void;
 }
 
+/** Built-in keyboard actions, each bound to one or more keys */
+export type ShortcutAction =
+  | "togglePlay"
+  | "seekBackward"
+  | "seekForward"
+  | "rewind"
+  | "fastForward"
+  | "volumeUp"
+  | "volumeDown"
+  | "toggleMute"
+  | "toggleFullscreen"
+  | "togglePictureInPicture"
+  | "toggleTheaterMode"
+  | "toggleCaptions"
+  | "seekToLive"
+  | "previous"
+  | "next"
+  | "slowDown"
+  | "speedUp"
+  | "previousFrame"
+  | "nextFrame"
+  /** The n-th key jumps to n × 10% */
+  | "seekToPercent"
+  | "showShortcuts";
+
+export interface CustomShortcut {
+  /** Key combinations: "s", "Shift+S", "Ctrl+ArrowRight", "?" */
+  keys: string | string[];
+  /** Shown in the keyboard shortcuts overlay */
+  label: string;
+  action: (player: VideoPlayerRef, event: KeyboardEvent) => void;
+}
+
+export interface KeyboardShortcutsOptions {
+  /** Rebind built-in actions; `false` turns one off */
+  bindings?: Partial<Record<ShortcutAction, string | string[] | false>>;
+  /** Extra actions; their keys take precedence over the built-in ones */
+  custom?: CustomShortcut[];
+  /**
+   * Handle keys anywhere on the page instead of only while the player has
+   * focus. Typing in form fields is never intercepted. Default: false
+   */
+  global?: boolean;
+}
+
 export interface VideoPlayerProps {
-  src: string;
+  /** Ignored while a non-empty `playlist` is set */
+  src?: string;
+  /**
+   * Alternative encodings / CDNs of the same video. The best playable one
+   * is picked (AV1 > HEVC > H.264, after `priority`); on a fatal network
+   * error the player moves to the next one and keeps the position.
+   * Takes precedence over `src`; ignored while a `playlist` is set.
+   */
+  sources?: VideoSource[];
+  onSourceChange?: (source: VideoSource, reason: SourceChangeReason) => void;
   poster?: string;
   autoplay?: boolean;
+  /** Applied at mount and whenever it changes; the viewer can still toggle mute */
   muted?: boolean;
+  /**
+   * Controlled playback. While set, the player plays or pauses to match, and
+   * its own play / pause — the controls, shortcuts, `playerRef.play()` — only
+   * ask through `onPlayingChange`. Takes over from `autoplay`.
+   */
+  playing?: boolean;
+  /**
+   * Playback started or stopped — and, with `playing` set, the change the
+   * player asks for. Also false when `play()` is refused (e.g. autoplay blocked).
+   */
+  onPlayingChange?: (playing: boolean) => void;
+  /**
+   * Controlled volume, 0–1; changes go through `onVolumeChange`. A new value
+   * unmutes (0 mutes), like the slider. Mute itself stays with the viewer.
+   */
+  volume?: number;
+  onVolumeChange?: (volume: number, muted: boolean) => void;
+  /** Controlled rate; changes go through `onPlaybackRateChange` */
+  playbackRate?: PlaybackRate;
+  onPlaybackRateChange?: (rate: PlaybackRate) => void;
+  /**
+   * Controlled position in seconds: the player seeks when it changes by more
+   * than half a second from the playhead, so echoing `onTimeUpdate` back is
+   * fine. Seeks the player makes go through `onCurrentTimeChange`.
+   */
+  currentTime?: number;
+  /** A seek completed — and, with `currentTime` set, the one the player asks for. Not fired during playback; see `onTimeUpdate` */
+  onCurrentTimeChange?: (time: number) => void;
   loop?: boolean;
   controls?: boolean;
   preload?: "none" | "metadata" | "auto";
   playbackRates?: PlaybackRate[];
   className?: string;
   enableHLS?: boolean;
+  /**
+   * Play `.mpd` sources with dash.js (the `dashjs` peer dependency), loaded
+   * on demand. Default: true
+   */
+  enableDASH?: boolean;
   enablePreview?: boolean;
+  /**
+   * Keep buffering 30–60 s ahead of the playhead while paused.
+   * Skipped for live streams and when the browser reports Save-Data.
+   */
+  enablePrefetch?: boolean;
   /**
    * URL to a WebVTT thumbnail track for sprite-sheet preview on the progress bar.
    *
@@ -117,23 +576,159 @@ export interface VideoPlayerProps {
    */
   thumbnailVtt?: string;
   hlsConfig?: Partial<HlsConfig>;
+  /** Recovery behaviour for fatal HLS errors */
+  retryPolicy?: RetryPolicy;
+  /** Fired before each HLS recovery attempt */
+  onRetry?: (event: RetryEvent) => void;
+  /**
+   * Protected content: license servers per key system. Used by hls.js,
+   * dash.js and, for native HLS / progressive sources, the browser's EME.
+   */
+  drm?: DRMConfig;
+  /**
+   * Low-latency live (LL-HLS, low-latency DASH): target latency and rate-based
+   * catch-up. `true` uses the defaults. The rate the user picked is left alone.
+   */
+  liveLatency?: boolean | LiveLatencyOptions;
+  /** Measured live latency in seconds, about once a second while a live stream plays */
+  onLatencyChange?: (latency: number) => void;
+  /**
+   * Timed metadata — ID3 frames and `EXT-X-DATERANGE` tags — delivered when
+   * playback reaches each cue's time. A seek drops the cues it skips over,
+   * except date ranges that are still running.
+   */
+  onMetadataCue?: (cue: MetadataCue) => void;
+  /** Show the stream's wall-clock time (program date time) in the time display */
+  showWallClockTime?: boolean;
   subtitles?: SubtitleTrack[];
   crossOrigin?: "anonymous" | "use-credentials";
+  /**
+   * Queue of videos played in order. The current item's `poster`,
+   * `subtitles` and `thumbnailVtt` take precedence over the top-level props.
+   */
+  playlist?: PlaylistItem[];
+  /** Index of the first playlist item to load. Default: 0 */
+  playlistStartIndex?: number;
+  /** Advance to the next item when one ends. Default: true */
+  autoplayNext?: boolean;
+  /** Seconds of "Up next" countdown before advancing; 0 advances immediately. Default: 5 */
+  autoplayNextDelay?: number;
+  repeatMode?: RepeatMode;
+  shuffle?: boolean;
+  onPlaylistIndexChange?: (index: number, item: PlaylistItem) => void;
+  /**
+   * Chapter markers, either as an array or as a URL to a WebVTT chapters
+   * track. Chapters split the progress bar into segments and their titles
+   * appear in the hover tooltip and next to the time display.
+   */
+  chapters?: Chapter[] | string;
+  onChapterChange?: (chapter: Required<Chapter> | null, index: number) => void;
+  /**
+   * Default caption appearance. Choices the user makes in the caption style
+   * panel are layered on top and persisted through `captionStorage`.
+   */
+  captionStyle?: Partial<CaptionStyle>;
+  /**
+   * Where the user's caption style is saved. Defaults to `localStorage`;
+   * pass null to keep choices for the current mount only.
+   */
+  captionStorage?: PlayerStorage | null;
+  /**
+   * Remember volume, mute, playback speed, preferred quality and subtitle
+   * language across page loads. Pass options to change the storage key
+   * namespace or storage backend. Off by default.
+   */
+  persistPreferences?: boolean | PersistPreferencesOptions;
+  /**
+   * Id under which the playback position is saved and later restored
+   * ("continue watching"). For playlists set `resumeKey` on each item instead.
+   */
+  resumeKey?: string;
+  /** Ask "Resume from 12:34 / Start over" instead of seeking straight away. Default: false */
+  resumePrompt?: boolean;
+  /** Position to resume from (e.g. from your backend); overrides the stored one */
+  resumeFrom?: number;
+  /**
+   * Where positions are saved. Defaults to `localStorage`; pass null to rely
+   * on `onProgressSave` + `resumeFrom` alone.
+   */
+  resumeStorage?: PlayerStorage | null;
+  /** Fired every time a position is saved or cleared — sync it to your backend here */
+  onProgressSave?: (progress: ResumeProgress) => void;
+  /**
+   * Playback analytics: typed session / QoE events sent to a sink (see
+   * `createBeaconSink`) and/or `onEvent`. Off when unset.
+   */
+  analytics?: AnalyticsOptions;
+  /**
+   * Client-side ad insertion: pre-, mid- and post-roll breaks from a VMAP
+   * schedule or `breaks`, played over the content. Off when unset.
+   */
+  ads?: AdsOptions;
   onPlay?: () => void;
   onPause?: () => void;
   onEnded?: () => void;
   onError?: (error: VideoError) => void;
+  /**
+   * Replaces the built-in error overlay. `retry` reloads the source at the
+   * last position; only offer it when `error.recoverable` is true.
+   */
+  renderError?: (error: VideoError, retry: () => void) => ReactNode;
   onTimeUpdate?: (time: number) => void;
   onDurationChange?: (duration: number) => void;
   onBuffering?: (isBuffering: boolean) => void;
   onTheaterModeChange?: (isTheater: boolean) => void;
   contextMenuItems?: ContextMenuItem[];
   controlBarItems?: ControlBarItem[];
+  /**
+   * Order, hide or group the built-in controls and add your own components.
+   * Zones you pass replace the default ones; the rest keep their defaults.
+   */
+  controlsLayout?: Partial<ControlsLayout>;
+  /**
+   * Remap or disable keyboard shortcuts, add custom ones or make them work
+   * without focusing the player. `false` turns keyboard control off. Default: true
+   */
+  keyboardShortcuts?: boolean | KeyboardShortcutsOptions;
+  /**
+   * BCP 47 tag ("fr", "ar-EG") picking the built-in translation, the
+   * numerals of times and rates, and the layout direction: right-to-left
+   * languages mirror the control bar and progress bar. Default: English
+   */
+  locale?: string;
+  /** Replace any of the strings; applied over the `locale` translation */
+  messages?: PlayerMessagesOverride;
+  /**
+   * Colors, font, radius and icon size of this player: a preset name or
+   * values over one. Unset, the `--helios-*` properties can come from your
+   * own CSS instead. Styles are recomputed when the value changes identity,
+   * so pass a preset name or an object that is stable across renders.
+   */
+  theme?: ThemePreset | PlayerThemeOptions;
 }
 
-/** Internal error type used by the HLS module */
-export interface PlayerError {
-  code: string;
-  message: string;
-  details?: unknown;
+/** VideoPlayer props that only configure its built-in UI */
+type BuiltInUIProp =
+  | "controls"
+  | "className"
+  | "enablePreview"
+  | "thumbnailVtt"
+  | "showWallClockTime"
+  | "renderError"
+  | "contextMenuItems"
+  | "controlBarItems"
+  | "controlsLayout"
+  | "keyboardShortcuts"
+  | "theme"
+  // Ads play in, and the resume prompt is, a stock overlay
+  | "ads"
+  | "resumePrompt";
+
+/**
+ * `PlayerProvider` runs the same engine as VideoPlayer — sources, HLS/DASH,
+ * DRM, retries, playlists, persistence — and leaves every pixel to its
+ * children. `poster`, `preload` and `crossOrigin` apply to `PlayerVideo`.
+ */
+export interface PlayerProviderProps extends Omit<VideoPlayerProps, BuiltInUIProp> {
+  children?: ReactNode;
 }
@@ -0,0 +1,290 @@
+import type {
+  AdBreakConfig,
+  AdError,
+  AdMediaFile,
+  AdOffset,
+  AdTracking,
+  AdTrackingEvent,
+  LinearAd,
+} from "./ads";
+
+// ─── XML helpers ──────────────────────────────────────────────────────────────
+// VMAP is namespaced ("vmap:AdBreak") and VAST often isn't, so elements are
+// matched on their local name only.
+
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter((el) => el.localName === name);
+}
+
+function child(parent: Element | null | undefined, name: string): Element | null {
+  return parent ? children(parent, name)[0] ?? null : null;
+}
+
+function descendants(parent: Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS("*", name));
+}
+
+function text(el: Element | null | undefined): string {
+  return el?.textContent?.trim() ?? "";
+}
+
+function parseXml(xml: string): Element {
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    throw createAdError(100, "XML parsing error");
+  }
+  return doc.documentElement;
+}
+
+/** An {@link AdError}; thrown as-is so callers can forward it to `onAdError` */
+export function createAdError(code: number, message: string): AdError {
+  return { code, message };
+}
+
+export function isAdError(err: unknown): err is AdError {
+  return typeof (err as AdError | null)?.code === "number";
+}
+
+// ─── Time ─────────────────────────────────────────────────────────────────────
+
+/** "HH:MM:SS" / "HH:MM:SS.mmm" → seconds; null when malformed */
+export function parseVASTTime(value: string): number | null {
+  const m = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(value.trim());
+  if (!m) return null;
+  return Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]);
+}
+
+/** VMAP `timeOffset` → our offset; positional ("#2") offsets are not supported */
+function parseTimeOffset(value: string): AdOffset | null {
+  const v = value.trim();
+  if (v === "start" || v === "end") return v;
+  if (/^\d+(\.\d+)?%$/.test(v)) return v as AdOffset;
+  return parseVASTTime(v);
+}
+
+// ─── Tracking ─────────────────────────────────────────────────────────────────
+
+const TRACKING_EVENTS = new Set<AdTrackingEvent>([
+  "start",
+  "firstQuartile",
+  "midpoint",
+  "thirdQuartile",
+  "complete",
+  "skip",
+  "pause",
+  "resume",
+  "mute",
+  "unmute",
+]);
+
+function addUrl(tracking: AdTracking, event: AdTrackingEvent, url: string) {
+  if (!url) return;
+  (tracking[event] ??= []).push(url);
+}
+
+/** Concatenate tracking from a wrapper chain; every level gets its pixels */
+export function mergeTracking(a: AdTracking, b: AdTracking): AdTracking {
+  const merged: AdTracking = { ...a };
+  for (const [event, urls] of Object.entries(b) as [AdTrackingEvent, string[]][]) {
+    merged[event] = [...(merged[event] ?? []), ...urls];
+  }
+  return merged;
+}
+
+function parseLinearTracking(linear: Element | null, tracking: AdTracking) {
+  if (!linear) return;
+  for (const el of children(child(linear, "TrackingEvents") ?? linear, "Tracking")) {
+    const event = el.getAttribute("event") as AdTrackingEvent | null;
+    if (event && TRACKING_EVENTS.has(event)) addUrl(tracking, event, text(el));
+  }
+  for (const el of children(child(linear, "VideoClicks") ?? linear, "ClickTracking")) {
+    addUrl(tracking, "clickThrough", text(el));
+  }
+}
+
+// ─── VAST ─────────────────────────────────────────────────────────────────────
+
+interface ParsedAd {
+  id: string;
+  sequence: number | null;
+  /** `VASTAdTagURI` of a Wrapper ad; null for InLine ads */
+  wrapperUrl: string | null;
+  /** Complete for InLine ads; only tracking / clickThrough for wrappers */
+  linear: LinearAd;
+}
+
+function parseAd(adEl: Element): ParsedAd | null {
+  const body = child(adEl, "InLine") ?? child(adEl, "Wrapper");
+  if (!body) return null;
+  const isWrapper = body.localName === "Wrapper";
+
+  const tracking: AdTracking = {};
+  for (const el of children(body, "Impression")) addUrl(tracking, "impression", text(el));
+  for (const el of children(body, "Error")) addUrl(tracking, "error", text(el));
+
+  // First creative with a Linear element; companions / non-linear are ignored
+  const linearEl = descendants(child(body, "Creatives") ?? body, "Linear")[0] ?? null;
+  parseLinearTracking(linearEl, tracking);
+
+  const duration = parseVASTTime(text(child(linearEl, "Duration"))) ?? 0;
+  const skipAttr = linearEl?.getAttribute("skipoffset") ?? null;
+  let skipOffset: number | null = null;
+  if (skipAttr) {
+    skipOffset = skipAttr.endsWith("%")
+      ? (parseFloat(skipAttr) / 100) * duration
+      : parseVASTTime(skipAttr);
+  }
+
+  const mediaFiles: AdMediaFile[] = descendants(child(linearEl, "MediaFiles") ?? body, "MediaFile")
+    .map((el) => ({
+      src: text(el),
+      type: el.getAttribute("type") ?? "",
+      delivery: el.getAttribute("delivery") ?? "progressive",
+      width: Number(el.getAttribute("width")) || 0,
+      height: Number(el.getAttribute("height")) || 0,
+      bitrate: Number(el.getAttribute("bitrate")) || undefined,
+    }))
+    .filter((m) => m.src);
+
+  const sequence = adEl.getAttribute("sequence");
+  return {
+    id: adEl.getAttribute("id") ?? "",
+    sequence: sequence ? Number(sequence) : null,
+    wrapperUrl: isWrapper ? text(child(body, "VASTAdTagURI")) || null : null,
+    linear: {
+      id: adEl.getAttribute("id") ?? "",
+      title: text(child(body, "AdTitle")),
+      adSystem: text(child(body, "AdSystem")),
+      duration,
+      skipOffset,
+      mediaFiles,
+      clickThrough: text(child(child(linearEl, "VideoClicks"), "ClickThrough")) || null,
+      tracking,
+    },
+  };
+}
+
+/**
+ * Parse a VAST 2–4 document. Returns the ads to play — the pod (ads with a
+ * `sequence`, in order) when there is one, otherwise the first ad — and the
+ * document-level error URLs fired when it has no ads at all.
+ */
+export function parseVAST(xml: string): { ads: ParsedAd[]; errorUrls: string[] } {
+  const root = parseXml(xml);
+  if (root.localName !== "VAST") throw createAdError(100, "Not a VAST document");
+
+  const ads = children(root, "Ad")
+    .map(parseAd)
+    .filter((ad): ad is ParsedAd => ad !== null);
+  const pod = ads
+    .filter((ad) => ad.sequence !== null)
+    .sort((a, b) => a.sequence! - b.sequence!);
+
+  return {
+    ads: pod.length ? pod : ads.slice(0, 1),
+    errorUrls: children(root, "Error").map(text).filter(Boolean),
+  };
+}
+
+export interface ResolveVASTOptions {
+  fetchXml: (url: string) => Promise<string>;
+  /** Fires error pixels for documents and wrappers that fail */
+  onErrorUrls: (urls: string[], code: number) => void;
+  maxWrapperDepth: number;
+}
+
+/**
+ * Load a VAST tag (or parse inline XML) and follow Wrapper ads down to their
+ * InLine ads, merging every level's impression / tracking / error URLs into
+ * the final ad. Wrappers that fail are dropped from the pod; the rest play.
+ */
+export async function resolveVASTAds(
+  source: { vastUrl?: string; vastXml?: string },
+  options: ResolveVASTOptions,
+  depth = 0,
+): Promise<LinearAd[]> {
+  const xml = source.vastXml ?? (source.vastUrl ? await fetchVAST(source.vastUrl, options) : "");
+  const { ads, errorUrls } = parseVAST(xml);
+  if (!ads.length) {
+    options.onErrorUrls(errorUrls, 303);
+    throw createAdError(303, "No ads in VAST response");
+  }
+
+  const resolved: LinearAd[] = [];
+  for (const ad of ads) {
+    if (!ad.wrapperUrl) {
+      resolved.push(ad.linear);
+      continue;
+    }
+    const wrapperErrors = ad.linear.tracking.error ?? [];
+    if (depth + 1 > options.maxWrapperDepth) {
+      options.onErrorUrls(wrapperErrors, 302);
+      continue;
+    }
+    try {
+      const inner = await resolveVASTAds({ vastUrl: ad.wrapperUrl }, options, depth + 1);
+      for (const innerAd of inner) {
+        resolved.push({
+          ...innerAd,
+          clickThrough: innerAd.clickThrough ?? ad.linear.clickThrough,
+          tracking: mergeTracking(ad.linear.tracking, innerAd.tracking),
+        });
+      }
+    } catch (err) {
+      options.onErrorUrls(wrapperErrors, isAdError(err) ? err.code : 301);
+    }
+  }
+
+  if (!resolved.length) throw createAdError(303, "No playable ads after resolving wrappers");
+  return resolved;
+}
+
+async function fetchVAST(url: string, options: ResolveVASTOptions): Promise<string> {
+  try {
+    return await options.fetchXml(url);
+  } catch {
+    throw createAdError(301, `Failed to load VAST from ${url}`);
+  }
+}
+
+// ─── VMAP ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a VMAP 1.0 document into ad breaks. Each break carries its VAST tag
+ * URL or inline VAST, plus the break-level start / end / error pixels.
+ * Non-linear breaks and positional offsets are skipped.
+ */
+export function parseVMAP(xml: string): AdBreakConfig[] {
+  const root = parseXml(xml);
+  if (root.localName !== "VMAP") throw createAdError(100, "Not a VMAP document");
+
+  const breaks: AdBreakConfig[] = [];
+  for (const el of children(root, "AdBreak")) {
+    const type = el.getAttribute("breakType");
+    if (type && !type.split(",").includes("linear")) continue;
+    const offset = parseTimeOffset(el.getAttribute("timeOffset") ?? "");
+    if (offset === null) continue;
+
+    const source = child(el, "AdSource");
+    const inlineVast = child(child(source, "VASTAdData") ?? child(source, "VASTData"), "VAST");
+    const vastUrl = text(child(source, "AdTagURI"));
+    if (!inlineVast && !vastUrl) continue;
+
+    const tracking: NonNullable<AdBreakConfig["tracking"]> = {};
+    for (const t of descendants(el, "Tracking")) {
+      const event = t.getAttribute("event");
+      if (event === "breakStart" || event === "breakEnd" || event === "error") {
+        (tracking[event] ??= []).push(text(t));
+      }
+    }
+
+    breaks.push({
+      id: el.getAttribute("breakId") ?? undefined,
+      offset,
+      vastUrl: inlineVast ? undefined : vastUrl,
+      vastXml: inlineVast ? new XMLSerializer().serializeToString(inlineVast) : undefined,
+      tracking,
+    });
+  }
+  return breaks;
+}
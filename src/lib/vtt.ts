@@ -1,3 +1,5 @@
+import type { Chapter } from "./types";
+
 export interface ThumbnailCue {
   start: number;
   end: number;
@@ -104,3 +106,79 @@ export function findThumbnailCue(
 
   return null;
 }
+
+/**
+ * Parse a WebVTT chapters track into an array of chapters.
+ *
+ * Each cue's text (all lines up to the next blank line) becomes the title:
+ *   00:00:00.000 --> 00:01:30.000
+ *   Introduction
+ *
+ * @param text Raw VTT file text
+ */
+export function parseChapterVtt(text: string): Chapter[] {
+  const chapters: Chapter[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i].trim();
+
+    if (line.includes("-->")) {
+      const arrow = line.indexOf("-->");
+      const start = parseVttTime(line.slice(0, arrow));
+      // Cue settings may follow the end timestamp
+      const end = parseVttTime(line.slice(arrow + 3).trim().split(/\s+/)[0]);
+      i++;
+
+      const titleLines: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        titleLines.push(lines[i].trim());
+        i++;
+      }
+
+      chapters.push({ start, end, title: titleLines.join(" ") });
+    }
+
+    i++;
+  }
+
+  return chapters;
+}
+
+/**
+ * Sort chapters and fill in missing `end` times from the next chapter's
+ * start (or `duration` for the last one).
+ */
+export function normalizeChapters(
+  chapters: Chapter[],
+  duration: number,
+): Required<Chapter>[] {
+  const sorted = [...chapters].sort((a, b) => a.start - b.start);
+  return sorted.map((c, i) => ({
+    start: c.start,
+    end: c.end ?? sorted[i + 1]?.start ?? (duration > 0 ? duration : c.start),
+    title: c.title,
+  }));
+}
+
+/**
+ * Binary-search for the index of the chapter covering `time` (seconds).
+ * Returns -1 if no chapter covers that timestamp.
+ */
+export function findChapterIndex(
+  chapters: Required<Chapter>[],
+  time: number,
+): number {
+  let lo = 0;
+  let hi = chapters.length - 1;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (chapters[mid].end <= time) lo = mid + 1;
+    else if (chapters[mid].start > time) hi = mid - 1;
+    else return mid;
+  }
+
+  return -1;
+}